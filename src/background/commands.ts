@@ -0,0 +1,40 @@
+/**
+ * Global keyboard commands declared in the manifest
+ * Users change the keys at chrome://extensions/shortcuts
+ */
+
+import { requestPanel, type PanelRequest } from '@/utils/side-panel'
+import { openPanelIfBookmarked, saveTabAsBookmark } from './context-menus'
+
+// Commands that open the side panel on a view
+const PANEL_COMMANDS: Record<string, PanelRequest> = {
+  'open-items': { module: 'items' },
+  'open-prompts': { module: 'prompts' },
+  'open-tasks': { module: 'items', itemTab: 'task' },
+  'open-bookmarks': { module: 'items', itemTab: 'bookmark' },
+  'open-notes': { module: 'items', itemTab: 'note' },
+  'quick-task': { module: 'items', itemTab: 'task', action: 'quickTask' },
+  'prompt-picker': { module: 'prompts', action: 'promptPicker' },
+}
+
+/**
+ * Register the command handler - service worker only
+ */
+export function setupCommands({ ready }: { ready: () => Promise<void> }): void {
+  chrome.commands.onCommand.addListener((command, tab) => {
+    if (command === 'save-bookmark') {
+      if (!tab) return
+      openPanelIfBookmarked(tab.url, tab.windowId)
+      ready().then(() => saveTabAsBookmark(tab))
+      return
+    }
+
+    const request = PANEL_COMMANDS[command]
+    if (!request) return
+    // Opened before anything is awaited - the command's user gesture doesn't survive a wait
+    if (tab?.windowId !== undefined) {
+      chrome.sidePanel.open({ windowId: tab.windowId }).catch((error) => console.error('[NotionSidebar] Side panel open error:', error))
+    }
+    requestPanel(request)
+  })
+}
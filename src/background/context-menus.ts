@@ -0,0 +1,345 @@
+/**
+ * Right-click capture: save the page (optionally with its article), a link, an image or the selected text
+ *
+ * Every action has a submenu to save it as is, or under a category or project
+ * (prompt categories for prompts). The menus follow category, project and prompt
+ * changes made in any extension page through a Dexie live query.
+ * Pages, links and images that are already bookmarked aren't saved again: the side panel
+ * opens the saved bookmark instead. An article of a bookmarked page is added to that bookmark.
+ */
+
+import { liveQuery, type Subscription } from 'dexie'
+import { createItem } from '@/db/operations/item-operations'
+import { findDuplicateBookmarks, getBookmarkedUrls } from '@/db/operations/duplicate-operations'
+import { createPrompt, getPromptCategories } from '@/db/operations/prompt-operations'
+import { getAllCategories } from '@/db/operations/category-operations'
+import { getAllProjects } from '@/db/operations/project-operations'
+import { saveArticle, saveArticleInto } from '@/utils/reader-mode'
+import { requestPanel } from '@/utils/side-panel'
+import { normalizeUrl } from '@/utils/url-normalize'
+import en from '@/i18n/locales/en.json'
+import vi from '@/i18n/locales/vi.json'
+import type { Category, Project } from '@/types'
+
+type CaptureAction = 'page' | 'article' | 'link' | 'image' | 'note' | 'prompt'
+
+type CaptureOutcome = 'saved' | 'duplicate'
+
+// Where the captured record is filed
+type CaptureTarget =
+  | { kind: 'none' }
+  | { kind: 'category'; id: string }
+  | { kind: 'project'; id: string }
+  | { kind: 'promptCategory'; name: string }
+
+interface MenuData {
+  categories: Category[]
+  projects: Project[]
+  promptCategories: string[]
+}
+
+interface CaptureOptions {
+  ready: () => Promise<void>
+  // Title of a linked page, which the click itself doesn't carry
+  describeUrl: (url: string) => Promise<{ title: string | null }>
+}
+
+const ACTIONS: { action: CaptureAction; contexts: chrome.contextMenus.CreateProperties['contexts'] }[] = [
+  { action: 'page', contexts: ['page'] },
+  { action: 'article', contexts: ['page'] },
+  { action: 'link', contexts: ['link'] },
+  { action: 'image', contexts: ['image'] },
+  { action: 'note', contexts: ['selection'] },
+  { action: 'prompt', contexts: ['selection'] },
+]
+
+// Notion titles are short - longer selections keep their full text in the body
+const MAX_TITLE_LENGTH = 80
+const BADGE_MS = 2000
+
+let messages: typeof en.contextMenu = en.contextMenu
+let subscription: Subscription | null = null
+let bookmarkSubscription: Subscription | null = null
+// Kept current so a click can tell a duplicate without waiting (see openPanelIfBookmarked)
+let bookmarkedUrls = new Set<string>()
+// Rebuilds run one at a time - removeAll and create would interleave otherwise
+let building: Promise<void> = Promise.resolve()
+
+async function loadMessages(): Promise<void> {
+  const { language } = await chrome.storage.local.get('language')
+  messages = (language === 'vi' ? vi : en).contextMenu
+}
+
+const menuId = (action: CaptureAction, target: CaptureTarget): string => {
+  switch (target.kind) {
+    case 'none': return `${action}|none`
+    case 'category': return `${action}|category:${target.id}`
+    case 'project': return `${action}|project:${target.id}`
+    case 'promptCategory': return `${action}|promptCategory:${target.name}`
+  }
+}
+
+function parseMenuId(id: string): { action: CaptureAction; target: CaptureTarget } | null {
+  const separator = id.indexOf('|')
+  if (separator === -1) return null
+  const action = id.slice(0, separator) as CaptureAction
+  const rest = id.slice(separator + 1)
+  if (rest === 'none') return { action, target: { kind: 'none' } }
+
+  const colon = rest.indexOf(':')
+  if (colon === -1) return null
+  const kind = rest.slice(0, colon)
+  const value = rest.slice(colon + 1)
+  if (kind === 'category' || kind === 'project') return { action, target: { kind, id: value } }
+  if (kind === 'promptCategory') return { action, target: { kind, name: value } }
+  return null
+}
+
+function createMenu(properties: chrome.contextMenus.CreateProperties): void {
+  chrome.contextMenus.create(properties, () => {
+    // Reading lastError keeps a duplicate ID during a rebuild from being logged as uncaught
+    if (chrome.runtime.lastError) console.warn('[NotionSidebar] Context menu:', chrome.runtime.lastError.message)
+  })
+}
+
+async function buildMenus(data: MenuData): Promise<void> {
+  await chrome.contextMenus.removeAll()
+
+  for (const { action, contexts } of ACTIONS) {
+    const parentId = action
+    createMenu({ id: parentId, title: messages[action], contexts })
+    createMenu({ id: menuId(action, { kind: 'none' }), parentId, title: messages.save, contexts })
+
+    if (action === 'prompt') {
+      if (data.promptCategories.length === 0) continue
+      const groupId = `${action}|categories`
+      createMenu({ id: groupId, parentId, title: messages.category, contexts })
+      for (const name of data.promptCategories) {
+        createMenu({ id: menuId(action, { kind: 'promptCategory', name }), parentId: groupId, title: name, contexts })
+      }
+      continue
+    }
+
+    if (data.categories.length > 0) {
+      const groupId = `${action}|categories`
+      createMenu({ id: groupId, parentId, title: messages.category, contexts })
+      for (const category of data.categories) {
+        createMenu({ id: menuId(action, { kind: 'category', id: category.id }), parentId: groupId, title: category.name, contexts })
+      }
+    }
+
+    if (data.projects.length > 0) {
+      const groupId = `${action}|projects`
+      createMenu({ id: groupId, parentId, title: messages.project, contexts })
+      for (const project of data.projects) {
+        createMenu({ id: menuId(action, { kind: 'project', id: project.id }), parentId: groupId, title: project.name, contexts })
+      }
+    }
+  }
+}
+
+function rebuild(data: MenuData): void {
+  building = building
+    .then(() => buildMenus(data))
+    .catch((error) => console.error('[NotionSidebar] Context menu build error:', error))
+}
+
+/**
+ * Follow the active profile's categories, projects and prompt categories
+ * Call again after a profile switch - the query is bound to the database it first read
+ */
+export function refreshContextMenus(): void {
+  subscription?.unsubscribe()
+  subscription = liveQuery(async (): Promise<MenuData> => {
+    const [categories, projects, promptCategories] = await Promise.all([
+      getAllCategories(),
+      getAllProjects(),
+      getPromptCategories(),
+    ])
+    return { categories, projects, promptCategories }
+  }).subscribe({
+    next: rebuild,
+    error: (error) => console.error('[NotionSidebar] Context menu query error:', error),
+  })
+
+  bookmarkSubscription?.unsubscribe()
+  bookmarkedUrls = new Set()
+  bookmarkSubscription = liveQuery(getBookmarkedUrls).subscribe({
+    next: (urls) => { bookmarkedUrls = urls },
+    error: (error) => console.error('[NotionSidebar] Bookmark query error:', error),
+  })
+}
+
+/**
+ * Open the side panel when an address is already bookmarked, so the saved bookmark can be shown
+ * Call before anything is awaited - a click's or command's user gesture doesn't survive a wait
+ * Reads the cached addresses; the capture itself makes the real check and hands the panel the item
+ */
+export function openPanelIfBookmarked(url: string | undefined, windowId: number | undefined): void {
+  const key = normalizeUrl(url)
+  if (!key || !bookmarkedUrls.has(key) || windowId === undefined) return
+  chrome.sidePanel.open({ windowId }).catch((error) => console.error('[NotionSidebar] Side panel open error:', error))
+}
+
+const truncate = (text: string): string =>
+  text.length > MAX_TITLE_LENGTH ? `${text.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : text
+
+/**
+ * Show the bookmark already saved for an address in the side panel
+ * Returns false when there is none
+ */
+async function showSavedBookmark(url: string): Promise<boolean> {
+  const [saved] = await findDuplicateBookmarks(url)
+  if (!saved) return false
+  await requestPanel({ module: 'items', itemTab: 'bookmark', editItemId: saved.id })
+  return true
+}
+
+// Address a page, link or image capture bookmarks
+function bookmarkUrl(action: CaptureAction, info: chrome.contextMenus.OnClickData, tab: chrome.tabs.Tab | undefined): string | undefined {
+  switch (action) {
+    case 'page': return info.pageUrl ?? tab?.url
+    case 'link': return info.linkUrl
+    case 'image': return info.srcUrl
+    default: return undefined
+  }
+}
+
+function fileName(url: string): string | null {
+  try {
+    return decodeURIComponent(new URL(url).pathname.split('/').filter(Boolean).pop() ?? '') || null
+  } catch {
+    return null
+  }
+}
+
+async function capture(
+  action: CaptureAction,
+  target: CaptureTarget,
+  info: chrome.contextMenus.OnClickData,
+  tab: chrome.tabs.Tab | undefined,
+  options: CaptureOptions
+): Promise<CaptureOutcome> {
+  const pageUrl = info.pageUrl ?? tab?.url ?? ''
+  const pageTitle = tab?.title || pageUrl
+  const selection = info.selectionText?.trim() ?? ''
+  const filing = {
+    categoryId: target.kind === 'category' ? target.id : undefined,
+    projectId: target.kind === 'project' ? target.id : undefined,
+    tags: [],
+  }
+
+  switch (action) {
+    case 'page':
+      if (await showSavedBookmark(pageUrl)) return 'duplicate'
+      await createItem({ type: 'bookmark', title: pageTitle, content: '', url: pageUrl, ...filing })
+      break
+
+    case 'article': {
+      if (!tab) throw new Error('The clicked tab is not available')
+      // Every article save mode keeps a bookmark of the page - an existing one takes the article
+      const [saved] = await findDuplicateBookmarks(pageUrl)
+      if (saved) await saveArticleInto(tab, saved)
+      else await saveArticle(tab, filing)
+      break
+    }
+
+    case 'link': {
+      const url = info.linkUrl!
+      if (await showSavedBookmark(url)) return 'duplicate'
+      const { title } = await options.describeUrl(url).catch(() => ({ title: null }))
+      await createItem({ type: 'bookmark', title: title || url, content: '', url, ...filing })
+      break
+    }
+
+    case 'image': {
+      const url = info.srcUrl!
+      if (await showSavedBookmark(url)) return 'duplicate'
+      await createItem({ type: 'bookmark', title: fileName(url) || pageTitle, content: '', url, ...filing })
+      break
+    }
+
+    case 'note':
+      await createItem({ type: 'note', title: pageTitle, content: selection, url: pageUrl, ...filing })
+      break
+
+    case 'prompt':
+      await createPrompt({
+        title: truncate(selection.split('\n')[0]),
+        description: '',
+        prompt: selection,
+        type: 'text',
+        category: target.kind === 'promptCategory' ? target.name : null,
+        tags: [],
+        note: pageUrl,
+        approved: false,
+        favorite: false,
+        quality: null,
+        textDemo: null,
+        fileDemo: null,
+        urlDemo: null,
+      })
+      break
+  }
+
+  announce(action)
+  return 'saved'
+}
+
+// Open pages reload their lists
+function announce(action: CaptureAction): void {
+  chrome.runtime.sendMessage({ type: action === 'prompt' ? 'PROMPTS_CHANGED' : 'ITEMS_CHANGED' }).catch(() => {})
+}
+
+async function flashBadge(text: string, color: string): Promise<void> {
+  await chrome.action.setBadgeBackgroundColor({ color })
+  await chrome.action.setBadgeText({ text })
+  setTimeout(() => chrome.action.setBadgeText({ text: '' }), BADGE_MS)
+}
+
+// The toolbar badge shows whether a capture worked - there is no page to toast on
+function reportCapture(run: () => Promise<CaptureOutcome>): Promise<void> {
+  return run()
+    .then((outcome) => (outcome === 'duplicate' ? flashBadge('DUP', '#d97706') : flashBadge('✓', '#16a34a')))
+    .catch((error) => {
+      console.error('[NotionSidebar] Capture error:', error)
+      return flashBadge('!', '#dc2626')
+    })
+}
+
+/**
+ * Save a tab as an unfiled bookmark - also used by the keyboard command
+ * Call openPanelIfBookmarked first, so a page already saved opens in the side panel
+ */
+export function saveTabAsBookmark(tab: chrome.tabs.Tab): Promise<void> {
+  return reportCapture(async () => {
+    const url = tab.url
+    if (!url || !/^https?:/.test(url)) throw new Error('Only web pages can be saved as bookmarks')
+    if (await showSavedBookmark(url)) return 'duplicate'
+    await createItem({ type: 'bookmark', title: tab.title || url, content: '', url, tags: [] })
+    announce('page')
+    return 'saved'
+  })
+}
+
+/**
+ * Register the capture menus and their click handler - service worker only
+ */
+export function setupContextMenus(options: CaptureOptions): void {
+  loadMessages().then(() => options.ready()).then(refreshContextMenus)
+
+  chrome.storage.onChanged.addListener((changes, area) => {
+    if (area !== 'local' || !changes.language) return
+    // Menu titles follow the UI language - a no-op query change won't rebuild them
+    loadMessages().then(refreshContextMenus)
+  })
+
+  chrome.contextMenus.onClicked.addListener((info, tab) => {
+    const parsed = parseMenuId(String(info.menuItemId))
+    if (!parsed) return
+
+    openPanelIfBookmarked(bookmarkUrl(parsed.action, info, tab), tab?.windowId)
+
+    reportCapture(() => options.ready().then(() => capture(parsed.action, parsed.target, info, tab, options)))
+  })
+}
@@ -4,15 +4,18 @@
  */
 
 import { syncService } from '@/services/notion'
+import { serveRelayPort, NOTION_RELAY_PORT } from '@/services/notion/api-client'
 import { promptSyncService } from '@/services/notion/prompt-sync-service'
+import { runJournaledSync } from '@/services/notion/sync-journal'
+import { reportSyncProgress, serveProgressPort, withSyncProgress, SYNC_PROGRESS_PORT } from '@/services/notion/sync-progress'
 import { getSettings } from '@/db/operations/settings-operations'
-
-interface UrlMetadata {
-  title: string | null
-  description: string | null
-  image: string | null
-  siteName: string | null
-}
+import { activateStoredProfile, onActiveProfileChange } from '@/db/operations/profile-operations'
+import { openProfileDatabase } from '@/db/schema'
+import { handleTokenVaultRequest, isTokenLocked, sealStoredSecrets } from '@/services/notion/token-vault'
+import { setupContextMenus, refreshContextMenus } from './context-menus'
+import { setupCommands } from './commands'
+import { readHtmlMetadata } from '@/utils/html-metadata'
+import { extractFromUrl, type UrlMetadata } from '@/utils/url-metadata'
 
 /**
  * Fetch and parse metadata from a URL
@@ -31,8 +34,7 @@ async function fetchUrlMetadata(url: string): Promise<UrlMetadata> {
       throw new Error(`HTTP ${response.status}`)
     }
 
-    const html = await response.text()
-    return parseHtmlMetadata(html, url)
+    return await readHtmlMetadata(response, url)
   } catch (error) {
     console.error('[NotionSidebar] Failed to fetch URL metadata:', error)
     // Return basic fallback
@@ -40,110 +42,110 @@ async function fetchUrlMetadata(url: string): Promise<UrlMetadata> {
   }
 }
 
-/**
- * Parse HTML to extract Open Graph and meta tags
- */
-function parseHtmlMetadata(html: string, url: string): UrlMetadata {
-  // Simple regex-based parsing (more reliable in service worker)
-  const getMetaContent = (pattern: RegExp): string | null => {
-    const match = html.match(pattern)
-    return match ? decodeHtmlEntities(match[1]) : null
-  }
-
-  // Extract title
-  const ogTitle = getMetaContent(/<meta[^>]+property=["']og:title["'][^>]+content=["']([^"']+)["']/i)
-    || getMetaContent(/<meta[^>]+content=["']([^"']+)["'][^>]+property=["']og:title["']/i)
-  const twitterTitle = getMetaContent(/<meta[^>]+name=["']twitter:title["'][^>]+content=["']([^"']+)["']/i)
-    || getMetaContent(/<meta[^>]+content=["']([^"']+)["'][^>]+name=["']twitter:title["']/i)
-  const titleTag = getMetaContent(/<title[^>]*>([^<]+)<\/title>/i)
-  const title = ogTitle || twitterTitle || titleTag || null
-
-  // Extract description
-  const ogDesc = getMetaContent(/<meta[^>]+property=["']og:description["'][^>]+content=["']([^"']+)["']/i)
-    || getMetaContent(/<meta[^>]+content=["']([^"']+)["'][^>]+property=["']og:description["']/i)
-  const twitterDesc = getMetaContent(/<meta[^>]+name=["']twitter:description["'][^>]+content=["']([^"']+)["']/i)
-    || getMetaContent(/<meta[^>]+content=["']([^"']+)["'][^>]+name=["']twitter:description["']/i)
-  const metaDesc = getMetaContent(/<meta[^>]+name=["']description["'][^>]+content=["']([^"']+)["']/i)
-    || getMetaContent(/<meta[^>]+content=["']([^"']+)["'][^>]+name=["']description["']/i)
-  const description = ogDesc || twitterDesc || metaDesc || null
-
-  // Extract image
-  const ogImage = getMetaContent(/<meta[^>]+property=["']og:image["'][^>]+content=["']([^"']+)["']/i)
-    || getMetaContent(/<meta[^>]+content=["']([^"']+)["'][^>]+property=["']og:image["']/i)
-  let image = ogImage || null
-
-  // Make relative URLs absolute
-  if (image && !image.startsWith('http')) {
-    try {
-      image = new URL(image, url).href
-    } catch {
-      image = null
-    }
-  }
-
-  // Extract site name
-  const siteName = getMetaContent(/<meta[^>]+property=["']og:site_name["'][^>]+content=["']([^"']+)["']/i)
-    || getMetaContent(/<meta[^>]+content=["']([^"']+)["'][^>]+property=["']og:site_name["']/i)
-
-  return { title, description, image, siteName }
-}
-
-/**
- * Decode HTML entities
- */
-function decodeHtmlEntities(text: string): string {
-  return text
-    .replace(/&amp;/g, '&')
-    .replace(/&lt;/g, '<')
-    .replace(/&gt;/g, '>')
-    .replace(/&quot;/g, '"')
-    .replace(/&#39;/g, "'")
-    .replace(/&#x27;/g, "'")
-    .replace(/&#x2F;/g, '/')
-}
-
-/**
- * Extract basic info from URL when fetch fails
- */
-function extractFromUrl(url: string): UrlMetadata {
-  try {
-    const parsedUrl = new URL(url)
-    const hostname = parsedUrl.hostname.replace('www.', '')
-    const title = hostname.charAt(0).toUpperCase() + hostname.slice(1)
-    return { title, description: null, image: null, siteName: hostname }
-  } catch {
-    return { title: null, description: null, image: null, siteName: null }
-  }
-}
-
 // Open sidepanel on extension icon click
 chrome.sidePanel.setPanelBehavior({ openPanelOnActionClick: true })
 
 // Set up auto-sync alarm based on settings
+// Runs on every worker start: an alarm with the right period is kept, so restarts don't postpone it
 async function setupAutoSync() {
   const settings = await getSettings()
-
-  // Clear existing alarm
-  await chrome.alarms.clear('syncNotionData')
+  const existing = await chrome.alarms.get('syncNotionData')
 
   if (settings.autoSyncEnabled && settings.autoSyncInterval > 0) {
-    chrome.alarms.create('syncNotionData', {
+    if (existing?.periodInMinutes === settings.autoSyncInterval) return
+    await chrome.alarms.clear('syncNotionData')
+    await chrome.alarms.create('syncNotionData', {
       periodInMinutes: settings.autoSyncInterval
     })
     console.log(`[NotionSidebar] Auto-sync enabled: every ${settings.autoSyncInterval} minutes`)
-  } else {
+  } else if (existing) {
+    await chrome.alarms.clear('syncNotionData')
     console.log('[NotionSidebar] Auto-sync disabled')
   }
 }
 
+/**
+ * Every handler waits for the active profile's database before touching data
+ * A switch waits for running syncs, so one profile's pages never land in another's database
+ */
+let profileReady: Promise<void> = activateStoredProfile().then(sealTokens)
+
+// Tokens saved before sealing existed get sealed once their profile opens
+function sealTokens(): Promise<void> {
+  return sealStoredSecrets().catch((error) => console.error('[NotionSidebar] Token sealing error:', error))
+}
+
+function cancelSyncs(): void {
+  syncService.cancel()
+  promptSyncService.cancel()
+}
+
+// Both engines feed the progress streamed to open pages
+syncService.onProgress(reportSyncProgress)
+promptSyncService.onProgress(reportSyncProgress)
+
+async function waitForIdleSync(): Promise<void> {
+  while (syncService.syncing || promptSyncService.syncing) {
+    await new Promise((resolve) => setTimeout(resolve, 500))
+  }
+}
+
+onActiveProfileChange((profileId) => {
+  profileReady = profileReady
+    .then(() => {
+      // The old profile's sync is superseded - stop its pending requests
+      cancelSyncs()
+      return waitForIdleSync()
+    })
+    .then(() => {
+      openProfileDatabase(profileId)
+      console.log('[NotionSidebar] Switched to profile', profileId)
+      refreshContextMenus()
+      return sealTokens().then(setupAutoSync)
+    })
+    .catch((error) => console.error('[NotionSidebar] Profile switch error:', error))
+})
+
 // Initialize auto-sync on startup
-setupAutoSync()
+profileReady.then(setupAutoSync)
+
+// Right-click capture into the active profile
+setupContextMenus({ ready: () => profileReady, describeUrl: fetchUrlMetadata })
+setupCommands({ ready: () => profileReady })
+
+/**
+ * Full sync of items (and prompts if configured), recorded in the sync journal
+ * Returns the combined result for both entities
+ */
+async function runFullSync(trigger: 'manual' | 'startup', includePrompts: boolean) {
+  const { entry, results } = await withSyncProgress(() => runJournaledSync(trigger, [
+    { entity: 'item', run: () => syncService.fullSync() },
+    ...(includePrompts ? [{ entity: 'prompt' as const, run: () => promptSyncService.fullSync() }] : []),
+  ]))
+
+  const itemsResult = results.item
+  const promptsResult = results.prompt
+  console.log('[NotionSidebar] Items sync result:', itemsResult)
+  if (includePrompts) console.log('[NotionSidebar] Prompts sync result:', promptsResult)
+
+  // Combine results
+  return {
+    success: entry.success,
+    created: (itemsResult?.created ?? 0) + (promptsResult?.created ?? 0),
+    updated: (itemsResult?.updated ?? 0) + (promptsResult?.updated ?? 0),
+    deleted: (itemsResult?.deleted ?? 0) + (promptsResult?.deleted ?? 0),
+    conflicts: (itemsResult?.conflicts ?? 0) + (promptsResult?.conflicts ?? 0),
+    errors: entry.errors.map((e) => e.message),
+  }
+}
 
 chrome.alarms.onAlarm.addListener(async (alarm) => {
   if (alarm.name === 'syncNotionData') {
     console.log('[NotionSidebar] Sync alarm triggered at', new Date().toISOString())
 
     try {
+      await profileReady
+
       // Check if Notion is configured
       const settings = await getSettings()
 
@@ -158,18 +160,24 @@ chrome.alarms.onAlarm.addListener(async (alarm) => {
         return
       }
 
-      // Process items sync queue
-      const result = await syncService.processQueue()
-      console.log('[NotionSidebar] Items sync result:', result)
-
-      // Process prompts sync queue if configured
-      if (settings.promptsDatabaseId) {
-        const promptsResult = await promptSyncService.processQueue()
-        console.log('[NotionSidebar] Prompts sync result:', promptsResult)
+      // Queue entries would fail against a token nobody can open yet
+      if (isTokenLocked(settings)) {
+        console.log('[NotionSidebar] Token locked, skipping sync')
+        return
       }
 
+      // Process items and prompts sync queues, recorded in the journal
+      const { results } = await withSyncProgress(() => runJournaledSync('alarm', [
+        { entity: 'item', run: () => syncService.processQueue() },
+        ...(settings.promptsDatabaseId
+          ? [{ entity: 'prompt' as const, run: () => promptSyncService.processQueue() }]
+          : []),
+      ]))
+      console.log('[NotionSidebar] Alarm sync results:', results)
+
       // Notify UI if there were changes
-      if (result.created > 0 || result.updated > 0 || result.deleted > 0) {
+      const result = results.item
+      if (result && (result.created > 0 || result.updated > 0 || result.deleted > 0)) {
         chrome.runtime.sendMessage({
           type: 'SYNC_COMPLETE',
           payload: result,
@@ -189,29 +197,15 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
     // Manual sync request - sync both items and prompts
     (async () => {
       try {
+        await profileReady
         const settings = await getSettings()
         console.log('[NotionSidebar] SYNC_NOW - promptsDatabaseId:', settings.promptsDatabaseId ? 'configured' : 'not configured')
-
-        // Sync items
-        const itemsResult = await syncService.fullSync()
-        console.log('[NotionSidebar] Items sync result:', itemsResult)
-
-        // Sync prompts if configured
-        let promptsResult = null
-        if (settings.promptsDatabaseId) {
-          promptsResult = await promptSyncService.fullSync()
-          console.log('[NotionSidebar] Prompts sync result:', promptsResult)
-        }
-
-        // Combine results
-        const result = {
-          success: itemsResult.success && (promptsResult?.success ?? true),
-          created: itemsResult.created + (promptsResult?.created ?? 0),
-          updated: itemsResult.updated + (promptsResult?.updated ?? 0),
-          deleted: itemsResult.deleted + (promptsResult?.deleted ?? 0),
-          errors: [...itemsResult.errors, ...(promptsResult?.errors ?? [])],
+        if (isTokenLocked(settings)) {
+          sendResponse({ success: false, locked: true, error: 'Notion token is locked - enter the passphrase' })
+          return
         }
 
+        const result = await runFullSync('manual', Boolean(settings.promptsDatabaseId))
         console.log('[NotionSidebar] Combined sync result:', result)
         sendResponse({ success: true, result })
       } catch (error) {
@@ -222,9 +216,45 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
     return true // Indicate async response
   }
 
+  if (message.type === 'SYNC_PROMPTS') {
+    // Prompt library sync from the side panel - runs here so it never races the alarm on the same queue
+    (async () => {
+      try {
+        await profileReady
+        if (isTokenLocked(await getSettings())) {
+          sendResponse({ success: false, locked: true, error: 'Notion token is locked - enter the passphrase' })
+          return
+        }
+
+        const { entry, results } = await withSyncProgress(() => runJournaledSync('manual', [
+          { entity: 'prompt', run: () => promptSyncService.fullSync() },
+        ]))
+        console.log('[NotionSidebar] Prompts sync result:', results.prompt)
+        sendResponse({
+          success: entry.success,
+          result: results.prompt,
+          error: entry.errors.map((e) => e.message).join(', '),
+        })
+      } catch (error) {
+        console.error('[NotionSidebar] Prompts sync error:', error)
+        sendResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' })
+      }
+    })()
+    return true
+  }
+
+  if (message.type === 'TOKEN_VAULT') {
+    // Locking waits for running syncs, so they don't fail halfway
+    profileReady
+      .then(() => (message.request.action === 'lock' ? waitForIdleSync() : undefined))
+      .then(() => handleTokenVaultRequest(message.request))
+      .then(sendResponse)
+    return true
+  }
+
   if (message.type === 'GET_SYNC_STATUS') {
     // Get current sync status
-    syncService.getQueueStatus().then((status) => {
+    profileReady.then(() => syncService.getQueueStatus()).then((status) => {
       sendResponse({
         isSyncing: syncService.syncing,
         ...status,
@@ -234,8 +264,8 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
   }
 
   if (message.type === 'RETRY_FAILED') {
-    syncService.retryFailed().then((count) => {
-      sendResponse({ success: true, count })
+    profileReady.then(() => Promise.all([syncService.retryFailed(), promptSyncService.retryFailed()])).then(([items, prompts]) => {
+      sendResponse({ success: true, count: items + prompts })
     })
     return true
   }
@@ -252,13 +282,34 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
 
   if (message.type === 'UPDATE_AUTO_SYNC') {
     // Update auto-sync settings
-    setupAutoSync().then(() => {
+    profileReady.then(setupAutoSync).then(() => {
       sendResponse({ success: true })
     })
     return true
   }
 })
 
+// Ports from extension pages: API requests (only this worker opens the token) and sync progress
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name === NOTION_RELAY_PORT) serveRelayPort(port, () => profileReady)
+  if (port.name === SYNC_PROGRESS_PORT) serveProgressPort(port, cancelSyncs)
+})
+
+// Pull remote changes when the browser starts - part of auto-sync, so only when it is on
+chrome.runtime.onStartup.addListener(async () => {
+  try {
+    await profileReady
+    const settings = await getSettings()
+    if (!settings.autoSyncEnabled) return
+    if (!settings.notionToken || !settings.notionDatabaseId || isTokenLocked(settings)) return
+
+    const result = await runFullSync('startup', Boolean(settings.promptsDatabaseId))
+    console.log('[NotionSidebar] Startup sync result:', result)
+  } catch (error) {
+    console.error('[NotionSidebar] Startup sync error:', error)
+  }
+})
+
 // Listen for extension install/update
 chrome.runtime.onInstalled.addListener((details) => {
   if (details.reason === 'install') {
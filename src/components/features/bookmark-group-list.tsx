@@ -17,6 +17,7 @@ interface BookmarkGroupListProps {
   onEdit: (item: Item) => void
   onDelete: (id: string) => void
   onClick: (item: Item) => void
+  selectedId?: string | null // Keyboard selection
 }
 
 interface CategoryGroup {
@@ -32,6 +33,7 @@ export function BookmarkGroupList({
   onEdit,
   onDelete,
   onClick,
+  selectedId = null,
 }: BookmarkGroupListProps) {
   const { t } = useTranslation()
   // Track expanded categories (collapsed by default)
@@ -228,6 +230,7 @@ export function BookmarkGroupList({
                     onEdit={onEdit}
                     onDelete={onDelete}
                     onClick={onClick}
+                    selected={bookmark.id === selectedId}
                   />
                 ))}
               </div>
@@ -247,9 +250,10 @@ interface BookmarkRowProps {
   onEdit: (item: Item) => void
   onDelete: (id: string) => void
   onClick: (item: Item) => void
+  selected: boolean
 }
 
-function BookmarkRow({ bookmark, tags, onEdit, onDelete, onClick }: BookmarkRowProps) {
+function BookmarkRow({ bookmark, tags, onEdit, onDelete, onClick, selected }: BookmarkRowProps) {
   const { t } = useTranslation()
   const itemTags = tags.filter((t) => bookmark.tags.includes(t.id))
 
@@ -265,7 +269,10 @@ function BookmarkRow({ bookmark, tags, onEdit, onDelete, onClick }: BookmarkRowP
 
   return (
     <div
-      className="group flex items-center gap-3 px-3 py-2 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors cursor-pointer border-b border-[var(--border-color)] last:border-b-0"
+      data-item-id={bookmark.id}
+      className={`group flex items-center gap-3 px-3 py-2 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors cursor-pointer border-b border-[var(--border-color)] last:border-b-0 ${
+        selected ? 'bg-brand/10' : ''
+      }`}
       onClick={() => onClick(bookmark)}
     >
       {/* Favicon */}
@@ -0,0 +1,129 @@
+/**
+ * Command Palette - fuzzy search over commands and data registered by the open panels
+ * Opened with Ctrl+K; Enter runs the highlighted entry
+ */
+
+import { useState, useEffect, useMemo, useRef } from 'react'
+import { Search, CornerDownLeft } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Modal } from '@/components/shared'
+import { fuzzyScore } from '@/utils/fuzzy'
+import type { CommandProvider, PaletteCommand, PaletteGroup } from '@/stores/command-palette-context'
+
+interface CommandPaletteProps {
+  providers: CommandProvider[]
+  onClose: () => void
+}
+
+const MAX_RESULTS = 50
+
+type GroupLabelKey = `palette.groups.${PaletteGroup}`
+
+export function CommandPalette({ providers, onClose }: CommandPaletteProps) {
+  const { t } = useTranslation()
+  const [entries, setEntries] = useState<PaletteCommand[]>([])
+  const [query, setQuery] = useState('')
+  const [activeIndex, setActiveIndex] = useState(0)
+  const listRef = useRef<HTMLDivElement>(null)
+
+  // Providers are asked once per opening - a failing source leaves the others usable
+  useEffect(() => {
+    Promise.allSettled(providers.map((provider) => provider())).then((settled) => {
+      setEntries(settled.flatMap((result) => {
+        if (result.status === 'fulfilled') return result.value
+        console.error('Command source failed:', result.reason)
+        return []
+      }))
+    })
+  }, [])
+
+  const results = useMemo(() => {
+    // Without a query only commands are listed
+    if (!query.trim()) return entries.filter((entry) => entry.group === 'command').slice(0, MAX_RESULTS)
+
+    return entries
+      .map((entry) => {
+        const titleScore = fuzzyScore(query, entry.title)
+        const keywordScore = entry.keywords ? fuzzyScore(query, entry.keywords) : null
+        // Keyword hits rank below title hits
+        const score = Math.max(titleScore ?? -Infinity, keywordScore !== null ? keywordScore / 2 : -Infinity)
+        return { entry, score }
+      })
+      .filter(({ score }) => score > -Infinity)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_RESULTS)
+      .map(({ entry }) => entry)
+  }, [entries, query])
+
+  useEffect(() => {
+    setActiveIndex(0)
+  }, [query])
+
+  useEffect(() => {
+    listRef.current?.children[activeIndex]?.scrollIntoView({ block: 'nearest' })
+  }, [activeIndex])
+
+  const runEntry = (entry: PaletteCommand) => {
+    onClose()
+    entry.run()
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setActiveIndex((i) => Math.min(i + 1, results.length - 1))
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setActiveIndex((i) => Math.max(i - 1, 0))
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault()
+      runEntry(results[activeIndex])
+    }
+  }
+
+  return (
+    <Modal isOpen onClose={onClose}>
+      <div className="space-y-2" onKeyDown={handleKeyDown}>
+        <div className="flex items-center gap-2 h-10 px-3 rounded-lg border border-brand ring-2 ring-brand/20 bg-[var(--bg-secondary)]">
+          <Search className="w-4 h-4 text-gray-400 flex-shrink-0" />
+          <input
+            autoFocus
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t('palette.placeholder')}
+            className="flex-1 bg-transparent outline-none text-sm placeholder:text-gray-400"
+          />
+        </div>
+
+        <div ref={listRef} className="max-h-80 overflow-y-auto space-y-0.5">
+          {results.length === 0 ? (
+            <p className="py-6 text-center text-sm text-[var(--text-secondary)]">{t('palette.empty')}</p>
+          ) : (
+            results.map((entry, index) => {
+              const Icon = entry.icon
+              return (
+                <button
+                  key={entry.id}
+                  onClick={() => runEntry(entry)}
+                  onMouseMove={() => setActiveIndex(index)}
+                  className={`w-full flex items-center gap-2 px-3 py-2 rounded-lg text-left text-sm transition-colors ${
+                    index === activeIndex ? 'bg-brand/10' : ''
+                  }`}
+                >
+                  {Icon && <Icon className="w-4 h-4 text-[var(--text-secondary)] flex-shrink-0" />}
+                  <span className="flex-1 min-w-0 truncate">{entry.title}</span>
+                  {entry.hint && <span className="text-xs text-[var(--text-secondary)] truncate max-w-[35%]">{entry.hint}</span>}
+                  <span className="text-[10px] uppercase text-[var(--text-secondary)] flex-shrink-0">
+                    {t(`palette.groups.${entry.group}` as GroupLabelKey)}
+                  </span>
+                  {index === activeIndex && <CornerDownLeft className="w-3 h-3 text-[var(--text-secondary)] flex-shrink-0" />}
+                </button>
+              )
+            })
+          )}
+        </div>
+      </div>
+    </Modal>
+  )
+}
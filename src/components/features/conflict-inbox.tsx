@@ -0,0 +1,232 @@
+/**
+ * Conflict Inbox - review fields changed both locally and in Notion
+ * Shows both versions side by side with keep local / keep Notion / edit per field
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { GitMerge, Monitor, Cloud, Pencil, CheckCircle2 } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/shared'
+import { getAllConflicts, resolveConflict } from '@/db/operations/conflict-operations'
+import { useToast } from '@/stores/toast-context'
+import type { SyncConflict, ConflictField, Category, Project, Tag } from '@/types'
+
+type Choice = 'local' | 'remote' | 'edit'
+
+// Free-text fields that can be hand-edited during resolution
+const EDITABLE_FIELDS = new Set([
+  'title',
+  'content',
+  'url',
+  'description',
+  'prompt',
+  'note',
+  'textDemo',
+  'urlDemo',
+  'category',
+])
+
+// Editable fields stored as null when left empty - the rest are plain strings
+const NULLABLE_FIELDS = new Set(['url', 'textDemo', 'urlDemo', 'category'])
+
+interface ConflictInboxProps {
+  categories: Category[]
+  projects: Project[]
+  tags: Tag[]
+  onResolved?: () => void
+}
+
+export function ConflictInbox({ categories, projects, tags, onResolved }: ConflictInboxProps) {
+  const { t, i18n } = useTranslation()
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([])
+  const [choices, setChoices] = useState<Record<number, Record<string, Choice>>>({})
+  const [edits, setEdits] = useState<Record<number, Record<string, string>>>({})
+  const [resolvingId, setResolvingId] = useState<number | null>(null)
+  const toast = useToast()
+
+  const loadConflicts = useCallback(async () => {
+    setConflicts(await getAllConflicts())
+  }, [])
+
+  useEffect(() => {
+    loadConflicts()
+  }, [loadConflicts])
+
+  // Render a stored value for display (IDs → names for items)
+  const formatValue = (conflict: SyncConflict, field: string, value: unknown): string => {
+    if (value === null || value === undefined || value === '') return '—'
+    if (typeof value === 'boolean') return value ? t('common.yes') : t('common.no')
+    if (value instanceof Date) {
+      return value.toLocaleDateString(i18n.language === 'vi' ? 'vi-VN' : 'en-US')
+    }
+    if (conflict.entityType === 'item') {
+      if (field === 'tags' && Array.isArray(value)) {
+        return value.map((id) => tags.find((tag) => tag.id === id)?.name ?? id).join(', ') || '—'
+      }
+      if (field === 'categoryId') return categories.find((c) => c.id === value)?.name ?? String(value)
+      if (field === 'projectId') return projects.find((p) => p.id === value)?.name ?? String(value)
+    }
+    if (Array.isArray(value)) return value.join(', ') || '—'
+    return String(value)
+  }
+
+  const getChoice = (conflictId: number, field: string): Choice => choices[conflictId]?.[field] ?? 'local'
+
+  const setChoice = (conflictId: number, field: ConflictField, choice: Choice) => {
+    setChoices((prev) => ({ ...prev, [conflictId]: { ...prev[conflictId], [field.field]: choice } }))
+    if (choice === 'edit' && edits[conflictId]?.[field.field] === undefined) {
+      setEdit(conflictId, field.field, typeof field.local === 'string' ? field.local : '')
+    }
+  }
+
+  const setEdit = (conflictId: number, field: string, value: string) => {
+    setEdits((prev) => ({ ...prev, [conflictId]: { ...prev[conflictId], [field]: value } }))
+  }
+
+  const chooseAll = (conflict: SyncConflict, choice: Choice) => {
+    const all: Record<string, Choice> = {}
+    conflict.fields.forEach((f) => { all[f.field] = choice })
+    setChoices((prev) => ({ ...prev, [conflict.id!]: all }))
+  }
+
+  const handleResolve = async (conflict: SyncConflict) => {
+    const id = conflict.id!
+    const values: Record<string, unknown> = {}
+    for (const field of conflict.fields) {
+      const choice = getChoice(id, field.field)
+      if (choice === 'remote') {
+        values[field.field] = field.remote
+      } else if (choice === 'edit') {
+        const edited = edits[id]?.[field.field]?.trim() ?? ''
+        if (edited) values[field.field] = edited
+        else if (field.field === 'title') values[field.field] = String(field.local ?? '')
+        else values[field.field] = NULLABLE_FIELDS.has(field.field) ? null : ''
+      } else {
+        values[field.field] = field.local
+      }
+    }
+
+    setResolvingId(id)
+    try {
+      await resolveConflict(id, values)
+      toast.success(t('conflicts.resolved'))
+      await loadConflicts()
+      onResolved?.()
+    } catch (error) {
+      console.error('Failed to resolve conflict:', error)
+      toast.error(t('toast.error'))
+    } finally {
+      setResolvingId(null)
+    }
+  }
+
+  if (conflicts.length === 0) {
+    return (
+      <div className="py-8 text-center text-[var(--text-secondary)]">
+        <CheckCircle2 className="w-8 h-8 mx-auto mb-2 text-success" />
+        <p className="text-sm">{t('conflicts.empty')}</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4 max-h-[70vh] overflow-y-auto">
+      <p className="text-xs text-[var(--text-secondary)]">{t('conflicts.hint')}</p>
+
+      {conflicts.map((conflict) => (
+        <section
+          key={conflict.id}
+          className="p-3 rounded-xl bg-[var(--bg-secondary)] border border-[var(--border-color)] space-y-3"
+        >
+          <div className="flex items-start justify-between gap-2">
+            <div className="min-w-0">
+              <h3 className="text-sm font-semibold truncate flex items-center gap-1.5">
+                <GitMerge className="w-4 h-4 text-warning flex-shrink-0" />
+                {conflict.title || t('conflicts.untitled')}
+              </h3>
+              <p className="text-[10px] text-[var(--text-secondary)]">
+                {conflict.entityType === 'item' ? t('tabs.items') : t('tabs.prompts')}
+                {' · '}
+                {t('conflicts.notionEditedAt', {
+                  time: new Date(conflict.remoteEditedAt).toLocaleString(i18n.language === 'vi' ? 'vi-VN' : 'en-US'),
+                })}
+              </p>
+            </div>
+            <div className="flex gap-1 flex-shrink-0">
+              <Button variant="ghost" size="sm" onClick={() => chooseAll(conflict, 'local')}>
+                {t('conflicts.allLocal')}
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => chooseAll(conflict, 'remote')}>
+                {t('conflicts.allNotion')}
+              </Button>
+            </div>
+          </div>
+
+          {conflict.fields.map((field) => {
+            const choice = getChoice(conflict.id!, field.field)
+            const canEdit = EDITABLE_FIELDS.has(field.field)
+            return (
+              <div key={field.field} className="space-y-1.5">
+                <div className="text-xs font-medium">{t(`conflicts.fields.${field.field}`)}</div>
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    onClick={() => setChoice(conflict.id!, field, 'local')}
+                    className={`p-2 rounded-lg border text-left text-xs transition-colors ${
+                      choice === 'local' ? 'border-brand bg-brand/5' : 'border-[var(--border-color)]'
+                    }`}
+                  >
+                    <span className="flex items-center gap-1 text-[10px] text-[var(--text-secondary)] mb-1">
+                      <Monitor className="w-3 h-3" />
+                      {t('conflicts.keepLocal')}
+                    </span>
+                    <span className="line-clamp-3 break-words">{formatValue(conflict, field.field, field.local)}</span>
+                  </button>
+                  <button
+                    onClick={() => setChoice(conflict.id!, field, 'remote')}
+                    className={`p-2 rounded-lg border text-left text-xs transition-colors ${
+                      choice === 'remote' ? 'border-brand bg-brand/5' : 'border-[var(--border-color)]'
+                    }`}
+                  >
+                    <span className="flex items-center gap-1 text-[10px] text-[var(--text-secondary)] mb-1">
+                      <Cloud className="w-3 h-3" />
+                      {t('conflicts.keepNotion')}
+                    </span>
+                    <span className="line-clamp-3 break-words">{formatValue(conflict, field.field, field.remote)}</span>
+                  </button>
+                </div>
+                {canEdit && (
+                  choice === 'edit' ? (
+                    <textarea
+                      value={edits[conflict.id!]?.[field.field] ?? ''}
+                      onChange={(e) => setEdit(conflict.id!, field.field, e.target.value)}
+                      rows={field.field === 'title' || field.field === 'url' ? 1 : 3}
+                      className="w-full px-2 py-1.5 text-xs rounded-lg border resize-none bg-[var(--bg-primary)] border-brand focus:ring-2 focus:ring-brand/20 focus:outline-none"
+                    />
+                  ) : (
+                    <button
+                      onClick={() => setChoice(conflict.id!, field, 'edit')}
+                      className="flex items-center gap-1 text-[10px] text-[var(--text-secondary)] hover:text-brand transition-colors"
+                    >
+                      <Pencil className="w-3 h-3" />
+                      {t('conflicts.edit')}
+                    </button>
+                  )
+                )}
+              </div>
+            )
+          })}
+
+          <Button
+            variant="primary"
+            size="sm"
+            fullWidth
+            loading={resolvingId === conflict.id}
+            onClick={() => handleResolve(conflict)}
+          >
+            {t('conflicts.apply')}
+          </Button>
+        </section>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,125 @@
+/**
+ * Database Setup - create the Items and Prompts databases under a picked Notion page
+ * Saves the new database IDs into Settings when done
+ */
+
+import { useState } from 'react'
+import { Search, FileText, Wand2, Check } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Button, Input } from '@/components/shared'
+import { updateSettings } from '@/db/operations/settings-operations'
+import { relinkToNewDatabase } from '@/db/operations/sync-queue-operations'
+import { sealSecret } from '@/services/notion/token-vault'
+import { searchParentPages, provisionDatabases, type ParentPage } from '@/services/notion/database-schema'
+import { useToast } from '@/stores/toast-context'
+
+interface DatabaseSetupProps {
+  notionToken?: string // Newly pasted token to save first - omitted when one is already stored
+  onCreated: (ids: { itemsDatabaseId: string; promptsDatabaseId: string }) => void
+}
+
+export function DatabaseSetup({ notionToken, onCreated }: DatabaseSetupProps) {
+  const { t } = useTranslation()
+  const [query, setQuery] = useState('')
+  const [pages, setPages] = useState<ParentPage[] | null>(null)
+  const [selectedPageId, setSelectedPageId] = useState<string | null>(null)
+  const [isSearching, setIsSearching] = useState(false)
+  const [isCreating, setIsCreating] = useState(false)
+  const toast = useToast()
+
+  const handleSearch = async () => {
+    setIsSearching(true)
+    try {
+      // Save first so the API client can read the token
+      if (notionToken) await updateSettings({ notionToken: await sealSecret(notionToken.trim()) })
+      const results = await searchParentPages(query.trim())
+      setPages(results)
+      setSelectedPageId(results.length === 1 ? results[0].id : null)
+    } catch (error) {
+      toast.error(t('settings.connectionError', { error: (error as { message?: string } | null)?.message ?? 'Unknown' }))
+    } finally {
+      setIsSearching(false)
+    }
+  }
+
+  const handleCreate = async () => {
+    if (!selectedPageId) return
+
+    setIsCreating(true)
+    try {
+      const ids = await provisionDatabases(selectedPageId)
+      // Existing local data is pushed into the new databases
+      await relinkToNewDatabase('item')
+      await relinkToNewDatabase('prompt')
+      toast.success(t('setup.created'))
+      onCreated(ids)
+    } catch (error) {
+      // API errors are plain objects with a message
+      const message = (error as { message?: string } | null)?.message ?? 'Unknown'
+      toast.error(t('setup.createFailed', { error: message }))
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  return (
+    <div className="p-3 rounded-lg bg-[var(--bg-secondary)] border border-[var(--border-color)] space-y-2">
+      <p className="text-xs text-[var(--text-secondary)]">{t('setup.hint')}</p>
+
+      <div className="flex gap-2">
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+          placeholder={t('setup.searchPlaceholder')}
+          icon={<Search className="w-4 h-4" />}
+          className="h-9"
+        />
+        <Button variant="secondary" size="sm" onClick={handleSearch} loading={isSearching}>
+          {t('setup.search')}
+        </Button>
+      </div>
+
+      {pages !== null && (
+        pages.length === 0 ? (
+          <p className="text-xs text-[var(--text-secondary)]">{t('setup.noPages')}</p>
+        ) : (
+          <ul className="max-h-40 overflow-y-auto space-y-1">
+            {pages.map((page) => (
+              <li key={page.id}>
+                <button
+                  onClick={() => setSelectedPageId(page.id)}
+                  className={`w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-left text-sm transition-colors ${
+                    selectedPageId === page.id
+                      ? 'bg-brand/10 text-brand'
+                      : 'hover:bg-[var(--bg-primary)]'
+                  }`}
+                >
+                  {page.icon ? (
+                    <span className="w-4 text-center">{page.icon}</span>
+                  ) : (
+                    <FileText className="w-4 h-4 text-[var(--text-secondary)]" />
+                  )}
+                  <span className="flex-1 truncate">{page.title}</span>
+                  {selectedPageId === page.id && <Check className="w-4 h-4" />}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+
+      <Button
+        variant="primary"
+        size="sm"
+        fullWidth
+        icon={<Wand2 className="w-4 h-4" />}
+        onClick={handleCreate}
+        loading={isCreating}
+        disabled={!selectedPageId}
+      >
+        {t('setup.create')}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,92 @@
+/**
+ * Duplicate Finder - maintenance view listing bookmarks saved more than once
+ * Keeping one bookmark of a group merges the others into it and deletes them
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { ExternalLink, Check } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/shared'
+import { findDuplicateGroups, mergeDuplicates } from '@/db/operations/duplicate-operations'
+import { useToast } from '@/stores/toast-context'
+import type { Item } from '@/types'
+
+interface DuplicateFinderProps {
+  onChanged?: () => void
+}
+
+export function DuplicateFinder({ onChanged }: DuplicateFinderProps) {
+  const { t, i18n } = useTranslation()
+  const [groups, setGroups] = useState<Item[][] | null>(null)
+  const [keeping, setKeeping] = useState<string | null>(null)
+  const toast = useToast()
+  const locale = i18n.language === 'vi' ? 'vi-VN' : 'en-US'
+
+  const load = useCallback(() => {
+    findDuplicateGroups().then(setGroups)
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const handleKeep = async (keep: Item, group: Item[]) => {
+    setKeeping(keep.id)
+    try {
+      await mergeDuplicates(keep.id, group.filter((item) => item.id !== keep.id).map((item) => item.id))
+      toast.success(t('duplicates.merged', { count: group.length - 1 }))
+      load()
+      onChanged?.()
+    } catch (error) {
+      console.error('Failed to merge duplicates:', error)
+      toast.error(t('duplicates.failed'))
+    } finally {
+      setKeeping(null)
+    }
+  }
+
+  if (groups === null) return null
+
+  if (groups.length === 0) {
+    return <p className="text-xs text-[var(--text-secondary)]">{t('duplicates.none')}</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      {groups.map((group) => (
+        <div key={group[0].normalizedUrl} className="p-2 rounded-lg border border-[var(--border-color)] space-y-1.5">
+          <p className="text-xs text-[var(--text-secondary)] truncate" title={group[0].normalizedUrl ?? ''}>
+            {t('duplicates.groupCount', { count: group.length })} · {group[0].normalizedUrl}
+          </p>
+          {group.map((item) => (
+            <div key={item.id} className="flex items-center gap-2 p-1.5 rounded-lg bg-[var(--bg-secondary)]">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm truncate">{item.title}</p>
+                <p className="text-xs text-[var(--text-secondary)]">{item.createdAt.toLocaleDateString(locale)}</p>
+              </div>
+              {item.url && (
+                <button
+                  onClick={() => chrome.tabs.create({ url: item.url! })}
+                  className="p-1 rounded text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+                  title={item.url}
+                >
+                  <ExternalLink className="w-3.5 h-3.5" />
+                </button>
+              )}
+              <Button
+                variant="secondary"
+                size="sm"
+                icon={<Check className="w-3.5 h-3.5" />}
+                onClick={() => handleKeep(item, group)}
+                loading={keeping === item.id}
+                disabled={keeping !== null}
+              >
+                {t('duplicates.keep')}
+              </Button>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  )
+}
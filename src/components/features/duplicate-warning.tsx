@@ -0,0 +1,97 @@
+/**
+ * Duplicate Warning - shown when a bookmark for the same page is already saved
+ * Offers to open the saved one, merge the new data into it, update it, or save anyway
+ */
+
+import { useState } from 'react'
+import { AlertTriangle, ExternalLink, GitMerge, RefreshCw, Plus } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/shared'
+import { mergeIntoItem, overwriteItem } from '@/db/operations/duplicate-operations'
+import type { Item, ItemFormData } from '@/types'
+
+export type DuplicateResolution = 'merged' | 'updated'
+
+interface DuplicateWarningProps {
+  candidate: Omit<ItemFormData, 'type'>
+  duplicates: Item[]      // Oldest first - actions apply to the first
+  onOpen: (item: Item) => void
+  onResolved: (resolution: DuplicateResolution) => void
+  onSaveAnyway: () => void
+}
+
+export function DuplicateWarning({ candidate, duplicates, onOpen, onResolved, onSaveAnyway }: DuplicateWarningProps) {
+  const { t, i18n } = useTranslation()
+  const [busy, setBusy] = useState<DuplicateResolution | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const existing = duplicates[0]
+
+  const run = async (resolution: DuplicateResolution) => {
+    setBusy(resolution)
+    setError(null)
+    try {
+      if (resolution === 'merged') await mergeIntoItem(existing.id, candidate)
+      else await overwriteItem(existing.id, candidate)
+      // An open side panel reloads its list
+      chrome.runtime.sendMessage({ type: 'ITEMS_CHANGED' }).catch(() => {})
+      onResolved(resolution)
+    } catch (err) {
+      console.error('Failed to resolve duplicate:', err)
+      setError(t('duplicates.failed'))
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-start gap-2 text-sm text-warning">
+        <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+        <span>{t('duplicates.warning', { count: duplicates.length })}</span>
+      </div>
+
+      <div className="p-2.5 rounded-lg bg-[var(--bg-secondary)] space-y-0.5">
+        <p className="text-sm font-medium truncate">{existing.title}</p>
+        {existing.url && (
+          <p className="text-xs text-[var(--text-secondary)] truncate" title={existing.url}>{existing.url}</p>
+        )}
+        <p className="text-xs text-[var(--text-secondary)]">
+          {t('duplicates.savedOn', {
+            date: existing.createdAt.toLocaleDateString(i18n.language === 'vi' ? 'vi-VN' : 'en-US'),
+          })}
+        </p>
+      </div>
+
+      {error && <p className="text-xs text-error">{error}</p>}
+
+      <div className="grid grid-cols-2 gap-2">
+        <Button variant="secondary" size="sm" icon={<ExternalLink className="w-3.5 h-3.5" />} onClick={() => onOpen(existing)}>
+          {t('duplicates.open')}
+        </Button>
+        <Button
+          variant="secondary"
+          size="sm"
+          icon={<GitMerge className="w-3.5 h-3.5" />}
+          onClick={() => run('merged')}
+          loading={busy === 'merged'}
+          disabled={busy !== null}
+        >
+          {t('duplicates.merge')}
+        </Button>
+        <Button
+          variant="secondary"
+          size="sm"
+          icon={<RefreshCw className="w-3.5 h-3.5" />}
+          onClick={() => run('updated')}
+          loading={busy === 'updated'}
+          disabled={busy !== null}
+        >
+          {t('duplicates.update')}
+        </Button>
+        <Button variant="ghost" size="sm" icon={<Plus className="w-3.5 h-3.5" />} onClick={onSaveAnyway} disabled={busy !== null}>
+          {t('duplicates.saveAnyway')}
+        </Button>
+      </div>
+    </div>
+  )
+}
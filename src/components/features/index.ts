@@ -4,8 +4,25 @@ export { ItemList } from './item-list'
 export { BookmarkGroupList } from './bookmark-group-list'
 export { CategoryTree } from './category-tree'
 export { SettingsPanel } from './settings-panel'
+export { DatabaseSetup } from './database-setup'
+export { SchemaReport } from './schema-report'
+export { PropertyMappingEditor } from './property-mapping-editor'
+export { LinkedMetadataSettings } from './linked-metadata-settings'
+export { MetadataNameEditor } from './metadata-name-editor'
+export { NotionOAuthSettings } from './notion-oauth-settings'
+export { TokenLockSettings } from './token-lock-settings'
+export { TokenUnlockPrompt } from './token-unlock-prompt'
 export { FilterPanel } from './filter-panel'
 export { AnalyticsPanel } from './analytics-panel'
+export { ConflictInbox } from './conflict-inbox'
+export { DuplicateWarning, type DuplicateResolution } from './duplicate-warning'
+export { DuplicateFinder } from './duplicate-finder'
+export { SyncJournalPanel } from './sync-journal-panel'
+export { SyncProgressBar } from './sync-progress-bar'
+export { QuickCapture } from './quick-capture'
+export { ShortcutHelp } from './shortcut-help'
+export { PromptPicker } from './prompt-picker'
+export { CommandPalette } from './command-palette'
 // Prompt Library
 export { PromptTabBar } from './prompt-tab-bar'
 export { PromptCard } from './prompt-card'
@@ -1,3 +1,4 @@
+import { useState } from 'react'
 import {
   CheckCircle,
   Circle,
@@ -11,7 +12,7 @@ import {
   Clock,
 } from 'lucide-react'
 import { useTranslation } from 'react-i18next'
-import { Tag, DropdownMenu, DropdownMenuItem } from '@/components/shared'
+import { Tag, DropdownMenu, DropdownMenuItem, MarkdownPreview } from '@/components/shared'
 import type { Item, Tag as TagType, Priority } from '@/types'
 
 interface ItemCardProps {
@@ -21,6 +22,7 @@ interface ItemCardProps {
   onEdit?: (item: Item) => void
   onDelete?: (id: string) => void
   onClick?: (item: Item) => void
+  selected?: boolean // Keyboard selection
 }
 
 const priorityColors: Record<Priority, string> = {
@@ -54,9 +56,11 @@ export function ItemCard({
   onEdit,
   onDelete,
   onClick,
+  selected = false,
 }: ItemCardProps) {
   const { t, i18n } = useTranslation()
   const itemTags = tags.filter((tag) => item.tags.includes(tag.id))
+  const [expanded, setExpanded] = useState(false)
 
   const formatDeadline = (date: Date) => {
     const now = new Date()
@@ -73,9 +77,11 @@ export function ItemCard({
 
   return (
     <div
+      data-item-id={item.id}
       className={`
-        group p-3 rounded-lg border bg-[var(--bg-secondary)] border-[var(--border-color)]
+        group p-3 rounded-lg border bg-[var(--bg-secondary)]
         hover:border-brand/50 transition-colors cursor-pointer
+        ${selected ? 'border-brand ring-2 ring-brand/20' : 'border-[var(--border-color)]'}
         ${item.completed ? 'opacity-60' : ''}
       `}
       onClick={() => onClick?.(item)}
@@ -165,11 +171,25 @@ export function ItemCard({
             </a>
           )}
 
-          {/* Content/Description preview */}
+          {/* Content/Description preview - rendered Markdown, expandable for notes */}
           {item.content && (
-            <p className="mt-1 text-xs text-[var(--text-secondary)] line-clamp-2">
-              {item.content}
-            </p>
+            <>
+              <MarkdownPreview
+                content={item.content}
+                className={`mt-1 text-xs text-[var(--text-secondary)] ${expanded ? '' : 'max-h-10 overflow-hidden'}`}
+              />
+              {item.type === 'note' && item.content.includes('\n') && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    setExpanded(!expanded)
+                  }}
+                  className="mt-0.5 text-[10px] text-brand hover:underline"
+                >
+                  {expanded ? t('card.showLess') : t('card.showMore')}
+                </button>
+              )}
+            </>
           )}
 
           {/* Meta info */}
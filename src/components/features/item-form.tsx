@@ -1,7 +1,7 @@
 import { useState } from 'react'
-import { X, Calendar, Tag as TagIcon, Plus, FolderOpen, Briefcase } from 'lucide-react'
+import { X, Calendar, Tag as TagIcon, Plus, FolderOpen, Briefcase, Eye, EyeOff } from 'lucide-react'
 import { useTranslation } from 'react-i18next'
-import { Button, Input, Select, Tag, IconPicker, ColorPicker, TAG_COLORS, CategoryIcon, CATEGORY_ICONS } from '@/components/shared'
+import { Button, Input, Select, Tag, IconPicker, ColorPicker, TAG_COLORS, CategoryIcon, CATEGORY_ICONS, MarkdownPreview } from '@/components/shared'
 import { createTag } from '@/db/operations/tag-operations'
 import { createCategory } from '@/db/operations/category-operations'
 import { createProject } from '@/db/operations/project-operations'
@@ -66,6 +66,7 @@ export function ItemForm({
   // Use prefill data if no item (for URL drops)
   const [title, setTitle] = useState(item?.title || prefill?.title || '')
   const [content, setContent] = useState(item?.content || prefill?.content || '')
+  const [showPreview, setShowPreview] = useState(false)
   const [url, setUrl] = useState(item?.url || prefill?.url || '')
   const [priority, setPriority] = useState<Priority | ''>(item?.priority || '')
   const [deadline, setDeadline] = useState(
@@ -188,7 +189,17 @@ export function ItemForm({
       )}
 
       <div>
-        <label className="block text-sm font-medium mb-1.5">{t('form.content')}</label>
+        <div className="flex items-center justify-between mb-1.5">
+          <label className="block text-sm font-medium">{t('form.content')}</label>
+          <button
+            type="button"
+            onClick={() => setShowPreview(!showPreview)}
+            className="flex items-center gap-1 text-xs text-[var(--text-secondary)] hover:text-brand"
+          >
+            {showPreview ? <EyeOff className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}
+            {showPreview ? t('form.hidePreview') : t('form.preview')}
+          </button>
+        </div>
         <textarea
           value={content}
           onChange={(e) => setContent(e.target.value)}
@@ -201,6 +212,14 @@ export function ItemForm({
             transition-colors text-sm
           "
         />
+        <p className="mt-1 text-[10px] text-[var(--text-secondary)]">{t('form.markdownHint')}</p>
+        {/* Live preview, same rendering as the item card */}
+        {showPreview && content.trim() && (
+          <MarkdownPreview
+            content={content}
+            className="mt-2 p-2 rounded-lg border border-[var(--border-color)] text-sm"
+          />
+        )}
       </div>
 
       {type === 'task' && (
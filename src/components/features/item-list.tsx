@@ -15,6 +15,7 @@ interface ItemListProps {
   onDelete: (id: string) => void
   onToggleComplete: (id: string, completed: boolean) => void
   onClick: (item: Item) => void
+  selectedId?: string | null // Keyboard selection
 }
 
 type TypeLabelKey = 'list.taskSingular' | 'list.taskEmpty' | 'list.bookmarkSingular' | 'list.bookmarkEmpty' | 'list.noteSingular' | 'list.noteEmpty'
@@ -44,6 +45,7 @@ export function ItemList({
   onDelete,
   onToggleComplete,
   onClick,
+  selectedId = null,
 }: ItemListProps) {
   const { t } = useTranslation()
 
@@ -134,6 +136,7 @@ export function ItemList({
           onDelete={onDelete}
           onToggleComplete={onToggleComplete}
           onClick={onClick}
+          selected={item.id === selectedId}
         />
       ))}
 
@@ -155,6 +158,7 @@ export function ItemList({
               onDelete={onDelete}
               onToggleComplete={onToggleComplete}
               onClick={onClick}
+              selected={item.id === selectedId}
             />
           ))}
         </div>
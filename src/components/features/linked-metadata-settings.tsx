@@ -0,0 +1,147 @@
+/**
+ * Linked Metadata Settings - store categories and projects as pages in their own Notion databases
+ * Items then link to them through relations instead of select names
+ */
+
+import { useState, useEffect } from 'react'
+import { Network, FolderOpen, Briefcase, ToggleLeft, ToggleRight, Wand2 } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Button, Input } from '@/components/shared'
+import { getSettings, updateSettings } from '@/db/operations/settings-operations'
+import { connectMetadataDatabases, provisionMetadataDatabases } from '@/services/notion/database-schema'
+import { rewritePushedItems } from '@/services/notion/metadata-sync-service'
+import { useToast } from '@/stores/toast-context'
+
+interface LinkedMetadataSettingsProps {
+  onChanged?: () => void
+}
+
+export function LinkedMetadataSettings({ onChanged }: LinkedMetadataSettingsProps) {
+  const { t } = useTranslation()
+  const [enabled, setEnabled] = useState(false)
+  const [categoriesDatabaseId, setCategoriesDatabaseId] = useState('')
+  const [projectsDatabaseId, setProjectsDatabaseId] = useState('')
+  const [busy, setBusy] = useState<'create' | 'save' | 'disable' | null>(null)
+  const toast = useToast()
+
+  useEffect(() => {
+    loadSettings()
+  }, [])
+
+  const loadSettings = async () => {
+    const s = await getSettings()
+    setEnabled(s.metadataSyncMode === 'relation')
+    setCategoriesDatabaseId(s.categoriesDatabaseId ?? '')
+    setProjectsDatabaseId(s.projectsDatabaseId ?? '')
+  }
+
+  // Existing items get their links (or names) written before the next pull reads them
+  const finishSwitch = async (successKey: string) => {
+    const count = await rewritePushedItems()
+    toast.success(t(successKey, { count }))
+    await loadSettings()
+    onChanged?.()
+  }
+
+  const runSwitch = async (kind: 'create' | 'save' | 'disable', action: () => Promise<unknown>, successKey: string) => {
+    setBusy(kind)
+    try {
+      await action()
+      await finishSwitch(successKey)
+    } catch (error) {
+      // API errors are plain objects with a message
+      const message = (error as { message?: string } | null)?.message ?? 'Unknown'
+      toast.error(t('linkedMetadata.failed', { error: message }))
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleCreate = () => runSwitch('create', provisionMetadataDatabases, 'linkedMetadata.created')
+
+  const handleSave = () =>
+    runSwitch(
+      'save',
+      () => connectMetadataDatabases(categoriesDatabaseId.trim(), projectsDatabaseId.trim()),
+      'linkedMetadata.connected'
+    )
+
+  const handleDisable = () =>
+    runSwitch('disable', () => updateSettings({ metadataSyncMode: 'select' }), 'linkedMetadata.disabled')
+
+  const handleToggle = async () => {
+    const s = await getSettings()
+    if (s.metadataSyncMode === 'relation') {
+      await handleDisable()
+    } else {
+      // Nothing changes until databases are created or entered
+      setEnabled(!enabled)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Network className="w-4 h-4 text-[var(--text-secondary)]" />
+          <span className="text-sm">{t('linkedMetadata.toggle')}</span>
+        </div>
+        <button
+          onClick={handleToggle}
+          disabled={busy !== null}
+          className={`p-1 rounded-lg transition-colors ${
+            enabled ? 'text-brand' : 'text-[var(--text-secondary)]'
+          }`}
+        >
+          {enabled ? (
+            <ToggleRight className="w-6 h-6" />
+          ) : (
+            <ToggleLeft className="w-6 h-6" />
+          )}
+        </button>
+      </div>
+
+      {enabled && (
+        <div className="p-3 rounded-lg bg-[var(--bg-secondary)] border border-[var(--border-color)] space-y-2">
+          <p className="text-xs text-[var(--text-secondary)]">{t('linkedMetadata.hint')}</p>
+
+          <Button
+            variant="secondary"
+            size="sm"
+            icon={<Wand2 className="w-3.5 h-3.5" />}
+            onClick={handleCreate}
+            loading={busy === 'create'}
+            disabled={busy !== null}
+          >
+            {t('linkedMetadata.create')}
+          </Button>
+
+          <Input
+            label={t('linkedMetadata.categoriesDatabase')}
+            value={categoriesDatabaseId}
+            onChange={(e) => setCategoriesDatabaseId(e.target.value)}
+            placeholder="xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx"
+            icon={<FolderOpen className="w-4 h-4" />}
+          />
+          <Input
+            label={t('linkedMetadata.projectsDatabase')}
+            value={projectsDatabaseId}
+            onChange={(e) => setProjectsDatabaseId(e.target.value)}
+            placeholder="xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx"
+            icon={<Briefcase className="w-4 h-4" />}
+          />
+
+          <Button
+            variant="primary"
+            size="sm"
+            onClick={handleSave}
+            loading={busy === 'save'}
+            disabled={busy !== null || !categoriesDatabaseId.trim() || !projectsDatabaseId.trim()}
+          >
+            {t('linkedMetadata.connect')}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
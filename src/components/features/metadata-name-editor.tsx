@@ -0,0 +1,106 @@
+/**
+ * Metadata Name Editor - rename a tag, category or project inline, or merge it into another
+ * Both re-push the affected items (see the tag/category/project operations)
+ */
+
+import { useState } from 'react'
+import { Pencil, GitMerge, Check } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Select } from '@/components/shared'
+
+interface MetadataNameEditorProps {
+  name: string
+  mergeTargets: { id: string; name: string }[]
+  onRename: (name: string) => void
+  onMerge: (targetId: string) => void
+}
+
+export function MetadataNameEditor({ name, mergeTargets, onRename, onMerge }: MetadataNameEditorProps) {
+  const { t } = useTranslation()
+  const [mode, setMode] = useState<'view' | 'rename' | 'merge'>('view')
+  const [draft, setDraft] = useState(name)
+
+  const startRename = () => {
+    setDraft(name)
+    setMode('rename')
+  }
+
+  const commitRename = () => {
+    const trimmed = draft.trim()
+    setMode('view')
+    if (trimmed && trimmed !== name) onRename(trimmed)
+  }
+
+  const handleMerge = (targetId: string) => {
+    const target = mergeTargets.find((m) => m.id === targetId)
+    setMode('view')
+    if (target && confirm(t('metadata.mergeConfirm', { source: name, target: target.name }))) {
+      onMerge(targetId)
+    }
+  }
+
+  if (mode === 'rename') {
+    return (
+      <div className="flex items-center gap-1">
+        <input
+          type="text"
+          value={draft}
+          autoFocus
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitRename()
+            if (e.key === 'Escape') setMode('view')
+          }}
+          onBlur={commitRename}
+          className="h-7 px-2 text-sm rounded border bg-[var(--bg-primary)] border-[var(--border-color)] focus:border-brand focus:outline-none"
+        />
+        <button
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={commitRename}
+          className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-600 text-[var(--text-secondary)]"
+        >
+          <Check className="w-3.5 h-3.5" />
+        </button>
+      </div>
+    )
+  }
+
+  if (mode === 'merge') {
+    return (
+      <div className="flex items-center gap-1">
+        <span className="text-sm shrink-0">{name} →</span>
+        <Select
+          value=""
+          autoFocus
+          onChange={(e) => handleMerge(e.target.value)}
+          onBlur={() => setMode('view')}
+          options={mergeTargets.map((m) => ({ value: m.id, label: m.name }))}
+          placeholder={t('metadata.mergeInto')}
+          className="h-7 text-xs"
+        />
+      </div>
+    )
+  }
+
+  return (
+    <div className="group flex items-center gap-1">
+      <span className="text-sm">{name}</span>
+      <button
+        onClick={startRename}
+        className="p-0.5 rounded opacity-0 group-hover:opacity-100 hover:bg-gray-200 dark:hover:bg-gray-600 text-[var(--text-secondary)]"
+        title={t('metadata.rename')}
+      >
+        <Pencil className="w-3 h-3" />
+      </button>
+      {mergeTargets.length > 0 && (
+        <button
+          onClick={() => setMode('merge')}
+          className="p-0.5 rounded opacity-0 group-hover:opacity-100 hover:bg-gray-200 dark:hover:bg-gray-600 text-[var(--text-secondary)]"
+          title={t('metadata.merge')}
+        >
+          <GitMerge className="w-3 h-3" />
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,225 @@
+/**
+ * Notion OAuth Settings - sign in through a public integration instead of pasting a token
+ * Once connected, the databases shared during login can be picked for Items and Prompts
+ */
+
+import { useState, useEffect } from 'react'
+import { LogIn, LogOut, RefreshCw, Link2, KeyRound, Globe } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Button, Input, Select } from '@/components/shared'
+import { getSettings, updateSettings } from '@/db/operations/settings-operations'
+import { notionClient } from '@/services/notion/api-client'
+import { connectWithNotion, disconnectNotion, getOAuthRedirectUrl, usesOAuth } from '@/services/notion/oauth'
+import { useToast } from '@/stores/toast-context'
+import type { NotionOAuthGrant } from '@/types'
+
+interface NotionOAuthSettingsProps {
+  itemsDatabaseId: string
+  promptsDatabaseId: string
+  onPickDatabase: (target: 'items' | 'prompts', databaseId: string) => void
+  onChanged?: () => void
+}
+
+interface SharedDatabase {
+  id: string
+  title: string
+}
+
+// Search results use dashed IDs, pasted IDs often don't
+const normalizeId = (id: string) => id.replace(/-/g, '').toLowerCase()
+
+export function NotionOAuthSettings({ itemsDatabaseId, promptsDatabaseId, onPickDatabase, onChanged }: NotionOAuthSettingsProps) {
+  const { t } = useTranslation()
+  const [grant, setGrant] = useState<NotionOAuthGrant | null>(null)
+  const [showSetup, setShowSetup] = useState(false)
+  const [clientId, setClientId] = useState('')
+  const [tokenEndpoint, setTokenEndpoint] = useState('')
+  const [databases, setDatabases] = useState<SharedDatabase[] | null>(null)
+  const [busy, setBusy] = useState<'connect' | 'disconnect' | 'databases' | null>(null)
+  const toast = useToast()
+
+  useEffect(() => {
+    loadSettings()
+  }, [])
+
+  useEffect(() => {
+    if (grant) loadDatabases()
+  }, [grant?.connectedAt])
+
+  const loadSettings = async () => {
+    const s = await getSettings()
+    setGrant(usesOAuth(s) ? s.notionOAuth : null)
+    setClientId(s.oauthClientId ?? '')
+    setTokenEndpoint(s.oauthTokenEndpoint ?? '')
+  }
+
+  const loadDatabases = async () => {
+    setBusy('databases')
+    try {
+      const results = await notionClient.searchDatabases()
+      setDatabases(results.map((d) => ({
+        id: d.id,
+        title: d.title.map((part) => part.plain_text ?? '').join('') || t('oauth.untitled'),
+      })))
+    } catch (error) {
+      toast.error(t('settings.connectionError', { error: (error as { message?: string } | null)?.message ?? 'Unknown' }))
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleConnect = async () => {
+    setBusy('connect')
+    try {
+      await updateSettings({
+        oauthClientId: clientId.trim() || null,
+        oauthTokenEndpoint: tokenEndpoint.trim() || null,
+      })
+      const connected = await connectWithNotion()
+      setGrant(connected)
+      setShowSetup(false)
+      toast.success(t('oauth.connected', { workspace: connected.workspaceName ?? '' }))
+      onChanged?.()
+    } catch (error) {
+      // Token endpoint errors are plain objects with a message
+      const message = (error as { message?: string } | null)?.message ?? 'Unknown'
+      toast.error(t('oauth.failed', { error: message }))
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleDisconnect = async () => {
+    if (!confirm(t('oauth.confirmDisconnect'))) return
+    setBusy('disconnect')
+    try {
+      await disconnectNotion()
+      setGrant(null)
+      setDatabases(null)
+      toast.success(t('oauth.disconnected'))
+      onChanged?.()
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  // The picked ID has to be one of the listed databases to show as selected
+  const selectedId = (current: string) =>
+    databases?.find((d) => normalizeId(d.id) === normalizeId(current))?.id ?? ''
+
+  const databaseOptions = (databases ?? []).map((d) => ({ value: d.id, label: d.title }))
+
+  if (grant) {
+    return (
+      <div className="p-3 rounded-lg bg-[var(--bg-secondary)] border border-[var(--border-color)] space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 min-w-0 text-sm">
+            <Link2 className="w-4 h-4 shrink-0 text-success" />
+            <span className="truncate">
+              {t('oauth.connectedTo', { workspace: grant.workspaceName || t('oauth.untitled') })}
+            </span>
+          </div>
+          <button
+            onClick={handleDisconnect}
+            disabled={busy !== null}
+            className="p-1 rounded hover:bg-[var(--bg-primary)] text-[var(--text-secondary)]"
+            title={t('oauth.disconnect')}
+          >
+            <LogOut className="w-3.5 h-3.5" />
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-xs text-[var(--text-secondary)]">{t('oauth.sharedHint')}</p>
+          <button
+            onClick={loadDatabases}
+            disabled={busy !== null}
+            className="p-1 rounded hover:bg-[var(--bg-primary)] text-[var(--text-secondary)]"
+            title={t('oauth.reloadDatabases')}
+          >
+            <RefreshCw className={`w-3.5 h-3.5 ${busy === 'databases' ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+
+        {databases && databases.length === 0 && (
+          <p className="text-xs text-warning">{t('oauth.noDatabases')}</p>
+        )}
+        {databases && databases.length > 0 && (
+          <div className="space-y-1.5">
+            <Select
+              label={t('oauth.itemsDatabase')}
+              value={selectedId(itemsDatabaseId)}
+              onChange={(e) => onPickDatabase('items', e.target.value)}
+              options={databaseOptions}
+              placeholder={t('oauth.pickDatabase')}
+              className="h-8 text-xs"
+            />
+            <Select
+              label={t('oauth.promptsDatabase')}
+              value={selectedId(promptsDatabaseId)}
+              onChange={(e) => onPickDatabase('prompts', e.target.value)}
+              options={databaseOptions}
+              placeholder={t('oauth.pickDatabase')}
+              className="h-8 text-xs"
+            />
+          </div>
+        )}
+
+        <Button
+          variant="secondary"
+          size="sm"
+          icon={<LogIn className="w-3.5 h-3.5" />}
+          onClick={handleConnect}
+          loading={busy === 'connect'}
+          disabled={busy !== null}
+        >
+          {t('oauth.changeShared')}
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <button
+        onClick={() => setShowSetup(!showSetup)}
+        className="flex items-center gap-1.5 text-xs text-brand hover:underline"
+      >
+        <LogIn className="w-3.5 h-3.5" />
+        {t('oauth.toggle')}
+      </button>
+
+      {showSetup && (
+        <div className="p-3 rounded-lg bg-[var(--bg-secondary)] border border-[var(--border-color)] space-y-2">
+          <p className="text-xs text-[var(--text-secondary)]">{t('oauth.hint')}</p>
+          <Input
+            label={t('oauth.clientId')}
+            value={clientId}
+            onChange={(e) => setClientId(e.target.value)}
+            icon={<KeyRound className="w-4 h-4" />}
+          />
+          <Input
+            label={t('oauth.tokenEndpoint')}
+            value={tokenEndpoint}
+            onChange={(e) => setTokenEndpoint(e.target.value)}
+            placeholder="https://example.com/notion/token"
+            icon={<Globe className="w-4 h-4" />}
+          />
+          <p className="text-xs text-[var(--text-secondary)] break-all">
+            {t('oauth.redirectUrl', { url: getOAuthRedirectUrl() })}
+          </p>
+          <Button
+            variant="primary"
+            size="sm"
+            icon={<LogIn className="w-3.5 h-3.5" />}
+            onClick={handleConnect}
+            loading={busy === 'connect'}
+            disabled={busy !== null || !clientId.trim() || !/^https:\/\//.test(tokenEndpoint.trim())}
+          >
+            {t('oauth.connect')}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,92 @@
+/**
+ * Prompt Picker - search prompts and copy one to the clipboard
+ * Opened by the browser command, so a prompt can be pasted without leaving the page for long
+ */
+
+import { useState, useEffect, useMemo } from 'react'
+import { Star } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { SearchBar } from '@/components/shared'
+import { getAllPrompts } from '@/db/operations/prompt-operations'
+import { useToast } from '@/stores/toast-context'
+import type { Prompt } from '@/types'
+
+interface PromptPickerProps {
+  onPicked: () => void
+}
+
+export function PromptPicker({ onPicked }: PromptPickerProps) {
+  const { t } = useTranslation()
+  const [prompts, setPrompts] = useState<Prompt[]>([])
+  const [search, setSearch] = useState('')
+  const [activeIndex, setActiveIndex] = useState(0)
+  const toast = useToast()
+
+  useEffect(() => {
+    getAllPrompts().then(setPrompts)
+  }, [])
+
+  // Favorites first, then most recently updated
+  const results = useMemo(() => {
+    const query = search.trim().toLowerCase()
+    return prompts
+      .filter((p) => !query || p.title.toLowerCase().includes(query) || p.prompt.toLowerCase().includes(query))
+      .sort((a, b) => Number(b.favorite) - Number(a.favorite) || new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
+  }, [prompts, search])
+
+  useEffect(() => {
+    setActiveIndex(0)
+  }, [search])
+
+  const pick = async (prompt: Prompt) => {
+    try {
+      await navigator.clipboard.writeText(prompt.prompt)
+      toast.success(t('promptPicker.copied'))
+      onPicked()
+    } catch (error) {
+      console.error('Failed to copy prompt:', error)
+      toast.error(t('promptPicker.copyFailed'))
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setActiveIndex((i) => Math.min(i + 1, results.length - 1))
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setActiveIndex((i) => Math.max(i - 1, 0))
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault()
+      pick(results[activeIndex])
+    }
+  }
+
+  return (
+    <div className="space-y-2" onKeyDown={handleKeyDown}>
+      <SearchBar value={search} onChange={setSearch} placeholder={t('promptPicker.search')} autoFocus />
+      <div className="max-h-80 overflow-y-auto space-y-1">
+        {results.length === 0 ? (
+          <p className="py-6 text-center text-sm text-[var(--text-secondary)]">{t('promptPicker.empty')}</p>
+        ) : (
+          results.map((prompt, index) => (
+            <button
+              key={prompt.id}
+              onClick={() => pick(prompt)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`w-full text-left px-3 py-2 rounded-lg transition-colors ${
+                index === activeIndex ? 'bg-brand/10' : 'hover:bg-[var(--bg-secondary)]'
+              }`}
+            >
+              <div className="flex items-center gap-1.5 text-sm font-medium">
+                {prompt.favorite && <Star className="w-3 h-3 text-warning fill-current flex-shrink-0" />}
+                <span className="truncate">{prompt.title}</span>
+              </div>
+              <p className="text-xs text-[var(--text-secondary)] line-clamp-1">{prompt.prompt}</p>
+            </button>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
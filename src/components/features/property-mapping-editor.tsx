@@ -0,0 +1,233 @@
+/**
+ * Property Mapping Editor - choose which Notion column each local field syncs with
+ * Reads the columns from the connected database and saves a per-database mapping
+ */
+
+import { useState, useEffect } from 'react'
+import { RefreshCw, RotateCcw } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Button, Select } from '@/components/shared'
+import { getSettings, updateSettings, getPropertyMapping, savePropertyMapping } from '@/db/operations/settings-operations'
+import { notionClient } from '@/services/notion/api-client'
+import { ITEM_PROPERTY_SPECS, getItemPropertyNames, getItemFieldKeys } from '@/services/notion/data-transformer'
+import { usesMetadataRelations } from '@/services/notion/metadata-sync-service'
+import { PROMPT_PROPERTY_SPECS, getPromptPropertyNames } from '@/services/notion/prompt-transformer'
+import type { PropertySpec } from '@/services/notion/database-schema'
+import { useToast } from '@/stores/toast-context'
+import type { PropertyMapping, SyncEntityType } from '@/types'
+
+interface PropertyMappingEditorProps {
+  entityType: SyncEntityType
+  databaseId: string
+  onSaved?: () => void
+}
+
+interface DatabaseColumn {
+  name: string
+  type: string
+  statusOptions: string[]
+}
+
+function getFieldSpecs(entityType: SyncEntityType): Record<string, PropertySpec> {
+  return entityType === 'item' ? ITEM_PROPERTY_SPECS : PROMPT_PROPERTY_SPECS
+}
+
+function getPropertyNames(entityType: SyncEntityType, mapping: PropertyMapping | null): Record<string, string> {
+  return entityType === 'item' ? getItemPropertyNames(mapping) : getPromptPropertyNames(mapping)
+}
+
+export function PropertyMappingEditor({ entityType, databaseId, onSaved }: PropertyMappingEditorProps) {
+  const { t } = useTranslation()
+  const [columns, setColumns] = useState<DatabaseColumn[]>([])
+  const [names, setNames] = useState<Record<string, string>>(() => getPropertyNames(entityType, null))
+  const [fieldKeys, setFieldKeys] = useState<string[]>([])
+  const [useStatus, setUseStatus] = useState(false)
+  const [statusDone, setStatusDone] = useState('')
+  const [statusTodo, setStatusTodo] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const toast = useToast()
+
+  const specs = getFieldSpecs(entityType)
+  const defaults = getPropertyNames(entityType, null)
+
+  useEffect(() => {
+    loadMapping()
+    loadColumns()
+  }, [entityType, databaseId])
+
+  const loadMapping = async () => {
+    const settings = await getSettings()
+    const mapping = getPropertyMapping(settings, databaseId)
+    // Category/project columns depend on whether they are names or linked pages
+    setFieldKeys(entityType === 'item' ? getItemFieldKeys(usesMetadataRelations(settings)) : Object.keys(specs))
+    setNames(getPropertyNames(entityType, mapping))
+    setUseStatus(!!mapping?.completedStatus)
+    setStatusDone(mapping?.completedStatus?.done ?? '')
+    setStatusTodo(mapping?.completedStatus?.todo ?? '')
+  }
+
+  const loadColumns = async () => {
+    setIsLoading(true)
+    try {
+      const database = await notionClient.getDatabase(databaseId)
+      setColumns(
+        Object.values(database.properties).map((property) => ({
+          name: property.name,
+          type: property.type,
+          statusOptions: ((property.status as { options?: { name: string }[] } | undefined)?.options ?? [])
+            .map((o) => o.name),
+        }))
+      )
+    } catch (error) {
+      toast.error(t('settings.connectionError', { error: (error as { message?: string } | null)?.message ?? 'Unknown' }))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Expected column type for a field under the current choices
+  const expectedType = (key: string): string =>
+    key === 'completed' && useStatus ? 'status' : specs[key].type
+
+  // Columns of the right type, plus the current choice even if it doesn't exist yet
+  const optionsFor = (key: string) => {
+    const matching = columns.filter((c) => c.type === expectedType(key)).map((c) => c.name)
+    const current = names[key]
+    const options = matching.map((name) => ({ value: name, label: name }))
+    if (current && !matching.includes(current)) {
+      options.unshift({ value: current, label: t('mapping.missingColumn', { name: current }) })
+    }
+    return options
+  }
+
+  const statusOptions = columns.find((c) => c.name === names.completed && c.type === 'status')?.statusOptions ?? []
+
+  const handleToggleStatus = (enabled: boolean) => {
+    setUseStatus(enabled)
+    // The checkbox column can't hold a status - pick the first status column instead
+    const candidate = columns.find((c) => c.type === (enabled ? 'status' : 'checkbox'))
+    setNames((prev) => ({ ...prev, completed: candidate?.name ?? defaults.completed }))
+    setStatusDone(candidate?.statusOptions.at(-1) ?? '')
+    setStatusTodo(candidate?.statusOptions[0] ?? '')
+  }
+
+  const handleSelectStatusColumn = (name: string) => {
+    setNames((prev) => ({ ...prev, completed: name }))
+    const options = columns.find((c) => c.name === name)?.statusOptions ?? []
+    setStatusDone(options.at(-1) ?? '')
+    setStatusTodo(options[0] ?? '')
+  }
+
+  const handleReset = () => {
+    setNames(defaults)
+    setUseStatus(false)
+    setStatusDone('')
+    setStatusTodo('')
+  }
+
+  const handleSave = async () => {
+    if (useStatus && (!statusDone || !statusTodo)) {
+      toast.error(t('mapping.statusRequired'))
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      // Only store fields that differ from the defaults
+      const properties = Object.fromEntries(
+        Object.entries(names).filter(([key, name]) => name && name !== defaults[key])
+      )
+      const completedStatus = useStatus ? { done: statusDone, todo: statusTodo } : null
+      const hasOverrides = Object.keys(properties).length > 0 || completedStatus
+
+      await savePropertyMapping(databaseId, hasOverrides ? { properties, completedStatus } : null)
+      // Re-read every page on the next sync so values come from the new columns
+      await updateSettings(entityType === 'item' ? { lastSyncAt: null } : { promptsLastSyncAt: null })
+
+      toast.success(t('mapping.saved'))
+      onSaved?.()
+    } catch (error) {
+      toast.error((error as Error).message)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="p-3 rounded-lg bg-[var(--bg-secondary)] border border-[var(--border-color)] space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-[var(--text-secondary)]">{t('mapping.hint')}</p>
+        <button
+          onClick={loadColumns}
+          disabled={isLoading}
+          className="p-1 rounded hover:bg-[var(--bg-primary)] text-[var(--text-secondary)]"
+          title={t('mapping.reloadColumns')}
+        >
+          <RefreshCw className={`w-3.5 h-3.5 ${isLoading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      <div className="space-y-1.5">
+        {fieldKeys.map((key) => (
+          <div key={key} className="flex items-center gap-2">
+            <span className="w-24 shrink-0 text-xs truncate" title={defaults[key]}>
+              {t(`mapping.fields.${key}`)}
+            </span>
+            <Select
+              value={names[key]}
+              onChange={(e) =>
+                key === 'completed' && useStatus
+                  ? handleSelectStatusColumn(e.target.value)
+                  : setNames((prev) => ({ ...prev, [key]: e.target.value }))
+              }
+              options={optionsFor(key)}
+              className="h-8 text-xs"
+            />
+          </div>
+        ))}
+      </div>
+
+      {/* Completion as a Notion status instead of a checkbox */}
+      {entityType === 'item' && (
+        <div className="pt-2 border-t border-[var(--border-color)] space-y-1.5">
+          <label className="flex items-center gap-2 text-xs">
+            <input
+              type="checkbox"
+              checked={useStatus}
+              onChange={(e) => handleToggleStatus(e.target.checked)}
+            />
+            {t('mapping.completedAsStatus')}
+          </label>
+          {useStatus && (
+            <div className="grid grid-cols-2 gap-2">
+              <Select
+                value={statusTodo}
+                onChange={(e) => setStatusTodo(e.target.value)}
+                options={statusOptions.map((name) => ({ value: name, label: name }))}
+                placeholder={t('mapping.statusTodo')}
+                className="h-8 text-xs"
+              />
+              <Select
+                value={statusDone}
+                onChange={(e) => setStatusDone(e.target.value)}
+                options={statusOptions.map((name) => ({ value: name, label: name }))}
+                placeholder={t('mapping.statusDone')}
+                className="h-8 text-xs"
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button variant="ghost" size="sm" icon={<RotateCcw className="w-3.5 h-3.5" />} onClick={handleReset}>
+          {t('mapping.reset')}
+        </Button>
+        <Button variant="primary" size="sm" onClick={handleSave} loading={isSaving}>
+          {t('mapping.save')}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,188 @@
+/**
+ * Quick Capture - save the current tab as a bookmark, task or note
+ * Used by the toolbar popup, so nothing needs the side panel open
+ * Bookmarks can take the page's full article along (see utils/reader-mode)
+ */
+
+import { useState, useEffect } from 'react'
+import { Bookmark, CheckSquare, FileText, CheckCircle } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Button, Input } from '@/components/shared'
+import { createItem } from '@/db/operations/item-operations'
+import { findDuplicateBookmarks } from '@/db/operations/duplicate-operations'
+import { saveArticle } from '@/utils/reader-mode'
+import { openSidePanel } from '@/utils/side-panel'
+import { DuplicateWarning } from './duplicate-warning'
+import type { Item, ItemType } from '@/types'
+
+interface QuickCaptureProps {
+  onSaved?: () => void
+}
+
+const typeOptions: { type: ItemType; icon: typeof Bookmark; labelKey: 'form.typeBookmark' | 'form.typeTask' | 'form.typeNote' }[] = [
+  { type: 'bookmark', icon: Bookmark, labelKey: 'form.typeBookmark' },
+  { type: 'task', icon: CheckSquare, labelKey: 'form.typeTask' },
+  { type: 'note', icon: FileText, labelKey: 'form.typeNote' },
+]
+
+export function QuickCapture({ onSaved }: QuickCaptureProps) {
+  const { t } = useTranslation()
+  const [type, setType] = useState<ItemType>('bookmark')
+  const [title, setTitle] = useState('')
+  const [tab, setTab] = useState<chrome.tabs.Tab | null>(null)
+  const [url, setUrl] = useState<string | null>(null)
+  const [fullArticle, setFullArticle] = useState(false)
+  const [content, setContent] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [saved, setSaved] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // Bookmarks already saved for this page, shown instead of saving again
+  const [duplicates, setDuplicates] = useState<Item[]>([])
+
+  // Prefill from the active tab - the popup click grants activeTab
+  useEffect(() => {
+    chrome.tabs.query({ active: true, currentWindow: true }).then(([tab]) => {
+      if (!tab) return
+      setTab(tab)
+      setTitle(tab.title ?? '')
+      // Browser-internal pages can't be bookmarked usefully
+      if (tab.url && /^https?:/.test(tab.url)) setUrl(tab.url)
+      else setType('note')
+    })
+  }, [])
+
+  const handleSave = async (allowDuplicate = false) => {
+    if (!title.trim()) return
+    setIsSaving(true)
+    setError(null)
+    try {
+      if (type === 'bookmark' && url && !allowDuplicate) {
+        const found = await findDuplicateBookmarks(url)
+        if (found.length > 0) {
+          setDuplicates(found)
+          return
+        }
+      }
+      setDuplicates([])
+
+      if (type === 'bookmark' && fullArticle && tab) {
+        await saveArticle(tab, { title: title.trim(), tags: [] })
+      } else {
+        await createItem({
+          type,
+          title: title.trim(),
+          content: content.trim(),
+          url: type === 'bookmark' ? url ?? undefined : undefined,
+          tags: [],
+        })
+      }
+      setSaved(true)
+      setContent('')
+      // An open side panel reloads its list
+      chrome.runtime.sendMessage({ type: 'ITEMS_CHANGED' }).catch(() => {})
+      onSaved?.()
+    } catch (err) {
+      console.error('Quick capture failed:', err)
+      setError(type === 'bookmark' && fullArticle ? t('quickCapture.articleFailed') : t('quickCapture.failed'))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const openDuplicate = async (item: Item) => {
+    await openSidePanel({ module: 'items', itemTab: 'bookmark', editItemId: item.id })
+    window.close()
+  }
+
+  const resetDuplicates = () => {
+    setDuplicates([])
+    setSaved(true)
+    onSaved?.()
+  }
+
+  if (duplicates.length > 0 && url) {
+    return (
+      <DuplicateWarning
+        candidate={{ title: title.trim(), content: content.trim(), url, tags: [] }}
+        duplicates={duplicates}
+        onOpen={openDuplicate}
+        onResolved={resetDuplicates}
+        onSaveAnyway={() => handleSave(true)}
+      />
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1">
+        {typeOptions.map(({ type: option, icon: Icon, labelKey }) => (
+          <button
+            key={option}
+            onClick={() => {
+              setType(option)
+              setSaved(false)
+            }}
+            disabled={option === 'bookmark' && !url}
+            className={`flex-1 flex items-center justify-center gap-1 py-1.5 rounded-lg text-xs font-medium transition-colors disabled:opacity-40 ${
+              type === option
+                ? 'bg-brand text-white'
+                : 'bg-[var(--bg-secondary)] text-[var(--text-secondary)] hover:text-[var(--text-primary)]'
+            }`}
+          >
+            <Icon className="w-3.5 h-3.5" />
+            {t(labelKey)}
+          </button>
+        ))}
+      </div>
+
+      <Input
+        value={title}
+        onChange={(e) => {
+          setTitle(e.target.value)
+          setSaved(false)
+        }}
+        onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+        placeholder={t('form.titlePlaceholder')}
+        className="h-9"
+      />
+      {type === 'bookmark' && url && (
+        <>
+          <p className="text-xs text-[var(--text-secondary)] truncate" title={url}>{url}</p>
+          <label className="flex items-center gap-2 text-xs cursor-pointer">
+            <input
+              type="checkbox"
+              checked={fullArticle}
+              onChange={(e) => {
+                setFullArticle(e.target.checked)
+                setSaved(false)
+              }}
+            />
+            {t('quickCapture.fullArticle')}
+          </label>
+        </>
+      )}
+      {type === 'note' && (
+        <textarea
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          placeholder={t('form.notePlaceholder')}
+          rows={3}
+          className="w-full px-3 py-2 text-sm rounded-lg border border-[var(--border-color)] bg-[var(--bg-primary)] focus:outline-none focus:ring-2 focus:ring-brand resize-none"
+        />
+      )}
+
+      {error && <p className="text-xs text-error">{error}</p>}
+
+      <Button
+        variant="primary"
+        fullWidth
+        icon={saved ? <CheckCircle className="w-4 h-4" /> : undefined}
+        onClick={() => handleSave()}
+        loading={isSaving}
+        disabled={!title.trim() || saved}
+      >
+        {saved ? t('quickCapture.saved') : t('quickCapture.save')}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,80 @@
+/**
+ * Schema Report - result of validating a connected database against the expected properties
+ * Offers to add missing properties through the API
+ */
+
+import { CheckCircle, AlertTriangle, Wrench } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/shared'
+import { hasSchemaProblems, type SchemaReport as SchemaReportData } from '@/services/notion/database-schema'
+
+interface SchemaReportProps {
+  report: SchemaReportData
+  onRepair: () => void
+  isRepairing?: boolean
+}
+
+export function SchemaReport({ report, onRepair, isRepairing }: SchemaReportProps) {
+  const { t } = useTranslation()
+
+  if (!hasSchemaProblems(report)) {
+    return (
+      <div className="space-y-1 text-xs">
+        <div className="flex items-center gap-1.5 text-success">
+          <CheckCircle className="w-3.5 h-3.5" />
+          {t('schema.valid')}
+        </div>
+        {report.extra.length > 0 && (
+          <p className="text-[var(--text-secondary)]">{t('schema.extra', { names: report.extra.join(', ') })}</p>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-2.5 rounded-lg bg-warning/10 border border-warning/30 space-y-1.5 text-xs">
+      <div className="flex items-center gap-1.5 font-medium text-warning">
+        <AlertTriangle className="w-3.5 h-3.5" />
+        {t('schema.problems')}
+      </div>
+
+      {report.missing.length > 0 && (
+        <p>
+          <span className="font-medium">{t('schema.missing')}:</span>{' '}
+          {report.missing.join(', ')}
+          {report.renamedTitle && ` ${t('schema.renamedTitle', { name: report.renamedTitle })}`}
+        </p>
+      )}
+
+      {report.mistyped.length > 0 && (
+        <div>
+          <span className="font-medium">{t('schema.mistyped')}:</span>
+          <ul className="pl-3">
+            {report.mistyped.map((p) => (
+              <li key={p.name}>
+                {t('schema.mistypedEntry', { name: p.name, expected: p.expected, actual: p.actual })}
+              </li>
+            ))}
+          </ul>
+          <p className="text-[var(--text-secondary)] mt-0.5">{t('schema.mistypedHint')}</p>
+        </div>
+      )}
+
+      {report.extra.length > 0 && (
+        <p className="text-[var(--text-secondary)]">{t('schema.extra', { names: report.extra.join(', ') })}</p>
+      )}
+
+      {report.missing.length > 0 && (
+        <Button
+          variant="secondary"
+          size="sm"
+          icon={<Wrench className="w-3.5 h-3.5" />}
+          onClick={onRepair}
+          loading={isRepairing}
+        >
+          {t('schema.repair')}
+        </Button>
+      )}
+    </div>
+  )
+}
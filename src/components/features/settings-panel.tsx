@@ -1,35 +1,57 @@
 import { useState, useEffect } from 'react'
-import { Key, Database, RefreshCw, CheckCircle, XCircle, AlertCircle, Plus, X, Tags, FolderOpen, Briefcase, Library, Clock, ToggleLeft, ToggleRight } from 'lucide-react'
+import { Key, Database, RefreshCw, CheckCircle, XCircle, AlertCircle, Plus, X, Tags, FolderOpen, Briefcase, Library, Clock, ToggleLeft, ToggleRight, Wand2, Columns3, FileText, Copy } from 'lucide-react'
 import { useTranslation } from 'react-i18next'
 import { Button, Input, Select, IconPicker, ColorPicker, CompactColorPicker, TAG_COLORS } from '@/components/shared'
-import { getSettings, updateSettings } from '@/db/operations/settings-operations'
-import { getAllTags, createTag, deleteTag, updateTag } from '@/db/operations/tag-operations'
-import { getAllCategories, createCategory, deleteCategory, updateCategory } from '@/db/operations/category-operations'
-import { getAllProjects, createProject, deleteProject, updateProject } from '@/db/operations/project-operations'
-import { notionClient } from '@/services/notion'
+import { getSettings, updateSettings, resumeSync } from '@/db/operations/settings-operations'
+import { relinkToNewDatabase, requeuePushedPrompts } from '@/db/operations/sync-queue-operations'
+import { getAllTags, createTag, deleteTag, updateTag, mergeTags } from '@/db/operations/tag-operations'
+import { getAllCategories, createCategory, deleteCategory, updateCategory, mergeCategories } from '@/db/operations/category-operations'
+import { getAllProjects, createProject, deleteProject, updateProject, mergeProjects } from '@/db/operations/project-operations'
+import { syncService } from '@/services/notion'
 import { promptSyncService } from '@/services/notion/prompt-sync-service'
 import { useToast } from '@/stores/toast-context'
-import type { Settings, Tag as TagType, Category, Project } from '@/types'
+import { DatabaseSetup } from './database-setup'
+import { SchemaReport } from './schema-report'
+import { PropertyMappingEditor } from './property-mapping-editor'
+import { LinkedMetadataSettings } from './linked-metadata-settings'
+import { MetadataNameEditor } from './metadata-name-editor'
+import { NotionOAuthSettings } from './notion-oauth-settings'
+import { DuplicateFinder } from './duplicate-finder'
+import { usesOAuth } from '@/services/notion/oauth'
+import { sealSecret } from '@/services/notion/token-vault'
+import { TokenLockSettings } from './token-lock-settings'
+import { hasSchemaProblems, type SchemaReport as SchemaReportData } from '@/services/notion/database-schema'
+import type { Settings, Tag as TagType, Category, Project, ArticleSaveMode } from '@/types'
 
 interface SettingsPanelProps {
   onSyncNow?: () => void
   isSyncing?: boolean
+  onItemsChanged?: () => void
 }
 
-export function SettingsPanel({ onSyncNow, isSyncing }: SettingsPanelProps) {
+export function SettingsPanel({ onSyncNow, isSyncing, onItemsChanged }: SettingsPanelProps) {
   const { t, i18n } = useTranslation()
   const [settings, setSettings] = useState<Settings | null>(null)
   const [notionToken, setNotionToken] = useState('')
   const [notionDatabaseId, setNotionDatabaseId] = useState('')
   const [promptsDatabaseId, setPromptsDatabaseId] = useState('')
   const [isSaving, setIsSaving] = useState(false)
+  const [showSetup, setShowSetup] = useState(false)
+  const [schemaReport, setSchemaReport] = useState<SchemaReportData | null>(null)
+  const [promptsSchemaReport, setPromptsSchemaReport] = useState<SchemaReportData | null>(null)
+  const [repairing, setRepairing] = useState<'items' | 'prompts' | null>(null)
+  const [mappingTarget, setMappingTarget] = useState<'items' | 'prompts' | null>(null)
   const [connectionStatus, setConnectionStatus] = useState<'unknown' | 'connected' | 'error'>('unknown')
   const [promptsConnectionStatus, setPromptsConnectionStatus] = useState<'unknown' | 'connected' | 'error'>('unknown')
 
+  const [promptBodyAsBlocks, setPromptBodyAsBlocks] = useState(false)
+
   // Auto-sync state
   const [autoSyncEnabled, setAutoSyncEnabled] = useState(true)
   const [autoSyncInterval, setAutoSyncInterval] = useState(5)
 
+  const [articleSaveMode, setArticleSaveMode] = useState<ArticleSaveMode>('bookmark')
+
   // Tags state
   const [tags, setTags] = useState<TagType[]>([])
   const [newTagName, setNewTagName] = useState('')
@@ -45,6 +67,9 @@ export function SettingsPanel({ onSyncNow, isSyncing }: SettingsPanelProps) {
   const [newProjectName, setNewProjectName] = useState('')
   const [newProjectColor, setNewProjectColor] = useState(TAG_COLORS[4].value)
 
+  // Duplicate bookmarks - scanned only when asked for
+  const [showDuplicates, setShowDuplicates] = useState(false)
+
   const toast = useToast()
 
   useEffect(() => {
@@ -55,11 +80,14 @@ export function SettingsPanel({ onSyncNow, isSyncing }: SettingsPanelProps) {
   const loadSettings = async () => {
     const s = await getSettings()
     setSettings(s)
-    setNotionToken(s.notionToken || '')
+    // The stored token is sealed - the field only takes a new one
+    setNotionToken('')
     setNotionDatabaseId(s.notionDatabaseId || '')
     setPromptsDatabaseId(s.promptsDatabaseId || '')
+    setPromptBodyAsBlocks(s.promptBodyAsBlocks ?? false)
     setAutoSyncEnabled(s.autoSyncEnabled ?? true)
     setAutoSyncInterval(s.autoSyncInterval ?? 5)
+    setArticleSaveMode(s.articleSaveMode ?? 'bookmark')
     if (s.notionToken && s.notionDatabaseId) {
       setConnectionStatus('connected')
     }
@@ -79,6 +107,40 @@ export function SettingsPanel({ onSyncNow, isSyncing }: SettingsPanelProps) {
     setProjects(projectsData)
   }
 
+  // Renames and merges re-push every affected item
+  const handleRename = async (
+    records: { id: string; name: string }[],
+    id: string,
+    name: string,
+    rename: (id: string, updates: { name: string }) => Promise<void>
+  ) => {
+    // Two records can't share a name - merge them instead
+    if (records.some((r) => r.id !== id && r.name.toLowerCase() === name.toLowerCase())) {
+      toast.error(t('metadata.nameTaken', { name }))
+      return
+    }
+    try {
+      await rename(id, { name })
+      loadMetadata()
+      toast.success(t('toast.saved'))
+    } catch {
+      toast.error(t('toast.error'))
+    }
+  }
+
+  const handleMerge = async (sourceId: string, targetId: string, merge: (sourceId: string, targetId: string) => Promise<void>) => {
+    try {
+      await merge(sourceId, targetId)
+      loadMetadata()
+      toast.success(t('metadata.merged'))
+    } catch {
+      toast.error(t('toast.error'))
+    }
+  }
+
+  const mergeTargetsFor = (records: { id: string; name: string }[], id: string) =>
+    records.filter((r) => r.id !== id).map(({ id, name }) => ({ id, name }))
+
   // Tag handlers
   const handleAddTag = async () => {
     if (!newTagName.trim()) return
@@ -178,17 +240,59 @@ export function SettingsPanel({ onSyncNow, isSyncing }: SettingsPanelProps) {
     }
   }
 
+  // Save connection fields; local data is re-pushed when a database is swapped for another
+  const saveConnection = async (updates: Partial<Settings>) => {
+    const normalize = (id: string | null | undefined) => (id ?? '').replace(/-/g, '').toLowerCase()
+    const current = await getSettings()
+    // An OAuth token is owned by the login and may have been refreshed since the panel loaded it
+    if (usesOAuth(current)) delete updates.notionToken
+    else if (updates.notionToken) updates.notionToken = await sealSecret(updates.notionToken)
+    await updateSettings(updates)
+
+    if (updates.notionDatabaseId !== undefined && current.notionDatabaseId
+      && normalize(updates.notionDatabaseId) !== normalize(current.notionDatabaseId)) {
+      await relinkToNewDatabase('item')
+      await updateSettings({ lastSyncAt: null, lastReconcileAt: null })
+    }
+    if (updates.promptsDatabaseId !== undefined && current.promptsDatabaseId
+      && normalize(updates.promptsDatabaseId) !== normalize(current.promptsDatabaseId)) {
+      await relinkToNewDatabase('prompt')
+      await updateSettings({ promptsLastSyncAt: null, promptsLastReconcileAt: null })
+    }
+  }
+
+  const handleDatabasesCreated = async (ids: { itemsDatabaseId: string; promptsDatabaseId: string }) => {
+    setNotionDatabaseId(ids.itemsDatabaseId)
+    setPromptsDatabaseId(ids.promptsDatabaseId)
+    setShowSetup(false)
+    await loadSettings()
+  }
+
+  // Only a newly typed token is saved - an empty field keeps the stored one
+  const typedToken = (): Partial<Settings> => (notionToken.trim() ? { notionToken: notionToken.trim() } : {})
+
+  const handleForgetToken = async () => {
+    await updateSettings({ notionToken: null })
+    await loadSettings()
+    setConnectionStatus('unknown')
+    setPromptsConnectionStatus('unknown')
+  }
+
   const handleSave = async () => {
     setIsSaving(true)
     try {
-      await updateSettings({
-        notionToken: notionToken.trim() || null,
+      const tokenChanged = !isOAuth && !!notionToken.trim()
+      await saveConnection({
+        ...typedToken(),
         notionDatabaseId: notionDatabaseId.trim() || null,
         promptsDatabaseId: promptsDatabaseId.trim() || null,
       })
+      // A new token gets a fresh chance after an auth pause
+      if (tokenChanged) await resumeSync()
+      await loadSettings()
       toast.success(t('toast.saved'))
-      setConnectionStatus(notionToken && notionDatabaseId ? 'connected' : 'unknown')
-      setPromptsConnectionStatus(notionToken && promptsDatabaseId ? 'connected' : 'unknown')
+      setConnectionStatus(hasToken && notionDatabaseId ? 'connected' : 'unknown')
+      setPromptsConnectionStatus(hasToken && promptsDatabaseId ? 'connected' : 'unknown')
     } catch {
       toast.error(t('toast.error'))
     } finally {
@@ -197,25 +301,34 @@ export function SettingsPanel({ onSyncNow, isSyncing }: SettingsPanelProps) {
   }
 
   const testConnection = async () => {
-    if (!notionToken || !notionDatabaseId) {
+    if (!hasToken || !notionDatabaseId) {
       toast.warning(t('settings.fillRequired'))
       return
     }
 
     // Save first so the API client can read credentials
-    await updateSettings({
-      notionToken: notionToken.trim(),
+    await saveConnection({
+      ...typedToken(),
       notionDatabaseId: notionDatabaseId.trim(),
     })
 
     toast.info(t('settings.testingConnection'))
 
     try {
-      const connected = await notionClient.testConnection()
+      const connected = await syncService.testConnection()
       if (connected) {
+        await handleResumeSync()
         setConnectionStatus('connected')
-        toast.success(t('settings.connectionSuccess'))
+        // Check properties before any sync trips over them
+        const report = await syncService.validateSchema()
+        setSchemaReport(report)
+        if (hasSchemaProblems(report)) {
+          toast.warning(t('schema.problems'))
+        } else {
+          toast.success(t('settings.connectionSuccess'))
+        }
       } else {
+        setSchemaReport(null)
         setConnectionStatus('error')
         toast.error(t('settings.connectionFailed'))
       }
@@ -226,14 +339,14 @@ export function SettingsPanel({ onSyncNow, isSyncing }: SettingsPanelProps) {
   }
 
   const testPromptsConnection = async () => {
-    if (!notionToken || !promptsDatabaseId) {
+    if (!hasToken || !promptsDatabaseId) {
       toast.warning(t('settings.fillPromptsRequired'))
       return
     }
 
     // Save first
-    await updateSettings({
-      notionToken: notionToken.trim(),
+    await saveConnection({
+      ...typedToken(),
       promptsDatabaseId: promptsDatabaseId.trim(),
     })
 
@@ -243,8 +356,15 @@ export function SettingsPanel({ onSyncNow, isSyncing }: SettingsPanelProps) {
       const connected = await promptSyncService.testConnection()
       if (connected) {
         setPromptsConnectionStatus('connected')
-        toast.success(t('settings.promptsConnectionSuccess'))
+        const report = await promptSyncService.validateSchema()
+        setPromptsSchemaReport(report)
+        if (hasSchemaProblems(report)) {
+          toast.warning(t('schema.problems'))
+        } else {
+          toast.success(t('settings.promptsConnectionSuccess'))
+        }
       } else {
+        setPromptsSchemaReport(null)
         setPromptsConnectionStatus('error')
         toast.error(t('settings.promptsConnectionFailed'))
       }
@@ -254,16 +374,63 @@ export function SettingsPanel({ onSyncNow, isSyncing }: SettingsPanelProps) {
     }
   }
 
-  const formatLastSync = () => {
-    if (!settings?.lastSyncAt) return t('settings.notSynced')
-    const date = new Date(settings.lastSyncAt)
-    return date.toLocaleString(i18n.language === 'vi' ? 'vi-VN' : 'en-US')
+  const handleRepairSchema = async (target: 'items' | 'prompts') => {
+    const report = target === 'items' ? schemaReport : promptsSchemaReport
+    if (!report) return
+
+    setRepairing(target)
+    try {
+      const service = target === 'items' ? syncService : promptSyncService
+      const updated = await service.repairSchema(report)
+      if (target === 'items') setSchemaReport(updated)
+      else setPromptsSchemaReport(updated)
+      toast.success(t('schema.repaired'))
+    } catch (error) {
+      toast.error(t('settings.connectionError', { error: (error as { message?: string } | null)?.message ?? 'Unknown' }))
+    } finally {
+      setRepairing(null)
+    }
+  }
+
+  // Columns changed - check the database against the new mapping
+  const handleMappingSaved = async (target: 'items' | 'prompts') => {
+    try {
+      if (target === 'items') setSchemaReport(await syncService.validateSchema())
+      else setPromptsSchemaReport(await promptSyncService.validateSchema())
+    } catch (error) {
+      toast.error(t('settings.connectionError', { error: (error as { message?: string } | null)?.message ?? 'Unknown' }))
+    }
+  }
+
+  const handleResumeSync = async () => {
+    if (!settings?.syncPausedAt) return
+    await resumeSync()
+    setSettings({ ...settings, syncPausedAt: null, syncPauseReason: null })
+  }
+
+  const handlePickDatabase = (target: 'items' | 'prompts', databaseId: string) => {
+    if (target === 'items') setNotionDatabaseId(databaseId)
+    else setPromptsDatabaseId(databaseId)
   }
 
-  const formatPromptsLastSync = () => {
-    if (!settings?.promptsLastSyncAt) return t('settings.notSynced')
-    const date = new Date(settings.promptsLastSyncAt)
-    return date.toLocaleString(i18n.language === 'vi' ? 'vi-VN' : 'en-US')
+  // Newest of the last pull and push
+  const formatSyncTime = (pulledAt: number | null | undefined, pushedAt: number | null | undefined) => {
+    const syncedAt = Math.max(pulledAt ?? 0, pushedAt ?? 0)
+    if (!syncedAt) return t('settings.notSynced')
+    return new Date(syncedAt).toLocaleString(i18n.language === 'vi' ? 'vi-VN' : 'en-US')
+  }
+
+  const formatLastSync = () => formatSyncTime(settings?.lastSyncAt, settings?.lastPushAt)
+
+  const formatPromptsLastSync = () => formatSyncTime(settings?.promptsLastSyncAt, settings?.promptsLastPushAt)
+
+  // The text moves between the Prompt property and the page body - rewrite every pushed prompt
+  const handleTogglePromptBody = async () => {
+    const newValue = !promptBodyAsBlocks
+    setPromptBodyAsBlocks(newValue)
+    await updateSettings({ promptBodyAsBlocks: newValue })
+    const count = await requeuePushedPrompts()
+    toast.success(t('settings.promptBodyRequeued', { count }))
   }
 
   // Auto-sync handlers
@@ -285,6 +452,15 @@ export function SettingsPanel({ onSyncNow, isSyncing }: SettingsPanelProps) {
     toast.success(t('settings.syncIntervalUpdated', { interval }))
   }
 
+  const handleArticleSaveModeChange = async (value: string) => {
+    const mode = value as ArticleSaveMode
+    setArticleSaveMode(mode)
+    await updateSettings({ articleSaveMode: mode })
+  }
+
+  const isOAuth = !!settings && usesOAuth(settings)
+  const hasToken = !!notionToken.trim() || !!settings?.notionToken
+
   const syncIntervalOptions = [
     { value: '1', label: t('settings.interval1min') },
     { value: '5', label: t('settings.interval5min') },
@@ -294,6 +470,11 @@ export function SettingsPanel({ onSyncNow, isSyncing }: SettingsPanelProps) {
     { value: '60', label: t('settings.interval1hour') },
   ]
 
+  const articleSaveModeOptions = [
+    { value: 'bookmark', label: t('settings.articleInBookmark') },
+    { value: 'note', label: t('settings.articleInNote') },
+  ]
+
   return (
     <div className="p-4 space-y-6">
       {/* Notion Integration */}
@@ -304,15 +485,46 @@ export function SettingsPanel({ onSyncNow, isSyncing }: SettingsPanelProps) {
         </h3>
 
         <div className="space-y-3">
-          <Input
-            label="Integration Token"
-            type="password"
-            value={notionToken}
-            onChange={(e) => setNotionToken(e.target.value)}
-            placeholder="secret_..."
-            icon={<Key className="w-4 h-4" />}
+          {!isOAuth && (
+            <Input
+              label="Integration Token"
+              type="password"
+              value={notionToken}
+              onChange={(e) => setNotionToken(e.target.value)}
+              placeholder={settings?.notionToken ? t('vault.tokenSaved') : 'secret_...'}
+              icon={<Key className="w-4 h-4" />}
+            />
+          )}
+          {!isOAuth && settings?.notionToken && (
+            <button onClick={handleForgetToken} className="text-xs text-[var(--text-secondary)] hover:text-error">
+              {t('vault.forgetToken')}
+            </button>
+          )}
+
+          {/* Sign in with a public integration instead of pasting a token */}
+          <NotionOAuthSettings
+            itemsDatabaseId={notionDatabaseId}
+            promptsDatabaseId={promptsDatabaseId}
+            onPickDatabase={handlePickDatabase}
+            onChanged={loadSettings}
           />
 
+          {/* Optional passphrase over the stored token */}
+          <TokenLockSettings />
+
+          {/* Create both databases under a picked page */}
+          <button
+            onClick={() => setShowSetup(!showSetup)}
+            disabled={!hasToken}
+            className="flex items-center gap-1.5 text-xs text-brand hover:underline disabled:opacity-40 disabled:no-underline"
+          >
+            <Wand2 className="w-3.5 h-3.5" />
+            {t('setup.toggle')}
+          </button>
+          {showSetup && hasToken && (
+            <DatabaseSetup notionToken={isOAuth ? undefined : notionToken.trim() || undefined} onCreated={handleDatabasesCreated} />
+          )}
+
           <Input
             label="Items Database ID"
             value={notionDatabaseId}
@@ -343,12 +555,47 @@ export function SettingsPanel({ onSyncNow, isSyncing }: SettingsPanelProps) {
             )}
           </div>
 
+          {schemaReport && connectionStatus === 'connected' && (
+            <SchemaReport
+              report={schemaReport}
+              onRepair={() => handleRepairSchema('items')}
+              isRepairing={repairing === 'items'}
+            />
+          )}
+
+          {connectionStatus === 'connected' && (
+            <button
+              onClick={() => setMappingTarget(mappingTarget === 'items' ? null : 'items')}
+              className="flex items-center gap-1.5 text-xs text-brand hover:underline"
+            >
+              <Columns3 className="w-3.5 h-3.5" />
+              {t('mapping.toggle')}
+            </button>
+          )}
+          {mappingTarget === 'items' && connectionStatus === 'connected' && (
+            <PropertyMappingEditor
+              entityType="item"
+              databaseId={notionDatabaseId.trim()}
+              onSaved={() => handleMappingSaved('items')}
+            />
+          )}
+
+          {/* Categories and projects as linked Notion pages */}
+          {connectionStatus === 'connected' && (
+            <LinkedMetadataSettings
+              onChanged={() => {
+                handleMappingSaved('items')
+                loadMetadata()
+              }}
+            />
+          )}
+
           <div className="flex gap-2">
             <Button
               variant="secondary"
               size="sm"
               onClick={testConnection}
-              disabled={!notionToken || !notionDatabaseId}
+              disabled={!hasToken || !notionDatabaseId}
             >
               {t('settings.test')}
             </Button>
@@ -402,6 +649,51 @@ export function SettingsPanel({ onSyncNow, isSyncing }: SettingsPanelProps) {
             )}
           </div>
 
+          {promptsSchemaReport && promptsConnectionStatus === 'connected' && (
+            <SchemaReport
+              report={promptsSchemaReport}
+              onRepair={() => handleRepairSchema('prompts')}
+              isRepairing={repairing === 'prompts'}
+            />
+          )}
+
+          {promptsConnectionStatus === 'connected' && (
+            <button
+              onClick={() => setMappingTarget(mappingTarget === 'prompts' ? null : 'prompts')}
+              className="flex items-center gap-1.5 text-xs text-brand hover:underline"
+            >
+              <Columns3 className="w-3.5 h-3.5" />
+              {t('mapping.toggle')}
+            </button>
+          )}
+          {mappingTarget === 'prompts' && promptsConnectionStatus === 'connected' && (
+            <PropertyMappingEditor
+              entityType="prompt"
+              databaseId={promptsDatabaseId.trim()}
+              onSaved={() => handleMappingSaved('prompts')}
+            />
+          )}
+
+          {/* Prompt text as page content instead of a property */}
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <FileText className="w-4 h-4 text-[var(--text-secondary)]" />
+              <span className="text-sm">{t('settings.promptBodyAsBlocks')}</span>
+            </div>
+            <button
+              onClick={handleTogglePromptBody}
+              className={`p-1 rounded-lg transition-colors ${
+                promptBodyAsBlocks ? 'text-brand' : 'text-[var(--text-secondary)]'
+              }`}
+            >
+              {promptBodyAsBlocks ? (
+                <ToggleRight className="w-6 h-6" />
+              ) : (
+                <ToggleLeft className="w-6 h-6" />
+              )}
+            </button>
+          </div>
+
           <div className="flex items-center justify-between text-sm">
             <span className="text-[var(--text-secondary)]">{t('settings.lastSync')}:</span>
             <span>{formatPromptsLastSync()}</span>
@@ -411,7 +703,7 @@ export function SettingsPanel({ onSyncNow, isSyncing }: SettingsPanelProps) {
             variant="secondary"
             size="sm"
             onClick={testPromptsConnection}
-            disabled={!notionToken || !promptsDatabaseId}
+            disabled={!hasToken || !promptsDatabaseId}
           >
             {t('settings.testPrompts')}
           </Button>
@@ -456,11 +748,32 @@ export function SettingsPanel({ onSyncNow, isSyncing }: SettingsPanelProps) {
             />
           )}
 
+          {/* Where "save full article" keeps the extracted text */}
+          <Select
+            label={t('settings.articleSaveMode')}
+            value={articleSaveMode}
+            onChange={(e) => handleArticleSaveModeChange(e.target.value)}
+            options={articleSaveModeOptions}
+          />
+
           <div className="flex items-center justify-between text-sm">
             <span className="text-[var(--text-secondary)]">{t('settings.lastSync')}:</span>
             <span>{formatLastSync()}</span>
           </div>
 
+          {/* Paused after Notion rejected the token */}
+          {settings?.syncPausedAt && (
+            <div className="p-2.5 rounded-lg bg-error/10 border border-error/30 space-y-2">
+              <div className="flex items-start gap-2 text-xs text-error">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                <span>{t('settings.syncPaused', { reason: settings.syncPauseReason ?? '' })}</span>
+              </div>
+              <Button variant="secondary" size="sm" onClick={handleResumeSync}>
+                {t('settings.resumeSync')}
+              </Button>
+            </div>
+          )}
+
           <Button
             variant="secondary"
             fullWidth
@@ -493,7 +806,12 @@ export function SettingsPanel({ onSyncNow, isSyncing }: SettingsPanelProps) {
                     value={tag.color}
                     onChange={(color) => handleUpdateTagColor(tag.id, color)}
                   />
-                  <span className="text-sm">{tag.name}</span>
+                  <MetadataNameEditor
+                    name={tag.name}
+                    mergeTargets={mergeTargetsFor(tags, tag.id)}
+                    onRename={(name) => handleRename(tags, tag.id, name, updateTag)}
+                    onMerge={(targetId) => handleMerge(tag.id, targetId, mergeTags)}
+                  />
                 </div>
                 <button
                   onClick={() => handleDeleteTag(tag.id)}
@@ -545,7 +863,12 @@ export function SettingsPanel({ onSyncNow, isSyncing }: SettingsPanelProps) {
                     onChange={(icon) => handleUpdateCategoryIcon(cat.id, icon)}
                     size="sm"
                   />
-                  <span className="text-sm">{cat.name}</span>
+                  <MetadataNameEditor
+                    name={cat.name}
+                    mergeTargets={mergeTargetsFor(categories, cat.id)}
+                    onRename={(name) => handleRename(categories, cat.id, name, updateCategory)}
+                    onMerge={(targetId) => handleMerge(cat.id, targetId, mergeCategories)}
+                  />
                 </div>
                 <button
                   onClick={() => handleDeleteCategory(cat.id)}
@@ -596,7 +919,12 @@ export function SettingsPanel({ onSyncNow, isSyncing }: SettingsPanelProps) {
                     value={proj.color}
                     onChange={(color) => handleUpdateProjectColor(proj.id, color)}
                   />
-                  <span className="text-sm">{proj.name}</span>
+                  <MetadataNameEditor
+                    name={proj.name}
+                    mergeTargets={mergeTargetsFor(projects, proj.id)}
+                    onRename={(name) => handleRename(projects, proj.id, name, updateProject)}
+                    onMerge={(targetId) => handleMerge(proj.id, targetId, mergeProjects)}
+                  />
                 </div>
                 <button
                   onClick={() => handleDeleteProject(proj.id)}
@@ -628,6 +956,21 @@ export function SettingsPanel({ onSyncNow, isSyncing }: SettingsPanelProps) {
         </div>
       </section>
 
+      {/* Duplicate Bookmarks */}
+      <section className="pt-4 border-t border-[var(--border-color)]">
+        <h3 className="text-sm font-semibold mb-3 flex items-center gap-2">
+          <Copy className="w-4 h-4" />
+          {t('duplicates.title')}
+        </h3>
+        {showDuplicates ? (
+          <DuplicateFinder onChanged={onItemsChanged} />
+        ) : (
+          <Button variant="secondary" size="sm" onClick={() => setShowDuplicates(true)}>
+            {t('duplicates.find')}
+          </Button>
+        )}
+      </section>
+
       {/* Help */}
       <section className="pt-4 border-t border-[var(--border-color)]">
         <h3 className="text-sm font-semibold mb-2">{t('settings.guide')}</h3>
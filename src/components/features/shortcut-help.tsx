@@ -0,0 +1,83 @@
+/**
+ * Shortcut Help - in-app keys and the browser-wide commands with their current keys
+ * Browser commands are changed at chrome://extensions/shortcuts
+ */
+
+import { useState, useEffect } from 'react'
+import { Keyboard } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/shared'
+
+type ShortcutLabelKey =
+  | 'shortcuts.next'
+  | 'shortcuts.previous'
+  | 'shortcuts.edit'
+  | 'shortcuts.complete'
+  | 'shortcuts.search'
+  | 'shortcuts.help'
+  | 'shortcuts.palette'
+
+export const IN_APP_SHORTCUTS: { keys: string[]; labelKey: ShortcutLabelKey }[] = [
+  { keys: ['j'], labelKey: 'shortcuts.next' },
+  { keys: ['k'], labelKey: 'shortcuts.previous' },
+  { keys: ['e'], labelKey: 'shortcuts.edit' },
+  { keys: ['x'], labelKey: 'shortcuts.complete' },
+  { keys: ['/'], labelKey: 'shortcuts.search' },
+  { keys: ['?'], labelKey: 'shortcuts.help' },
+  { keys: ['Ctrl', 'K'], labelKey: 'shortcuts.palette' },
+]
+
+function Key({ children }: { children: string }) {
+  return (
+    <kbd className="min-w-[22px] px-1.5 py-0.5 rounded border border-[var(--border-color)] bg-[var(--bg-secondary)] text-xs font-mono text-center">
+      {children}
+    </kbd>
+  )
+}
+
+export function ShortcutHelp() {
+  const { t } = useTranslation()
+  const [commands, setCommands] = useState<chrome.commands.Command[]>([])
+
+  useEffect(() => {
+    chrome.commands.getAll().then(setCommands).catch(() => setCommands([]))
+  }, [])
+
+  return (
+    <div className="space-y-4">
+      <section className="space-y-1.5">
+        <h3 className="text-xs font-medium text-[var(--text-secondary)] uppercase">{t('shortcuts.inApp')}</h3>
+        {IN_APP_SHORTCUTS.map(({ keys, labelKey }) => (
+          <div key={labelKey} className="flex items-center justify-between text-sm">
+            <span>{t(labelKey)}</span>
+            <span className="flex gap-1">
+              {keys.map((key) => <Key key={key}>{key}</Key>)}
+            </span>
+          </div>
+        ))}
+      </section>
+
+      <section className="space-y-1.5">
+        <h3 className="text-xs font-medium text-[var(--text-secondary)] uppercase">{t('shortcuts.browser')}</h3>
+        {commands.filter((command) => command.description).map((command) => (
+          <div key={command.name} className="flex items-center justify-between gap-2 text-sm">
+            <span>{command.description}</span>
+            {command.shortcut ? (
+              <Key>{command.shortcut}</Key>
+            ) : (
+              <span className="text-xs text-[var(--text-secondary)]">{t('shortcuts.notSet')}</span>
+            )}
+          </div>
+        ))}
+        <Button
+          variant="ghost"
+          size="sm"
+          icon={<Keyboard className="w-3.5 h-3.5" />}
+          onClick={() => chrome.tabs.create({ url: 'chrome://extensions/shortcuts' })}
+        >
+          {t('shortcuts.configure')}
+        </Button>
+      </section>
+    </div>
+  )
+}
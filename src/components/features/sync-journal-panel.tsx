@@ -0,0 +1,206 @@
+/**
+ * Sync Journal Panel - history of sync runs for the "logs" footer tab
+ * Each run shows trigger, duration, per-entity counts and error messages
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  RefreshCw,
+  Trash2,
+  CheckCircle2,
+  AlertCircle,
+  ChevronDown,
+  ChevronRight,
+  History,
+} from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Select } from '@/components/shared'
+import { getJournalEntries, clearJournal } from '@/db/operations/journal-operations'
+import type { SyncJournalEntry, SyncEntityType, SyncTrigger } from '@/types'
+
+type StatusFilter = 'all' | 'success' | 'errors'
+
+const TRIGGERS: SyncTrigger[] = ['alarm', 'manual', 'startup']
+const ENTITIES: SyncEntityType[] = ['item', 'prompt']
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`
+}
+
+export function SyncJournalPanel() {
+  const { t, i18n } = useTranslation()
+  const [entries, setEntries] = useState<SyncJournalEntry[]>([])
+  const [triggerFilter, setTriggerFilter] = useState<SyncTrigger | 'all'>('all')
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all')
+  const [entityFilter, setEntityFilter] = useState<SyncEntityType | 'all'>('all')
+  const [expanded, setExpanded] = useState<Set<number>>(new Set())
+
+  const loadEntries = useCallback(async () => {
+    setEntries(await getJournalEntries())
+  }, [])
+
+  useEffect(() => {
+    loadEntries()
+  }, [loadEntries])
+
+  const handleClear = async () => {
+    if (!confirm(t('journal.confirmClear'))) return
+    await clearJournal()
+    setExpanded(new Set())
+    await loadEntries()
+  }
+
+  const toggleExpanded = (id: number) => {
+    setExpanded((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  const filtered = entries.filter((entry) => {
+    if (triggerFilter !== 'all' && entry.trigger !== triggerFilter) return false
+    if (statusFilter === 'success' && !entry.success) return false
+    if (statusFilter === 'errors' && entry.success) return false
+    if (entityFilter !== 'all' && !entry.entities[entityFilter]) return false
+    return true
+  })
+
+  const locale = i18n.language === 'vi' ? 'vi-VN' : 'en-US'
+
+  return (
+    <div className="p-3 space-y-3">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold flex items-center gap-1.5">
+          <History className="w-4 h-4 text-brand" />
+          {t('journal.title')}
+        </h2>
+        <div className="flex gap-1">
+          <button
+            onClick={loadEntries}
+            className="p-1.5 rounded-lg hover:bg-[var(--bg-secondary)] transition-colors"
+            title={t('journal.refresh')}
+          >
+            <RefreshCw className="w-4 h-4" />
+          </button>
+          <button
+            onClick={handleClear}
+            disabled={entries.length === 0}
+            className="p-1.5 rounded-lg hover:bg-[var(--bg-secondary)] transition-colors disabled:opacity-40"
+            title={t('journal.clear')}
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="grid grid-cols-3 gap-2">
+        <Select
+          value={triggerFilter}
+          onChange={(e) => setTriggerFilter(e.target.value as SyncTrigger | 'all')}
+          options={[
+            { value: 'all', label: t('journal.allTriggers') },
+            ...TRIGGERS.map((trigger) => ({ value: trigger, label: t(`journal.triggers.${trigger}`) })),
+          ]}
+          className="h-9 text-xs"
+        />
+        <Select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+          options={[
+            { value: 'all', label: t('journal.allStatuses') },
+            { value: 'success', label: t('journal.success') },
+            { value: 'errors', label: t('journal.withErrors') },
+          ]}
+          className="h-9 text-xs"
+        />
+        <Select
+          value={entityFilter}
+          onChange={(e) => setEntityFilter(e.target.value as SyncEntityType | 'all')}
+          options={[
+            { value: 'all', label: t('journal.allEntities') },
+            ...ENTITIES.map((entity) => ({ value: entity, label: t(`journal.entities.${entity}`) })),
+          ]}
+          className="h-9 text-xs"
+        />
+      </div>
+
+      {/* Entries */}
+      {filtered.length === 0 ? (
+        <div className="py-8 text-center text-[var(--text-secondary)]">
+          <p className="text-sm">{entries.length === 0 ? t('journal.empty') : t('journal.noMatches')}</p>
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {filtered.map((entry) => {
+            const id = entry.id!
+            const isOpen = expanded.has(id)
+            const errors = entityFilter === 'all'
+              ? entry.errors
+              : entry.errors.filter((e) => e.entity === entityFilter)
+
+            return (
+              <li
+                key={id}
+                className="p-2.5 rounded-xl bg-[var(--bg-secondary)] border border-[var(--border-color)]"
+              >
+                <button
+                  onClick={() => toggleExpanded(id)}
+                  disabled={errors.length === 0}
+                  className="w-full flex items-start gap-2 text-left"
+                >
+                  {entry.success ? (
+                    <CheckCircle2 className="w-4 h-4 mt-0.5 text-success flex-shrink-0" />
+                  ) : (
+                    <AlertCircle className="w-4 h-4 mt-0.5 text-error flex-shrink-0" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2 text-xs">
+                      <span className="font-medium">{t(`journal.triggers.${entry.trigger}`)}</span>
+                      <span className="text-[10px] text-[var(--text-secondary)]">
+                        {new Date(entry.startedAt).toLocaleString(locale)} · {formatDuration(entry.durationMs)}
+                      </span>
+                    </div>
+                    {ENTITIES.filter((entity) => entry.entities[entity]).map((entity) => {
+                      const counts = entry.entities[entity]!
+                      return (
+                        <p key={entity} className="text-[10px] text-[var(--text-secondary)]">
+                          {t(`journal.entities.${entity}`)}:{' '}
+                          {t('journal.counts', {
+                            created: counts.created,
+                            updated: counts.updated,
+                            deleted: counts.deleted,
+                          })}
+                          {counts.conflicts > 0 && ` · ${t('journal.conflicts', { count: counts.conflicts })}`}
+                        </p>
+                      )
+                    })}
+                    {errors.length > 0 && (
+                      <p className="flex items-center gap-0.5 text-[10px] text-error mt-0.5">
+                        {isOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                        {t('journal.errorCount', { count: errors.length })}
+                      </p>
+                    )}
+                  </div>
+                </button>
+
+                {isOpen && errors.length > 0 && (
+                  <ul className="mt-2 pl-6 space-y-1">
+                    {errors.map((error, index) => (
+                      <li key={index} className="text-[10px] text-[var(--text-secondary)] break-words">
+                        <span className="font-medium">{t(`journal.entities.${error.entity}`)}</span>: {error.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+/**
+ * Sync Progress Bar - phase, counters and current record of the running background sync
+ * Renders nothing while no sync is running
+ */
+
+import { X, AlertCircle } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import type { SyncProgress } from '@/types'
+
+interface SyncProgressBarProps {
+  progress: SyncProgress
+  onCancel: () => void
+}
+
+export function SyncProgressBar({ progress, onCancel }: SyncProgressBarProps) {
+  const { t } = useTranslation()
+
+  if (!progress.running) return null
+
+  const { entity, phase, fetched, position, total, current, errors, cancelled } = progress
+  // Pages are still being fetched until the pull knows its total
+  const percent = total > 0 ? Math.round((position / total) * 100) : null
+
+  const label = entity && phase ? t(`progress.${phase}`, { entity: t(`progress.${entity}`) }) : t('progress.starting')
+  const counter = total > 0
+    ? t('progress.position', { position, total })
+    : phase === 'pull' && fetched > 0
+      ? t('progress.fetched', { count: fetched })
+      : null
+
+  return (
+    <div className="px-3 py-1.5 border-b border-[var(--border-color)] bg-[var(--bg-secondary)] space-y-1">
+      <div className="flex items-center gap-2 text-xs">
+        <span className="font-medium shrink-0">{cancelled ? t('progress.cancelling') : label}</span>
+        {counter && <span className="text-[var(--text-secondary)] shrink-0">{counter}</span>}
+        <span className="flex-1 min-w-0 truncate text-[var(--text-secondary)]" title={current ?? undefined}>
+          {current}
+        </span>
+        {errors.length > 0 && (
+          <span className="flex items-center gap-0.5 text-error shrink-0" title={errors.join('\n')}>
+            <AlertCircle className="w-3 h-3" />
+            {t('progress.errors', { count: errors.length })}
+          </span>
+        )}
+        <button
+          onClick={onCancel}
+          disabled={cancelled}
+          className="p-0.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 shrink-0"
+          title={t('progress.cancel')}
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      <div className="h-1 rounded-full bg-[var(--border-color)] overflow-hidden">
+        <div
+          className={`h-full rounded-full bg-brand transition-all ${percent === null ? 'w-full animate-pulse' : ''}`}
+          style={percent === null ? undefined : { width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  )
+}
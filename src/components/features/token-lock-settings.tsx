@@ -0,0 +1,145 @@
+/**
+ * Token Lock Settings - seal the stored Notion token with a passphrase
+ * While a passphrase is set, sync only runs after it has been entered in this browser session
+ */
+
+import { useState, useEffect } from 'react'
+import { Lock, LockOpen, ToggleLeft, ToggleRight } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Button, Input } from '@/components/shared'
+import {
+  getTokenVaultStatus,
+  lockToken,
+  setTokenPassphrase,
+  removeTokenPassphrase,
+  isTokenVaultError,
+  type TokenVaultStatus,
+} from '@/services/notion/token-vault'
+import { useToast } from '@/stores/toast-context'
+
+const MIN_PASSPHRASE_LENGTH = 8
+
+export function TokenLockSettings() {
+  const { t } = useTranslation()
+  const [status, setStatus] = useState<TokenVaultStatus | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmation, setConfirmation] = useState('')
+  const [busy, setBusy] = useState(false)
+  const toast = useToast()
+
+  useEffect(() => {
+    loadStatus()
+  }, [])
+
+  const loadStatus = async () => {
+    try {
+      setStatus(await getTokenVaultStatus())
+    } catch {
+      setStatus(null)
+    }
+  }
+
+  const resetForm = () => {
+    setShowForm(false)
+    setPassphrase('')
+    setConfirmation('')
+  }
+
+  const run = async (action: () => Promise<void>, successKey: string) => {
+    setBusy(true)
+    try {
+      await action()
+      toast.success(t(successKey))
+      resetForm()
+      await loadStatus()
+    } catch (error) {
+      if (isTokenVaultError(error, 'wrong_passphrase')) toast.error(t('vault.wrongPassphrase'))
+      else if (isTokenVaultError(error, 'locked')) toast.error(t('vault.unlockFirst'))
+      else toast.error(t('vault.failed', { error: (error as { message?: string } | null)?.message ?? 'Unknown' }))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleSet = () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      toast.warning(t('vault.tooShort', { count: MIN_PASSPHRASE_LENGTH }))
+      return
+    }
+    if (passphrase !== confirmation) {
+      toast.warning(t('vault.mismatch'))
+      return
+    }
+    run(() => setTokenPassphrase(passphrase), 'vault.passphraseSet')
+  }
+
+  const handleRemove = () => run(() => removeTokenPassphrase(passphrase), 'vault.passphraseRemoved')
+
+  const handleLockNow = () => run(lockToken, 'vault.lockedNow')
+
+  if (!status) return null
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          {status.locked ? (
+            <Lock className="w-4 h-4 text-warning" />
+          ) : (
+            <LockOpen className="w-4 h-4 text-[var(--text-secondary)]" />
+          )}
+          <span className="text-sm">{t('vault.toggle')}</span>
+        </div>
+        <button
+          onClick={() => (showForm ? resetForm() : setShowForm(true))}
+          disabled={busy}
+          className={`p-1 rounded-lg transition-colors ${
+            status.passphrase ? 'text-brand' : 'text-[var(--text-secondary)]'
+          }`}
+        >
+          {status.passphrase ? <ToggleRight className="w-6 h-6" /> : <ToggleLeft className="w-6 h-6" />}
+        </button>
+      </div>
+
+      {status.passphrase && !status.locked && !showForm && (
+        <Button variant="ghost" size="sm" icon={<Lock className="w-3.5 h-3.5" />} onClick={handleLockNow} disabled={busy}>
+          {t('vault.lockNow')}
+        </Button>
+      )}
+
+      {showForm && (
+        <div className="p-3 rounded-lg bg-[var(--bg-secondary)] border border-[var(--border-color)] space-y-2">
+          <p className="text-xs text-[var(--text-secondary)]">
+            {status.passphrase ? t('vault.removeHint') : t('vault.setHint')}
+          </p>
+          <Input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder={t('vault.passphrase')}
+            autoComplete="new-password"
+          />
+          {!status.passphrase && (
+            <Input
+              type="password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              placeholder={t('vault.confirmPassphrase')}
+              autoComplete="new-password"
+            />
+          )}
+          <Button
+            variant={status.passphrase ? 'secondary' : 'primary'}
+            size="sm"
+            onClick={status.passphrase ? handleRemove : handleSet}
+            loading={busy}
+            disabled={!passphrase}
+          >
+            {status.passphrase ? t('vault.removePassphrase') : t('vault.setPassphrase')}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
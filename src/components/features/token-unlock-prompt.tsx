@@ -0,0 +1,61 @@
+/**
+ * Token Unlock Prompt - asks for the passphrase when the sealed Notion token is locked
+ * Shown under the header; sync stays paused until the token is unlocked
+ */
+
+import { useState } from 'react'
+import { Lock } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import { Button, Input } from '@/components/shared'
+import { unlockToken, isTokenVaultError } from '@/services/notion/token-vault'
+import { useToast } from '@/stores/toast-context'
+
+interface TokenUnlockPromptProps {
+  onUnlocked: () => void
+}
+
+export function TokenUnlockPrompt({ onUnlocked }: TokenUnlockPromptProps) {
+  const { t } = useTranslation()
+  const [passphrase, setPassphrase] = useState('')
+  const [isUnlocking, setIsUnlocking] = useState(false)
+  const toast = useToast()
+
+  const handleUnlock = async () => {
+    if (!passphrase) return
+    setIsUnlocking(true)
+    try {
+      await unlockToken(passphrase)
+      setPassphrase('')
+      toast.success(t('vault.unlocked'))
+      onUnlocked()
+    } catch (error) {
+      if (isTokenVaultError(error, 'wrong_passphrase')) toast.error(t('vault.wrongPassphrase'))
+      else toast.error(t('vault.failed', { error: (error as { message?: string } | null)?.message ?? 'Unknown' }))
+    } finally {
+      setIsUnlocking(false)
+    }
+  }
+
+  return (
+    <div className="px-3 py-2 border-b border-[var(--border-color)] bg-warning/10 space-y-1.5">
+      <div className="flex items-center gap-1.5 text-xs font-medium text-warning">
+        <Lock className="w-3.5 h-3.5" />
+        {t('vault.lockedPrompt')}
+      </div>
+      <div className="flex gap-2">
+        <Input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+          placeholder={t('vault.passphrase')}
+          autoComplete="current-password"
+          className="h-9"
+        />
+        <Button variant="primary" size="sm" onClick={handleUnlock} loading={isUnlocking} disabled={!passphrase}>
+          {t('vault.unlock')}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -1,65 +1,99 @@
-import { RefreshCw, Sun, Moon, Coffee, MessageCircle } from 'lucide-react'
+import { RefreshCw, Sun, Moon, Coffee, MessageCircle, GitMerge, Keyboard } from 'lucide-react'
 import { useTranslation } from 'react-i18next'
 import { useTheme } from '@/stores/theme-context'
+import { useSyncProgress } from '@/stores/sync-progress'
+import { SyncProgressBar } from '@/components/features/sync-progress-bar'
 import { LanguageToggle } from '@/components/shared'
+import { ProfileSwitcher } from './profile-switcher'
 import type { AuthorModalTab } from '@/types'
 
 interface HeaderProps {
   isSyncing?: boolean
   onSync?: () => void
   onOpenAuthorModal?: (tab: AuthorModalTab) => void
+  conflictCount?: number
+  onOpenConflicts?: () => void
+  onOpenShortcuts?: () => void
 }
 
-export function Header({ isSyncing, onSync, onOpenAuthorModal }: HeaderProps) {
+export function Header({ isSyncing, onSync, onOpenAuthorModal, conflictCount = 0, onOpenConflicts, onOpenShortcuts }: HeaderProps) {
   const { t } = useTranslation()
   const { theme, toggleTheme } = useTheme()
+  // Alarm and startup syncs run in the background without the panel asking
+  const { progress, cancel } = useSyncProgress()
+  const busy = isSyncing || progress.running
 
   return (
-    <header className="h-12 flex items-center justify-between px-4 border-b border-[var(--border-color)] bg-[var(--bg-secondary)]">
-      <div className="flex items-center gap-2">
-        <img
-          src={chrome.runtime.getURL('icons/icon-32.png')}
-          alt="Logo"
-          className="w-6 h-6"
-        />
-        <span className="text-sm font-bold">{t('app.name')}</span>
-      </div>
-      <div className="flex items-center gap-1">
-        <button
-          onClick={onSync}
-          disabled={isSyncing}
-          className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
-          title={t('header.sync')}
-        >
-          <RefreshCw className={`w-4 h-4 ${isSyncing ? 'animate-spin' : ''}`} />
-        </button>
-        <button
-          onClick={toggleTheme}
-          className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
-          title={theme === 'light' ? t('header.themeDark') : t('header.themeLight')}
-        >
-          {theme === 'light' ? <Moon className="w-4 h-4" /> : <Sun className="w-4 h-4" />}
-        </button>
-        <LanguageToggle />
-        {onOpenAuthorModal && (
-          <>
+    <>
+      <header className="h-12 flex items-center justify-between px-4 border-b border-[var(--border-color)] bg-[var(--bg-secondary)]">
+        <div className="flex items-center gap-2">
+          <img
+            src={chrome.runtime.getURL('icons/icon-32.png')}
+            alt="Logo"
+            className="w-6 h-6"
+          />
+          <span className="text-sm font-bold">{t('app.name')}</span>
+          <ProfileSwitcher disabled={busy} />
+        </div>
+        <div className="flex items-center gap-1">
+          {conflictCount > 0 && onOpenConflicts && (
             <button
-              onClick={() => onOpenAuthorModal('coffee')}
-              className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
-              title={t('header.coffee')}
+              onClick={onOpenConflicts}
+              className="relative p-2 rounded-lg text-warning hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+              title={t('header.conflicts', { count: conflictCount })}
             >
-              <Coffee className="w-4 h-4" />
+              <GitMerge className="w-4 h-4" />
+              <span className="absolute -top-0.5 -right-0.5 min-w-[16px] h-4 px-1 rounded-full bg-warning text-white text-[10px] font-bold leading-4 text-center">
+                {conflictCount}
+              </span>
             </button>
+          )}
+          <button
+            onClick={onSync}
+            disabled={busy}
+            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+            title={t('header.sync')}
+          >
+            <RefreshCw className={`w-4 h-4 ${busy ? 'animate-spin' : ''}`} />
+          </button>
+          <button
+            onClick={toggleTheme}
+            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            title={theme === 'light' ? t('header.themeDark') : t('header.themeLight')}
+          >
+            {theme === 'light' ? <Moon className="w-4 h-4" /> : <Sun className="w-4 h-4" />}
+          </button>
+          <LanguageToggle />
+          {onOpenShortcuts && (
             <button
-              onClick={() => onOpenAuthorModal('request')}
+              onClick={onOpenShortcuts}
               className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
-              title={t('header.request')}
+              title={t('shortcuts.title')}
             >
-              <MessageCircle className="w-4 h-4" />
+              <Keyboard className="w-4 h-4" />
             </button>
-          </>
-        )}
-      </div>
-    </header>
+          )}
+          {onOpenAuthorModal && (
+            <>
+              <button
+                onClick={() => onOpenAuthorModal('coffee')}
+                className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                title={t('header.coffee')}
+              >
+                <Coffee className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => onOpenAuthorModal('request')}
+                className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                title={t('header.request')}
+              >
+                <MessageCircle className="w-4 h-4" />
+              </button>
+            </>
+          )}
+        </div>
+      </header>
+      <SyncProgressBar progress={progress} onCancel={cancel} />
+    </>
   )
 }
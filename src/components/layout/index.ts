@@ -2,3 +2,4 @@ export { Header } from './header'
 export { TabBar } from './tab-bar'
 export { FooterTabBar } from './footer-tab-bar'
 export { ModuleTabBar } from './module-tab-bar'
+export { ProfileSwitcher } from './profile-switcher'
@@ -0,0 +1,135 @@
+/**
+ * Profile Switcher - pick the workspace profile whose token, databases and local data are in use
+ * Switching reloads the panel so nothing from the previous profile stays in memory
+ */
+
+import { useState, useEffect, useRef } from 'react'
+import { Users, ChevronDown, Check, Plus, Trash2 } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+import {
+  getProfiles,
+  getActiveProfileId,
+  createProfile,
+  setActiveProfile,
+  deleteProfile,
+} from '@/db/operations/profile-operations'
+import { DEFAULT_PROFILE_ID } from '@/db/schema'
+import type { Profile } from '@/types'
+
+interface ProfileSwitcherProps {
+  disabled?: boolean // e.g. while a sync is running
+}
+
+export function ProfileSwitcher({ disabled }: ProfileSwitcherProps) {
+  const { t } = useTranslation()
+  const [profiles, setProfiles] = useState<Profile[]>([])
+  const [activeId, setActiveId] = useState(DEFAULT_PROFILE_ID)
+  const [isOpen, setIsOpen] = useState(false)
+  const [newName, setNewName] = useState('')
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    loadProfiles()
+  }, [])
+
+  // Close on click outside
+  useEffect(() => {
+    if (!isOpen) return
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setIsOpen(false)
+    }
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [isOpen])
+
+  const loadProfiles = async () => {
+    const [list, active] = await Promise.all([getProfiles(), getActiveProfileId()])
+    setProfiles(list)
+    setActiveId(active)
+  }
+
+  const profileName = (profile: Profile) =>
+    profile.id === DEFAULT_PROFILE_ID ? t('profiles.default') : profile.name
+
+  const handleSwitch = async (id: string) => {
+    if (id === activeId) return
+    await setActiveProfile(id)
+    window.location.reload()
+  }
+
+  const handleCreate = async () => {
+    const name = newName.trim()
+    if (!name) return
+    const profile = await createProfile(name)
+    setNewName('')
+    await handleSwitch(profile.id)
+  }
+
+  const handleDelete = async (profile: Profile) => {
+    if (!confirm(t('profiles.deleteConfirm', { name: profile.name }))) return
+    await deleteProfile(profile.id)
+    await loadProfiles()
+  }
+
+  const active = profiles.find((p) => p.id === activeId)
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="flex items-center gap-1 px-2 py-1 rounded-lg text-xs text-[var(--text-secondary)] hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+        title={t('profiles.switch')}
+      >
+        <Users className="w-3.5 h-3.5" />
+        <span className="max-w-[96px] truncate">{active ? profileName(active) : ''}</span>
+        <ChevronDown className="w-3 h-3" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-1 z-50 w-56 p-1 rounded-lg border border-[var(--border-color)] bg-[var(--bg-primary)] shadow-lg">
+          {profiles.map((profile) => (
+            <div
+              key={profile.id}
+              className="group flex items-center gap-2 px-2 py-1.5 rounded hover:bg-[var(--bg-secondary)]"
+            >
+              <button onClick={() => handleSwitch(profile.id)} className="flex-1 flex items-center gap-2 text-left text-sm">
+                <Check className={`w-3.5 h-3.5 ${profile.id === activeId ? 'text-brand' : 'invisible'}`} />
+                <span className="truncate">{profileName(profile)}</span>
+              </button>
+              {profile.id !== DEFAULT_PROFILE_ID && profile.id !== activeId && (
+                <button
+                  onClick={() => handleDelete(profile)}
+                  className="p-0.5 rounded opacity-0 group-hover:opacity-100 text-[var(--text-secondary)] hover:text-error"
+                  title={t('profiles.delete')}
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+          ))}
+
+          <div className="flex items-center gap-1 mt-1 pt-1 border-t border-[var(--border-color)]">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+              placeholder={t('profiles.newPlaceholder')}
+              className="flex-1 min-w-0 h-7 px-2 text-xs rounded border bg-[var(--bg-secondary)] border-[var(--border-color)] focus:border-brand focus:outline-none"
+            />
+            <button
+              onClick={handleCreate}
+              disabled={!newName.trim()}
+              className="p-1 rounded text-brand hover:bg-[var(--bg-secondary)] disabled:opacity-40"
+              title={t('profiles.create')}
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </div>
+          <p className="px-2 pt-1 text-[10px] text-[var(--text-secondary)]">{t('profiles.hint')}</p>
+        </div>
+      )}
+    </div>
+  )
+}
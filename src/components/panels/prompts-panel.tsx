@@ -4,7 +4,7 @@
  */
 
 import { useState, useEffect, useCallback } from 'react'
-import { Plus, RefreshCw } from 'lucide-react'
+import { Plus, RefreshCw, Sparkles } from 'lucide-react'
 import { useTranslation } from 'react-i18next'
 import { SearchBar, Modal } from '@/components/shared'
 import {
@@ -23,8 +23,9 @@ import {
   getPromptCategories,
   getPromptTags,
 } from '@/db/operations/prompt-operations'
-import { promptSyncService } from '@/services/notion/prompt-sync-service'
+import type { PromptSyncResult } from '@/services/notion/prompt-sync-service'
 import { useToast } from '@/stores/toast-context'
+import { useCommandSource } from '@/stores/command-palette-context'
 import type { Prompt, PromptType, PromptFormData, PromptFilterState } from '@/types'
 
 interface PromptsPanelProps {
@@ -70,6 +71,18 @@ export function PromptsPanel({ isConfigured, onOpenSettings }: PromptsPanelProps
     loadMetadata()
   }, [loadPrompts, loadMetadata])
 
+  // Saved from the browser context menu
+  useEffect(() => {
+    const handleMessage = (message: { type: string }) => {
+      if (message.type === 'PROMPTS_CHANGED') {
+        loadPrompts()
+        loadMetadata()
+      }
+    }
+    chrome.runtime.onMessage.addListener(handleMessage)
+    return () => chrome.runtime.onMessage.removeListener(handleMessage)
+  }, [loadPrompts, loadMetadata])
+
   // Filter prompts by type
   const promptsByType = prompts.filter((p) => p.type === activeTab)
 
@@ -150,13 +163,15 @@ export function PromptsPanel({ isConfigured, onOpenSettings }: PromptsPanelProps
 
     setIsSyncing(true)
     try {
-      const result = await promptSyncService.fullSync()
-      if (result.success) {
+      // The worker runs it, like SYNC_NOW, so it can't overlap its own runs on the same queue
+      const response = await chrome.runtime.sendMessage({ type: 'SYNC_PROMPTS' })
+      const result = response?.result as PromptSyncResult | undefined
+      if (response?.success && result) {
         toast.success(t('prompts.syncResult', { created: result.created, updated: result.updated, deleted: result.deleted }))
         await loadPrompts()
         await loadMetadata()
       } else {
-        toast.error(t('toast.syncError') + ': ' + result.errors.join(', '))
+        toast.error(t('toast.syncError') + ': ' + (response?.error || 'Unknown'))
       }
     } catch (error) {
       toast.error(t('toast.syncError') + ': ' + (error instanceof Error ? error.message : 'Unknown'))
@@ -165,6 +180,21 @@ export function PromptsPanel({ isConfigured, onOpenSettings }: PromptsPanelProps
     }
   }
 
+  // Palette commands while the prompt library is open
+  useCommandSource('prompts-panel', () => [
+    {
+      id: 'new-prompt',
+      group: 'command',
+      title: t('prompts.new'),
+      icon: Sparkles,
+      run: () => {
+        setEditingPrompt(null)
+        setShowForm(true)
+      },
+    },
+    { id: 'sync-prompts', group: 'command', title: t('prompts.syncWithNotion'), icon: RefreshCw, run: handleSync },
+  ])
+
   return (
     <div className="flex flex-col h-full">
       {/* Header */}
@@ -10,3 +10,4 @@ export { IconPicker, CategoryIcon, getIconByName, CATEGORY_ICONS } from './icon-
 export { ColorPicker, CompactColorPicker, TAG_COLORS } from './color-picker'
 export { DropdownMenu, DropdownMenuItem } from './dropdown-menu'
 export { LanguageToggle } from './language-toggle'
+export { MarkdownPreview } from './markdown-preview'
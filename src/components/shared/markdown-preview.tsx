@@ -0,0 +1,144 @@
+import type { CSSProperties, ReactNode } from 'react'
+import { parseMarkdownBlocks, parseInlineMarkdown, type InlineSpan, type MarkdownBlock } from '@/utils/markdown'
+
+interface MarkdownPreviewProps {
+  content: string
+  className?: string
+}
+
+// Notion color names → CSS (text colors and "_background" highlights)
+const NOTION_COLORS: Record<string, string> = {
+  gray: '#787774',
+  brown: '#9f6b53',
+  orange: '#d9730d',
+  yellow: '#cb912f',
+  green: '#448361',
+  blue: '#337ea9',
+  purple: '#9065b0',
+  pink: '#c14c8a',
+  red: '#d44c47',
+}
+
+function colorStyle(color: string | undefined): CSSProperties | undefined {
+  if (!color) return undefined
+  if (color.endsWith('_background')) {
+    const base = NOTION_COLORS[color.replace('_background', '')]
+    return base ? { backgroundColor: `${base}33` } : undefined
+  }
+  return NOTION_COLORS[color] ? { color: NOTION_COLORS[color] } : undefined
+}
+
+// Only web and mail links are rendered clickable
+const isSafeHref = (href: string) => /^(https?:|mailto:)/i.test(href)
+
+function renderSpan(span: InlineSpan, key: number): ReactNode {
+  const classes = [
+    span.bold && 'font-semibold',
+    span.italic && 'italic',
+    span.underline && 'underline',
+    span.strikethrough && 'line-through',
+    span.code && 'font-mono px-1 rounded bg-[var(--bg-primary)] border border-[var(--border-color)]',
+  ].filter(Boolean).join(' ')
+
+  const text = (
+    <span key={key} className={classes || undefined} style={colorStyle(span.color)}>
+      {span.text}
+    </span>
+  )
+
+  if (span.href && isSafeHref(span.href)) {
+    return (
+      <a
+        key={key}
+        href={span.href}
+        target="_blank"
+        rel="noopener noreferrer"
+        onClick={(e) => e.stopPropagation()}
+        className="text-brand hover:underline"
+      >
+        {text}
+      </a>
+    )
+  }
+  return text
+}
+
+function renderInline(text: string): ReactNode {
+  return parseInlineMarkdown(text).map(renderSpan)
+}
+
+function renderBlock(block: MarkdownBlock, index: number, listNumber: number): ReactNode {
+  switch (block.type) {
+    case 'heading_1':
+      return <p key={index} className="text-base font-semibold">{renderInline(block.text)}</p>
+    case 'heading_2':
+      return <p key={index} className="text-sm font-semibold">{renderInline(block.text)}</p>
+    case 'heading_3':
+      return <p key={index} className="font-semibold">{renderInline(block.text)}</p>
+    case 'bulleted_list_item':
+      return (
+        <p key={index} className="flex gap-1.5">
+          <span>•</span>
+          <span>{renderInline(block.text)}</span>
+        </p>
+      )
+    case 'numbered_list_item':
+      return (
+        <p key={index} className="flex gap-1.5">
+          <span>{listNumber}.</span>
+          <span>{renderInline(block.text)}</span>
+        </p>
+      )
+    case 'to_do':
+      return (
+        <p key={index} className="flex items-start gap-1.5">
+          <input type="checkbox" checked={!!block.checked} readOnly className="mt-0.5 pointer-events-none" />
+          <span className={block.checked ? 'line-through opacity-70' : ''}>{renderInline(block.text)}</span>
+        </p>
+      )
+    case 'quote':
+      return (
+        <p key={index} className="pl-2 border-l-2 border-[var(--border-color)]">
+          {renderInline(block.text)}
+        </p>
+      )
+    case 'code':
+      return (
+        <pre
+          key={index}
+          className="px-2 py-1 rounded bg-[var(--bg-primary)] border border-[var(--border-color)] font-mono whitespace-pre-wrap break-words"
+        >
+          {block.text}
+        </pre>
+      )
+    case 'divider':
+      return <hr key={index} className="border-[var(--border-color)]" />
+    case 'image':
+      return (
+        <figure key={index} className="space-y-0.5">
+          <img src={block.url} alt={block.text} loading="lazy" className="max-w-full rounded" />
+          {block.text && <figcaption className="text-[var(--text-secondary)]">{renderInline(block.text)}</figcaption>}
+        </figure>
+      )
+    default:
+      // Blank lines keep their height
+      return <p key={index} className="min-h-[1em]">{renderInline(block.text)}</p>
+  }
+}
+
+/**
+ * Read-only rendering of an item body written in Markdown
+ */
+export function MarkdownPreview({ content, className = '' }: MarkdownPreviewProps) {
+  const blocks = parseMarkdownBlocks(content)
+  let listNumber = 0
+
+  return (
+    <div className={`space-y-0.5 break-words ${className}`}>
+      {blocks.map((block, index) => {
+        listNumber = block.type === 'numbered_list_item' ? listNumber + 1 : 0
+        return renderBlock(block, index, listNumber)
+      })}
+    </div>
+  )
+}
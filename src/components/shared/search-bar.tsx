@@ -1,4 +1,4 @@
-import { useState, useRef, useEffect } from 'react'
+import { useState, useRef, useEffect, type RefObject } from 'react'
 import { Search, X } from 'lucide-react'
 import { useTranslation } from 'react-i18next'
 
@@ -7,6 +7,7 @@ interface SearchBarProps {
   onChange: (value: string) => void
   placeholder?: string
   autoFocus?: boolean
+  inputRef?: RefObject<HTMLInputElement | null> // Lets the page focus the field from a shortcut
 }
 
 export function SearchBar({
@@ -14,11 +15,13 @@ export function SearchBar({
   onChange,
   placeholder,
   autoFocus = false,
+  inputRef: externalRef,
 }: SearchBarProps) {
   const { t } = useTranslation()
   const defaultPlaceholder = placeholder ?? t('common.searchPlaceholder')
   const [isFocused, setIsFocused] = useState(false)
-  const inputRef = useRef<HTMLInputElement>(null)
+  const ownRef = useRef<HTMLInputElement>(null)
+  const inputRef = externalRef ?? ownRef
 
   useEffect(() => {
     if (autoFocus && inputRef.current) {
@@ -1,6 +1,8 @@
 import { db } from '../schema'
 import type { Category, CategoryFormData } from '@/types'
 import { generateId } from '@/utils/id'
+import { getSettings, queueMetadataArchive } from './settings-operations'
+import { requeueItemsReferencing } from './item-operations'
 
 // Create
 export async function createCategory(data: CategoryFormData): Promise<Category> {
@@ -16,6 +18,7 @@ export async function createCategory(data: CategoryFormData): Promise<Category>
     parentId: data.parentId,
     order: siblings.length,
     notionId: null,
+    updatedAt: Date.now(),
   }
 
   await db.categories.add(category)
@@ -41,23 +44,73 @@ export async function getChildCategories(parentId: string): Promise<Category[]>
 }
 
 // Update
+// A rename re-pushes the category's items, unless they link to its Notion page
 export async function updateCategory(
   id: string,
   updates: Partial<Category>
 ): Promise<void> {
-  await db.categories.update(id, updates)
+  const category = await db.categories.get(id)
+  await db.categories.update(id, { ...updates, updatedAt: Date.now() })
+  if (category && updates.name !== undefined && updates.name !== category.name && !(await isLinked())) {
+    await requeueItemsReferencing((item) => item.categoryId === id)
+  }
+}
+
+// Items link to category pages instead of holding the name
+async function isLinked(): Promise<boolean> {
+  return (await getSettings()).metadataSyncMode === 'relation'
+}
+
+// Point items at another category (or none)
+// push: re-push them (false when the change came from Notion)
+async function reassignItems(fromId: string, toId: string | null, push: boolean): Promise<void> {
+  if (push) {
+    await requeueItemsReferencing((item) => item.categoryId === fromId, () => ({ categoryId: toId }))
+  } else {
+    await db.items.where('categoryId').equals(fromId).modify({ categoryId: toId })
+  }
 }
 
 // Delete
-export async function deleteCategory(id: string): Promise<void> {
+// push: re-push the affected items and archive the category page (false when deleted in Notion)
+export async function deleteCategory(id: string, push = true): Promise<void> {
+  const category = await db.categories.get(id)
+  if (push && category?.notionId) await queueMetadataArchive(category.notionId)
   // Move children to root
-  await db.categories.where('parentId').equals(id).modify({ parentId: null })
+  const now = Date.now()
+  await db.categories.where('parentId').equals(id).modify({ parentId: null, updatedAt: now })
   // Remove category reference from items
-  await db.items.where('categoryId').equals(id).modify({ categoryId: null })
+  await reassignItems(id, null, push)
   // Delete category
   await db.categories.delete(id)
 }
 
+async function isDescendant(id: string, ancestorId: string): Promise<boolean> {
+  const seen = new Set<string>()
+  let current = await db.categories.get(id)
+  while (current?.parentId && !seen.has(current.parentId)) {
+    if (current.parentId === ancestorId) return true
+    seen.add(current.parentId)
+    current = await db.categories.get(current.parentId)
+  }
+  return false
+}
+
+// Merge: source's items and children move to target, then source is deleted
+export async function mergeCategories(sourceId: string, targetId: string, push = true): Promise<void> {
+  if (sourceId === targetId) return
+  const source = await db.categories.get(sourceId)
+  if (push && source?.notionId) await queueMetadataArchive(source.notionId)
+  const now = Date.now()
+  // A target nested under source takes source's place first, so the tree stays acyclic
+  if (await isDescendant(targetId, sourceId)) {
+    await db.categories.update(targetId, { parentId: source?.parentId ?? null, updatedAt: now })
+  }
+  await db.categories.where('parentId').equals(sourceId).modify({ parentId: targetId, updatedAt: now })
+  await reassignItems(sourceId, targetId, push)
+  await db.categories.delete(sourceId)
+}
+
 // Reorder
 export async function reorderCategory(id: string, newOrder: number): Promise<void> {
   const category = await db.categories.get(id)
@@ -74,8 +127,12 @@ export async function reorderCategory(id: string, newOrder: number): Promise<voi
   filtered.splice(newOrder, 0, category)
 
   // Update all orders
+  const now = Date.now()
   await Promise.all(
-    filtered.map((cat, index) => db.categories.update(cat.id, { order: index }))
+    filtered
+      .map((cat, index) => ({ cat, index }))
+      .filter(({ cat, index }) => cat.order !== index)
+      .map(({ cat, index }) => db.categories.update(cat.id, { order: index, updatedAt: now }))
   )
 }
 
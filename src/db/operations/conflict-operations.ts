@@ -0,0 +1,81 @@
+import { db } from '../schema'
+import type { Item, Prompt, SyncConflict, SyncEntityType } from '@/types'
+import { updateItem } from './item-operations'
+import { updatePrompt } from './prompt-operations'
+
+// Fields synced as page content blocks
+const BODY_FIELDS: Record<SyncEntityType, string> = { item: 'content', prompt: 'prompt' }
+
+// Read
+export async function getAllConflicts(): Promise<SyncConflict[]> {
+  return db.syncConflicts.orderBy('createdAt').reverse().toArray()
+}
+
+export async function getConflictCount(): Promise<number> {
+  return db.syncConflicts.count()
+}
+
+export async function getConflictedIds(entityType: SyncEntityType): Promise<Set<string>> {
+  const conflicts = await db.syncConflicts.where('entityType').equals(entityType).toArray()
+  return new Set(conflicts.map((c) => c.entityId))
+}
+
+// Create or refresh the open conflict for an entity
+// Newer remote values replace older ones field by field
+export async function saveConflict(
+  conflict: Omit<SyncConflict, 'id' | 'createdAt'>
+): Promise<void> {
+  const existing = await db.syncConflicts
+    .where('[entityType+entityId]')
+    .equals([conflict.entityType, conflict.entityId])
+    .first()
+
+  if (existing) {
+    const fieldNames = new Set(conflict.fields.map((f) => f.field))
+    await db.syncConflicts.update(existing.id!, {
+      title: conflict.title,
+      fields: [...existing.fields.filter((f) => !fieldNames.has(f.field)), ...conflict.fields],
+      remoteEditedAt: conflict.remoteEditedAt,
+    })
+    return
+  }
+
+  await db.syncConflicts.add({ ...conflict, createdAt: Date.now() })
+}
+
+// Resolve with the chosen value for every field
+// Goes through the regular update path so the result is queued for Notion
+// A chosen body is written even if the page holds blocks it can't convert (they are kept)
+// One transaction, so a failed update keeps the conflict and the choice can be made again
+export async function resolveConflict(
+  id: number,
+  values: Record<string, unknown>
+): Promise<void> {
+  await db.transaction('rw', [db.syncConflicts, db.items, db.syncQueue, db.prompts, db.promptSyncQueue], async () => {
+    const conflict = await db.syncConflicts.get(id)
+    if (!conflict) return
+
+    await db.syncConflicts.delete(id)
+
+    const overwriteBody = conflict.fields.some((f) => f.field === BODY_FIELDS[conflict.entityType])
+
+    if (conflict.entityType === 'item') {
+      if (await db.items.get(conflict.entityId)) {
+        await updateItem(conflict.entityId, values as Partial<Item>)
+        if (overwriteBody) {
+          await db.syncQueue.where('itemId').equals(conflict.entityId).and((q) => q.status === 'queued').modify({ overwriteBody })
+        }
+      }
+    } else if (await db.prompts.get(conflict.entityId)) {
+      await updatePrompt(conflict.entityId, values as Partial<Prompt>)
+      if (overwriteBody) {
+        await db.promptSyncQueue.where('promptId').equals(conflict.entityId).and((q) => q.status === 'queued').modify({ overwriteBody })
+      }
+    }
+  })
+}
+
+// Delete
+export async function deleteConflictsFor(entityType: SyncEntityType, entityId: string): Promise<void> {
+  await db.syncConflicts.where('[entityType+entityId]').equals([entityType, entityId]).delete()
+}
@@ -0,0 +1,90 @@
+import { db } from '../schema'
+import type { Item, ItemFormData } from '@/types'
+import { normalizeUrl } from '@/utils/url-normalize'
+import { updateItem, deleteItem } from './item-operations'
+
+// Read
+// Bookmarks already saved for a page, oldest first
+// The canonical link catches addresses that differ by more than normalization undoes
+export async function findDuplicateBookmarks(url: string, canonicalUrl?: string): Promise<Item[]> {
+  const keys = [...new Set([normalizeUrl(url), normalizeUrl(canonicalUrl)].filter((key): key is string => !!key))]
+  if (keys.length === 0) return []
+
+  const items = await db.items.where('normalizedUrl').anyOf(keys).toArray()
+  return items
+    .filter((item) => item.type === 'bookmark')
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+}
+
+// Normalized addresses of every saved bookmark
+export async function getBookmarkedUrls(): Promise<Set<string>> {
+  const bookmarks = await db.items.where('type').equals('bookmark').toArray()
+  return new Set(bookmarks.map((item) => item.normalizedUrl).filter((key): key is string => !!key))
+}
+
+// Groups of bookmarks sharing a page, biggest group first
+export async function findDuplicateGroups(): Promise<Item[][]> {
+  const bookmarks = await db.items.where('type').equals('bookmark').toArray()
+  const groups = new Map<string, Item[]>()
+  for (const item of bookmarks) {
+    if (!item.normalizedUrl) continue
+    groups.set(item.normalizedUrl, [...(groups.get(item.normalizedUrl) ?? []), item])
+  }
+
+  return [...groups.values()]
+    .filter((group) => group.length > 1)
+    .map((group) => group.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()))
+    .sort((a, b) => b.length - a.length)
+}
+
+// Update
+// Fold new data into an existing item: its own values win, empty ones are filled,
+// tags are combined and new text is appended below the old
+export async function mergeIntoItem(id: string, data: Omit<ItemFormData, 'type'>): Promise<void> {
+  const item = await db.items.get(id)
+  if (!item) throw new Error(`Item ${id} not found`)
+
+  const content = data.content.trim()
+  await updateItem(id, {
+    title: item.title || data.title,
+    content: !content || item.content.includes(content)
+      ? item.content
+      : [item.content, content].filter(Boolean).join('\n\n'),
+    // Left out when kept, so a key taken from a canonical link survives
+    ...(item.url ? {} : { url: data.url ?? null }),
+    categoryId: item.categoryId ?? data.categoryId ?? null,
+    projectId: item.projectId ?? data.projectId ?? null,
+    tags: [...new Set([...item.tags, ...data.tags])],
+  })
+}
+
+// Replace an existing item's saved fields with new data
+export async function overwriteItem(id: string, data: Omit<ItemFormData, 'type'>): Promise<void> {
+  await updateItem(id, {
+    title: data.title,
+    content: data.content,
+    url: data.url || null,
+    normalizedUrl: normalizeUrl(data.canonicalUrl) ?? normalizeUrl(data.url),
+    categoryId: data.categoryId || null,
+    projectId: data.projectId || null,
+    tags: data.tags,
+  })
+}
+
+// Delete
+// Keep one item of a group: the others are merged into it and deleted
+export async function mergeDuplicates(keepId: string, otherIds: string[]): Promise<void> {
+  for (const id of otherIds) {
+    const other = await db.items.get(id)
+    if (!other || id === keepId) continue
+    await mergeIntoItem(keepId, {
+      title: other.title,
+      content: other.content,
+      url: other.url ?? undefined,
+      categoryId: other.categoryId ?? undefined,
+      projectId: other.projectId ?? undefined,
+      tags: other.tags,
+    })
+    await deleteItem(id)
+  }
+}
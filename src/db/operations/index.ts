@@ -9,11 +9,22 @@ export {
   updateItem,
   toggleItemCompleted,
   deleteItem,
+  removeItemLocally,
   deleteItemsByCategory,
   filterItems,
   getItemStats,
+  requeueItemsReferencing,
 } from './item-operations'
 
+// Duplicate bookmark operations
+export {
+  findDuplicateBookmarks,
+  findDuplicateGroups,
+  mergeIntoItem,
+  overwriteItem,
+  mergeDuplicates,
+} from './duplicate-operations'
+
 // Category operations
 export {
   createCategory,
@@ -23,6 +34,7 @@ export {
   getChildCategories,
   updateCategory,
   deleteCategory,
+  mergeCategories,
   reorderCategory,
   getCategoryTree,
   type CategoryTreeNode,
@@ -35,6 +47,7 @@ export {
   getAllProjects,
   updateProject,
   deleteProject,
+  mergeProjects,
 } from './project-operations'
 
 // Tag operations
@@ -45,6 +58,7 @@ export {
   getTagsByIds,
   updateTag,
   deleteTag,
+  mergeTags,
 } from './tag-operations'
 
 // Settings operations
@@ -58,6 +72,11 @@ export {
   hasNotionCredentials,
   updateLastSyncAt,
   getLastSyncAt,
+  pauseSync,
+  resumeSync,
+  getPropertyMapping,
+  savePropertyMapping,
+  queueMetadataArchive,
 } from './settings-operations'
 
 // Sync queue operations
@@ -72,4 +91,45 @@ export {
   clearFailedQueue,
   getQueueCount,
   retryFailedQueue,
+  relinkToNewDatabase,
+  requeuePushedPrompts,
 } from './sync-queue-operations'
+
+// Sync snapshot operations
+export {
+  getItemSnapshot,
+  saveItemSnapshot,
+  deleteItemSnapshot,
+  getPromptSnapshot,
+  savePromptSnapshot,
+  deletePromptSnapshot,
+} from './snapshot-operations'
+
+// Conflict inbox operations
+export {
+  getAllConflicts,
+  getConflictCount,
+  getConflictedIds,
+  saveConflict,
+  resolveConflict,
+  deleteConflictsFor,
+} from './conflict-operations'
+
+// Sync journal operations
+export {
+  addJournalEntry,
+  getJournalEntries,
+  clearJournal,
+} from './journal-operations'
+
+// Profile operations
+export {
+  getProfiles,
+  getActiveProfileId,
+  activateStoredProfile,
+  createProfile,
+  renameProfile,
+  setActiveProfile,
+  deleteProfile,
+  onActiveProfileChange,
+} from './profile-operations'
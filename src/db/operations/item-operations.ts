@@ -2,6 +2,7 @@ import { db } from '../schema'
 import type { Item, ItemFormData, ItemType, SyncStatus, ItemFilter } from '@/types'
 import { generateId } from '@/utils/id'
 import { getFaviconUrl } from '@/utils/favicon'
+import { normalizeUrl } from '@/utils/url-normalize'
 
 // Helper: Queue sync operation
 async function queueSync(
@@ -34,6 +35,8 @@ export async function createItem(data: ItemFormData): Promise<Item> {
     title: data.title,
     content: data.content,
     url: data.url || null,
+    // A canonical link names the page better than the address it was reached by
+    normalizedUrl: normalizeUrl(data.canonicalUrl) ?? normalizeUrl(data.url),
     faviconUrl,
     priority: data.priority || null,
     deadline: data.deadline || null,
@@ -95,6 +98,30 @@ export async function updateItem(id: string, updates: Partial<Item>): Promise<vo
   await queueSync(id, 'update', { ...item, ...updatedItem })
 }
 
+// Re-push every item referencing a tag, category or project that was renamed, merged or deleted
+// changes rewrites the reference first; a rename only needs the re-push and keeps updatedAt
+// One transaction, so a failure never leaves references half-rewritten
+export async function requeueItemsReferencing(
+  filter: (item: Item) => boolean,
+  changes: (item: Item) => Partial<Item> = () => ({})
+): Promise<number> {
+  return db.transaction('rw', [db.items, db.syncQueue], async () => {
+    const items = await db.items.filter(filter).toArray()
+    const now = new Date()
+    for (const item of items) {
+      const rewritten = changes(item)
+      const updatedItem = {
+        ...rewritten,
+        ...(Object.keys(rewritten).length > 0 && { updatedAt: now }),
+        syncStatus: 'pending' as SyncStatus,
+      }
+      await db.items.update(item.id, updatedItem)
+      await queueSync(item.id, 'update', { ...item, ...updatedItem })
+    }
+    return items.length
+  })
+}
+
 export async function toggleItemCompleted(id: string): Promise<void> {
   const item = await db.items.get(id)
   if (!item) throw new Error(`Item ${id} not found`)
@@ -109,10 +136,21 @@ export async function deleteItem(id: string): Promise<void> {
   const notionId = item?.notionId || null
 
   await db.items.delete(id)
+  await db.itemSnapshots.delete(id)
+  await db.syncConflicts.where('[entityType+entityId]').equals(['item', id]).delete()
   // Pass notionId in payload so sync can archive the Notion page
   await queueSync(id, 'delete', notionId ? { notionId } : null)
 }
 
+// Remove an item that was deleted/archived in Notion
+// Drops pending queue entries without queueing a delete back to Notion
+export async function removeItemLocally(id: string): Promise<void> {
+  await db.items.delete(id)
+  await db.syncQueue.where('itemId').equals(id).delete()
+  await db.itemSnapshots.delete(id)
+  await db.syncConflicts.where('[entityType+entityId]').equals(['item', id]).delete()
+}
+
 export async function deleteItemsByCategory(categoryId: string): Promise<void> {
   const items = await getItemsByCategory(categoryId)
   await Promise.all(items.map((item) => deleteItem(item.id)))
@@ -0,0 +1,29 @@
+import { db } from '../schema'
+import type { SyncJournalEntry } from '@/types'
+
+// Keep the journal bounded - oldest runs are pruned first
+const MAX_JOURNAL_ENTRIES = 200
+
+// Create
+export async function addJournalEntry(entry: Omit<SyncJournalEntry, 'id'>): Promise<void> {
+  await db.syncJournal.add(entry)
+
+  const count = await db.syncJournal.count()
+  if (count > MAX_JOURNAL_ENTRIES) {
+    const oldest = await db.syncJournal
+      .orderBy('startedAt')
+      .limit(count - MAX_JOURNAL_ENTRIES)
+      .primaryKeys()
+    await db.syncJournal.bulkDelete(oldest)
+  }
+}
+
+// Read (newest first)
+export async function getJournalEntries(): Promise<SyncJournalEntry[]> {
+  return db.syncJournal.orderBy('startedAt').reverse().toArray()
+}
+
+// Delete
+export async function clearJournal(): Promise<void> {
+  await db.syncJournal.clear()
+}
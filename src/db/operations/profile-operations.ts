@@ -0,0 +1,74 @@
+import Dexie from 'dexie'
+import { DEFAULT_PROFILE_ID, getDatabaseName, openProfileDatabase } from '../schema'
+import type { Profile } from '@/types'
+import { generateId } from '@/utils/id'
+
+// Profiles live in chrome.storage so every extension context sees the same list and choice
+const PROFILES_KEY = 'profiles'
+const ACTIVE_PROFILE_KEY = 'activeProfileId'
+
+const DEFAULT_PROFILE: Profile = { id: DEFAULT_PROFILE_ID, name: 'Default', createdAt: 0 }
+
+// Read
+export async function getProfiles(): Promise<Profile[]> {
+  const result = await chrome.storage.local.get(PROFILES_KEY)
+  const profiles = (result[PROFILES_KEY] as Profile[] | undefined) ?? []
+  return profiles.some((p) => p.id === DEFAULT_PROFILE_ID) ? profiles : [DEFAULT_PROFILE, ...profiles]
+}
+
+export async function getActiveProfileId(): Promise<string> {
+  const result = await chrome.storage.local.get(ACTIVE_PROFILE_KEY)
+  const id = result[ACTIVE_PROFILE_KEY] as string | undefined
+  // A deleted profile falls back to the default one
+  if (!id || !(await getProfiles()).some((p) => p.id === id)) return DEFAULT_PROFILE_ID
+  return id
+}
+
+// Open the stored active profile's database - call before any other database access
+export async function activateStoredProfile(): Promise<string> {
+  const id = await getActiveProfileId()
+  openProfileDatabase(id)
+  return id
+}
+
+// Create
+export async function createProfile(name: string): Promise<Profile> {
+  const profile: Profile = { id: generateId(), name, createdAt: Date.now() }
+  await chrome.storage.local.set({ [PROFILES_KEY]: [...(await getProfiles()), profile] })
+  return profile
+}
+
+// Update
+export async function renameProfile(id: string, name: string): Promise<void> {
+  const profiles = await getProfiles()
+  await chrome.storage.local.set({
+    [PROFILES_KEY]: profiles.map((p) => (p.id === id ? { ...p, name } : p)),
+  })
+}
+
+// Switch: other contexts follow through chrome.storage.onChanged
+export async function setActiveProfile(id: string): Promise<void> {
+  await chrome.storage.local.set({ [ACTIVE_PROFILE_KEY]: id })
+  openProfileDatabase(id)
+}
+
+// Delete a profile and its local data
+// The default and the active profile can't be deleted
+export async function deleteProfile(id: string): Promise<void> {
+  if (id === DEFAULT_PROFILE_ID || id === (await getActiveProfileId())) {
+    throw new Error('Cannot delete the default or active profile')
+  }
+  const profiles = await getProfiles()
+  await chrome.storage.local.set({ [PROFILES_KEY]: profiles.filter((p) => p.id !== id) })
+  await Dexie.delete(getDatabaseName(id))
+}
+
+// React to a profile switch made in another context
+export function onActiveProfileChange(listener: (id: string) => void): () => void {
+  const handler = (changes: Record<string, chrome.storage.StorageChange>, area: string) => {
+    if (area !== 'local' || !changes[ACTIVE_PROFILE_KEY]) return
+    listener((changes[ACTIVE_PROFILE_KEY].newValue as string | undefined) ?? DEFAULT_PROFILE_ID)
+  }
+  chrome.storage.onChanged.addListener(handler)
+  return () => chrome.storage.onChanged.removeListener(handler)
+}
@@ -1,6 +1,8 @@
 import { db } from '../schema'
 import type { Project, ProjectFormData } from '@/types'
 import { generateId } from '@/utils/id'
+import { getSettings, queueMetadataArchive } from './settings-operations'
+import { requeueItemsReferencing } from './item-operations'
 
 // Create
 export async function createProject(data: ProjectFormData): Promise<Project> {
@@ -9,6 +11,7 @@ export async function createProject(data: ProjectFormData): Promise<Project> {
     name: data.name,
     color: data.color,
     notionId: null,
+    updatedAt: Date.now(),
   }
 
   await db.projects.add(project)
@@ -25,16 +28,47 @@ export async function getAllProjects(): Promise<Project[]> {
 }
 
 // Update
+// A rename re-pushes the project's items, unless they link to its Notion page
 export async function updateProject(
   id: string,
   updates: Partial<Project>
 ): Promise<void> {
-  await db.projects.update(id, updates)
+  const project = await db.projects.get(id)
+  await db.projects.update(id, { ...updates, updatedAt: Date.now() })
+  if (project && updates.name !== undefined && updates.name !== project.name && !(await isLinked())) {
+    await requeueItemsReferencing((item) => item.projectId === id)
+  }
+}
+
+// Items link to project pages instead of holding the name
+async function isLinked(): Promise<boolean> {
+  return (await getSettings()).metadataSyncMode === 'relation'
+}
+
+// Point items at another project (or none)
+// push: re-push them (false when the change came from Notion)
+async function reassignItems(fromId: string, toId: string | null, push: boolean): Promise<void> {
+  if (push) {
+    await requeueItemsReferencing((item) => item.projectId === fromId, () => ({ projectId: toId }))
+  } else {
+    await db.items.where('projectId').equals(fromId).modify({ projectId: toId })
+  }
 }
 
 // Delete
-export async function deleteProject(id: string): Promise<void> {
-  // Remove project reference from items
-  await db.items.where('projectId').equals(id).modify({ projectId: null })
+// push: re-push the affected items and archive the project page (false when deleted in Notion)
+export async function deleteProject(id: string, push = true): Promise<void> {
+  const project = await db.projects.get(id)
+  if (push && project?.notionId) await queueMetadataArchive(project.notionId)
+  await reassignItems(id, null, push)
   await db.projects.delete(id)
 }
+
+// Merge: source's items move to target, then source is deleted
+export async function mergeProjects(sourceId: string, targetId: string, push = true): Promise<void> {
+  if (sourceId === targetId) return
+  const source = await db.projects.get(sourceId)
+  if (push && source?.notionId) await queueMetadataArchive(source.notionId)
+  await reassignItems(sourceId, targetId, push)
+  await db.projects.delete(sourceId)
+}
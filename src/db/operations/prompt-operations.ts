@@ -113,6 +113,8 @@ export async function deletePrompt(id: string): Promise<void> {
 
   // Remove from local DB
   await db.prompts.delete(id)
+  await db.promptSnapshots.delete(id)
+  await db.syncConflicts.where('[entityType+entityId]').equals(['prompt', id]).delete()
 
   // Remove any pending sync queue entries
   await db.promptSyncQueue.where('promptId').equals(id).delete()
@@ -130,6 +132,17 @@ export async function deletePrompt(id: string): Promise<void> {
   }
 }
 
+/**
+ * Remove a prompt that was deleted/archived in Notion
+ * Drops pending queue entries without queueing a delete back to Notion
+ */
+export async function removePromptLocally(id: string): Promise<void> {
+  await db.prompts.delete(id)
+  await db.promptSyncQueue.where('promptId').equals(id).delete()
+  await db.promptSnapshots.delete(id)
+  await db.syncConflicts.where('[entityType+entityId]').equals(['prompt', id]).delete()
+}
+
 /**
  * Toggle favorite status
  */
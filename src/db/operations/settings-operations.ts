@@ -1,5 +1,5 @@
 import { db } from '../schema'
-import type { Settings } from '@/types'
+import type { Settings, PropertyMapping } from '@/types'
 
 const SETTINGS_ID = 'app-settings'
 
@@ -13,12 +13,31 @@ export async function getSettings(): Promise<Settings> {
     id: SETTINGS_ID,
     theme: 'light',
     notionToken: null,
+    tokenLock: null,
+    notionAuthMethod: 'token',
+    oauthClientId: null,
+    oauthTokenEndpoint: null,
+    notionOAuth: null,
     notionDatabaseId: null,
     lastSyncAt: null,
+    lastPushAt: null,
     promptsDatabaseId: null,
     promptsLastSyncAt: null,
+    promptsLastPushAt: null,
+    lastReconcileAt: null,
+    promptsLastReconcileAt: null,
+    syncPausedAt: null,
+    syncPauseReason: null,
+    promptBodyAsBlocks: false,
+    propertyMappings: {},
+    metadataSyncMode: 'select',
+    categoriesDatabaseId: null,
+    projectsDatabaseId: null,
+    metadataLastSyncAt: null,
+    pendingMetadataArchives: [],
     autoSyncEnabled: true,
     autoSyncInterval: 5, // 5 minutes default
+    articleSaveMode: 'bookmark',
   }
 
   await db.settings.add(defaults)
@@ -44,7 +63,7 @@ export async function getTheme(): Promise<'light' | 'dark'> {
   return settings.theme
 }
 
-// Notion credentials
+// Notion credentials - the token is stored sealed (see services/notion/token-vault)
 export async function setNotionCredentials(
   token: string,
   databaseId: string
@@ -70,3 +89,40 @@ export async function getLastSyncAt(): Promise<number | null> {
   const settings = await getSettings()
   return settings.lastSyncAt
 }
+
+// Sync pause (auth failures)
+export async function pauseSync(reason: string): Promise<void> {
+  await updateSettings({ syncPausedAt: Date.now(), syncPauseReason: reason })
+}
+
+export async function resumeSync(): Promise<void> {
+  await updateSettings({ syncPausedAt: null, syncPauseReason: null })
+}
+
+// Property mappings (per database)
+function mappingKey(databaseId: string): string {
+  return databaseId.replace(/-/g, '').toLowerCase()
+}
+
+export function getPropertyMapping(settings: Settings, databaseId: string): PropertyMapping | null {
+  return settings.propertyMappings?.[mappingKey(databaseId)] ?? null
+}
+
+export async function savePropertyMapping(databaseId: string, mapping: PropertyMapping | null): Promise<void> {
+  const settings = await getSettings()
+  const propertyMappings = { ...settings.propertyMappings }
+  if (mapping) {
+    propertyMappings[mappingKey(databaseId)] = mapping
+  } else {
+    delete propertyMappings[mappingKey(databaseId)]
+  }
+  await updateSettings({ propertyMappings })
+}
+
+// Linked category/project databases
+export async function queueMetadataArchive(notionId: string): Promise<void> {
+  const settings = await getSettings()
+  const pending = settings.pendingMetadataArchives ?? []
+  if (pending.includes(notionId)) return
+  await updateSettings({ pendingMetadataArchives: [...pending, notionId] })
+}
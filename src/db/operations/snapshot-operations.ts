@@ -0,0 +1,28 @@
+import { db } from '../schema'
+import type { SyncSnapshot } from '@/types'
+
+// Item snapshots
+export async function getItemSnapshot(id: string): Promise<SyncSnapshot | undefined> {
+  return db.itemSnapshots.get(id)
+}
+
+export async function saveItemSnapshot(id: string, fields: Record<string, unknown>): Promise<void> {
+  await db.itemSnapshots.put({ id, fields, syncedAt: Date.now() })
+}
+
+export async function deleteItemSnapshot(id: string): Promise<void> {
+  await db.itemSnapshots.delete(id)
+}
+
+// Prompt snapshots
+export async function getPromptSnapshot(id: string): Promise<SyncSnapshot | undefined> {
+  return db.promptSnapshots.get(id)
+}
+
+export async function savePromptSnapshot(id: string, fields: Record<string, unknown>): Promise<void> {
+  await db.promptSnapshots.put({ id, fields, syncedAt: Date.now() })
+}
+
+export async function deletePromptSnapshot(id: string): Promise<void> {
+  await db.promptSnapshots.delete(id)
+}
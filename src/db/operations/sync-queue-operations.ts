@@ -1,5 +1,5 @@
 import { db } from '../schema'
-import type { SyncQueue, QueueStatus } from '@/types'
+import type { SyncQueue, QueueStatus, SyncEntityType } from '@/types'
 
 // Read
 export async function getPendingQueue(limit = 50): Promise<SyncQueue[]> {
@@ -68,3 +68,50 @@ export async function retryFailedQueue(): Promise<void> {
     .equals('failed')
     .modify({ status: 'queued', retries: 0 })
 }
+
+// Detach all local records from their previous Notion database
+// Everything is queued as a create; creates link to existing pages by LocalID instead of duplicating
+export async function relinkToNewDatabase(entityType: SyncEntityType): Promise<void> {
+  const timestamp = Date.now()
+
+  if (entityType === 'item') {
+    await db.transaction('rw', [db.items, db.syncQueue, db.itemSnapshots, db.syncConflicts], async () => {
+      await db.syncQueue.clear()
+      await db.itemSnapshots.clear()
+      await db.syncConflicts.where('entityType').equals('item').delete()
+      await db.items.toCollection().modify({ notionId: null, syncStatus: 'pending' })
+      const ids = (await db.items.toCollection().primaryKeys()) as string[]
+      await db.syncQueue.bulkAdd(
+        ids.map((itemId) => ({ itemId, operation: 'create' as const, payload: null, timestamp, retries: 0, status: 'queued' as const }))
+      )
+    })
+    return
+  }
+
+  await db.transaction('rw', [db.prompts, db.promptSyncQueue, db.promptSnapshots, db.syncConflicts], async () => {
+    await db.promptSyncQueue.clear()
+    await db.promptSnapshots.clear()
+    await db.syncConflicts.where('entityType').equals('prompt').delete()
+    await db.prompts.toCollection().modify({ notionId: null, syncStatus: 'pending' })
+    const ids = (await db.prompts.toCollection().primaryKeys()) as string[]
+    await db.promptSyncQueue.bulkAdd(
+      ids.map((promptId) => ({ promptId, operation: 'create' as const, payload: null, timestamp, retries: 0, status: 'queued' as const }))
+    )
+  })
+}
+
+// Queue an update for every pushed prompt, e.g. after the prompt text moved between property and page body
+export async function requeuePushedPrompts(): Promise<number> {
+  const timestamp = Date.now()
+
+  return db.transaction('rw', [db.prompts, db.promptSyncQueue], async () => {
+    const queued = new Set(
+      (await db.promptSyncQueue.where('status').equals('queued').toArray()).map((q) => q.promptId)
+    )
+    const ids = (await db.prompts.filter((p) => !!p.notionId && !queued.has(p.id)).primaryKeys()) as string[]
+    await db.promptSyncQueue.bulkAdd(
+      ids.map((promptId) => ({ promptId, operation: 'update' as const, payload: null, timestamp, retries: 0, status: 'queued' as const }))
+    )
+    return ids.length
+  })
+}
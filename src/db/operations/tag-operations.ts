@@ -1,6 +1,7 @@
 import { db } from '../schema'
 import type { Tag, TagFormData } from '@/types'
 import { generateId } from '@/utils/id'
+import { requeueItemsReferencing } from './item-operations'
 
 // Create
 export async function createTag(data: TagFormData): Promise<Tag> {
@@ -30,20 +31,39 @@ export async function getTagsByIds(ids: string[]): Promise<Tag[]> {
 }
 
 // Update
+// A rename re-pushes every tagged item so Notion shows the new name
 export async function updateTag(id: string, updates: Partial<Tag>): Promise<void> {
+  const tag = await db.tags.get(id)
   await db.tags.update(id, updates)
+  if (tag && updates.name !== undefined && updates.name !== tag.name) {
+    await requeueItemsReferencing((item) => item.tags.includes(id))
+  }
 }
 
 // Delete
-export async function deleteTag(id: string): Promise<void> {
-  // Remove tag from all items
-  const items = await db.items.toArray()
-  for (const item of items) {
-    if (item.tags.includes(id)) {
-      await db.items.update(item.id, {
-        tags: item.tags.filter((t) => t !== id),
-      })
-    }
+// push: re-push the affected items (false when the tag was deleted in Notion)
+export async function deleteTag(id: string, push = true): Promise<void> {
+  const withoutTag = (tags: string[]) => tags.filter((t) => t !== id)
+  if (push) {
+    await requeueItemsReferencing((item) => item.tags.includes(id), (item) => ({ tags: withoutTag(item.tags) }))
+  } else {
+    await db.items.filter((item) => item.tags.includes(id)).modify((item) => {
+      item.tags = withoutTag(item.tags)
+    })
   }
   await db.tags.delete(id)
 }
+
+// Merge: items tagged with source get target instead, then source is deleted
+export async function mergeTags(sourceId: string, targetId: string, push = true): Promise<void> {
+  if (sourceId === targetId) return
+  const replace = (tags: string[]) => [...new Set(tags.map((t) => (t === sourceId ? targetId : t)))]
+  if (push) {
+    await requeueItemsReferencing((item) => item.tags.includes(sourceId), (item) => ({ tags: replace(item.tags) }))
+  } else {
+    await db.items.filter((item) => item.tags.includes(sourceId)).modify((item) => {
+      item.tags = replace(item.tags)
+    })
+  }
+  await db.tags.delete(sourceId)
+}
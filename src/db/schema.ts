@@ -1,8 +1,9 @@
 import Dexie, { type EntityTable } from 'dexie'
-import type { Item, Category, Project, Tag, SyncQueue, Settings, Prompt, PromptSyncQueue } from '@/types'
+import { normalizeUrl } from '@/utils/url-normalize'
+import type { Item, Category, Project, Tag, SyncQueue, Settings, Prompt, PromptSyncQueue, SyncSnapshot, SyncConflict, SyncJournalEntry, StoredCryptoKey } from '@/types'
 
-// Database class with typed tables
-const db = new Dexie('NotionEXDB') as Dexie & {
+// Database with typed tables
+export type NotionEXDatabase = Dexie & {
   items: EntityTable<Item, 'id'>
   categories: EntityTable<Category, 'id'>
   projects: EntityTable<Project, 'id'>
@@ -12,30 +13,167 @@ const db = new Dexie('NotionEXDB') as Dexie & {
   // Prompt Library tables
   prompts: EntityTable<Prompt, 'id'>
   promptSyncQueue: EntityTable<PromptSyncQueue, 'id'>
+  // Last-synced base snapshots for three-way merge
+  itemSnapshots: EntityTable<SyncSnapshot, 'id'>
+  promptSnapshots: EntityTable<SyncSnapshot, 'id'>
+  // Unresolved conflicts awaiting user review
+  syncConflicts: EntityTable<SyncConflict, 'id'>
+  // Sync run history for the journal tab
+  syncJournal: EntityTable<SyncJournalEntry, 'id'>
+  // Device key that seals the Notion token
+  cryptoKeys: EntityTable<StoredCryptoKey, 'id'>
 }
 
-// Define schema with indexes
-// &id = unique primary key
-// ++id = auto-increment
-db.version(1).stores({
-  items: '&id, type, categoryId, projectId, completed, syncStatus, updatedAt, notionId',
-  categories: '&id, parentId, order, notionId',
-  projects: '&id, notionId',
-  tags: '&id, notionId',
-  syncQueue: '++id, itemId, status, timestamp',
-  settings: '&id',
-})
-
-// Version 2: Add Prompt Library tables
-db.version(2).stores({
-  items: '&id, type, categoryId, projectId, completed, syncStatus, updatedAt, notionId',
-  categories: '&id, parentId, order, notionId',
-  projects: '&id, notionId',
-  tags: '&id, notionId',
-  syncQueue: '++id, itemId, status, timestamp',
-  settings: '&id',
-  prompts: '&id, type, category, approved, favorite, syncStatus, updatedAt, notionId',
-  promptSyncQueue: '++id, promptId, status, timestamp',
-})
+const DATABASE_NAME = 'NotionEXDB'
+export const DEFAULT_PROFILE_ID = 'default'
+
+/**
+ * Each profile keeps its data in its own IndexedDB database
+ * The default profile keeps the original name, so data from before profiles stays in it
+ */
+export function getDatabaseName(profileId: string): string {
+  return profileId === DEFAULT_PROFILE_ID ? DATABASE_NAME : `${DATABASE_NAME}-${profileId}`
+}
+
+function createDatabase(name: string): NotionEXDatabase {
+  const database = new Dexie(name) as NotionEXDatabase
+
+  // Define schema with indexes
+  // &id = unique primary key
+  // ++id = auto-increment
+  database.version(1).stores({
+    items: '&id, type, categoryId, projectId, completed, syncStatus, updatedAt, notionId',
+    categories: '&id, parentId, order, notionId',
+    projects: '&id, notionId',
+    tags: '&id, notionId',
+    syncQueue: '++id, itemId, status, timestamp',
+    settings: '&id',
+  })
+
+  // Version 2: Add Prompt Library tables
+  database.version(2).stores({
+    items: '&id, type, categoryId, projectId, completed, syncStatus, updatedAt, notionId',
+    categories: '&id, parentId, order, notionId',
+    projects: '&id, notionId',
+    tags: '&id, notionId',
+    syncQueue: '++id, itemId, status, timestamp',
+    settings: '&id',
+    prompts: '&id, type, category, approved, favorite, syncStatus, updatedAt, notionId',
+    promptSyncQueue: '++id, promptId, status, timestamp',
+  })
+
+  // Version 3: Add base snapshots for field-level merge
+  database.version(3).stores({
+    items: '&id, type, categoryId, projectId, completed, syncStatus, updatedAt, notionId',
+    categories: '&id, parentId, order, notionId',
+    projects: '&id, notionId',
+    tags: '&id, notionId',
+    syncQueue: '++id, itemId, status, timestamp',
+    settings: '&id',
+    prompts: '&id, type, category, approved, favorite, syncStatus, updatedAt, notionId',
+    promptSyncQueue: '++id, promptId, status, timestamp',
+    itemSnapshots: '&id',
+    promptSnapshots: '&id',
+  })
+
+  // Version 4: Add conflict inbox
+  database.version(4).stores({
+    items: '&id, type, categoryId, projectId, completed, syncStatus, updatedAt, notionId',
+    categories: '&id, parentId, order, notionId',
+    projects: '&id, notionId',
+    tags: '&id, notionId',
+    syncQueue: '++id, itemId, status, timestamp',
+    settings: '&id',
+    prompts: '&id, type, category, approved, favorite, syncStatus, updatedAt, notionId',
+    promptSyncQueue: '++id, promptId, status, timestamp',
+    itemSnapshots: '&id',
+    promptSnapshots: '&id',
+    syncConflicts: '++id, &[entityType+entityId], entityType, createdAt',
+  })
+
+  // Version 5: Add sync journal
+  database.version(5).stores({
+    items: '&id, type, categoryId, projectId, completed, syncStatus, updatedAt, notionId',
+    categories: '&id, parentId, order, notionId',
+    projects: '&id, notionId',
+    tags: '&id, notionId',
+    syncQueue: '++id, itemId, status, timestamp',
+    settings: '&id',
+    prompts: '&id, type, category, approved, favorite, syncStatus, updatedAt, notionId',
+    promptSyncQueue: '++id, promptId, status, timestamp',
+    itemSnapshots: '&id',
+    promptSnapshots: '&id',
+    syncConflicts: '++id, &[entityType+entityId], entityType, createdAt',
+    syncJournal: '++id, trigger, startedAt',
+  })
+
+  // Version 6: Add crypto key storage for the sealed token
+  database.version(6).stores({
+    items: '&id, type, categoryId, projectId, completed, syncStatus, updatedAt, notionId',
+    categories: '&id, parentId, order, notionId',
+    projects: '&id, notionId',
+    tags: '&id, notionId',
+    syncQueue: '++id, itemId, status, timestamp',
+    settings: '&id',
+    prompts: '&id, type, category, approved, favorite, syncStatus, updatedAt, notionId',
+    promptSyncQueue: '++id, promptId, status, timestamp',
+    itemSnapshots: '&id',
+    promptSnapshots: '&id',
+    syncConflicts: '++id, &[entityType+entityId], entityType, createdAt',
+    syncJournal: '++id, trigger, startedAt',
+    cryptoKeys: '&id',
+  })
+
+  // Version 7: Index normalized URLs for duplicate detection
+  database.version(7).stores({
+    items: '&id, type, categoryId, projectId, completed, syncStatus, updatedAt, notionId, normalizedUrl',
+    categories: '&id, parentId, order, notionId',
+    projects: '&id, notionId',
+    tags: '&id, notionId',
+    syncQueue: '++id, itemId, status, timestamp',
+    settings: '&id',
+    prompts: '&id, type, category, approved, favorite, syncStatus, updatedAt, notionId',
+    promptSyncQueue: '++id, promptId, status, timestamp',
+    itemSnapshots: '&id',
+    promptSnapshots: '&id',
+    syncConflicts: '++id, &[entityType+entityId], entityType, createdAt',
+    syncJournal: '++id, trigger, startedAt',
+    cryptoKeys: '&id',
+  }).upgrade((tx) =>
+    tx.table<Item, string>('items').toCollection().modify((item) => {
+      item.normalizedUrl = normalizeUrl(item.url)
+    })
+  )
+
+  // Every write that changes a URL keeps its key in step - sync merges and conflict
+  // resolution included. A key set explicitly (e.g. from a canonical link) is kept,
+  // also through writes that pass the URL along without really changing it.
+  database.items.hook('creating', (_key, item) => {
+    if (item.normalizedUrl === undefined) item.normalizedUrl = normalizeUrl(item.url)
+  })
+  database.items.hook('updating', (changes, _key, item) => {
+    const updates = changes as Partial<Item>
+    if (!('url' in updates) || 'normalizedUrl' in updates) return undefined
+    const normalizedUrl = normalizeUrl(updates.url)
+    if (normalizedUrl === normalizeUrl(item.url)) return undefined
+    return { normalizedUrl }
+  })
+
+  return database
+}
+
+// Database of the active profile - reassigned by openProfileDatabase, importers see the swap
+let db = createDatabase(getDatabaseName(DEFAULT_PROFILE_ID))
+
+/**
+ * Point every module at a profile's database
+ * Called once the active profile is known, and again when it changes
+ */
+export function openProfileDatabase(profileId: string): void {
+  const name = getDatabaseName(profileId)
+  if (db.name === name) return
+  db.close()
+  db = createDatabase(name)
+}
 
 export { db }
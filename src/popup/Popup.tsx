@@ -1,47 +1,80 @@
-import { useState, useEffect } from 'react'
-import { PanelLeft, RefreshCw, Settings, CheckCircle, Clock } from 'lucide-react'
+import { useState, useEffect, useCallback } from 'react'
+import { PanelLeft, RefreshCw, Settings, CheckCircle, Clock, AlertCircle } from 'lucide-react'
 import { I18nextProvider } from 'react-i18next'
 import { useTranslation } from 'react-i18next'
 import i18n, { initI18n } from '@/i18n'
 import { ThemeProvider } from '@/stores/theme-context'
 import { Button } from '@/components/shared'
+import { SyncProgressBar } from '@/components/features/sync-progress-bar'
+import { QuickCapture } from '@/components/features/quick-capture'
+import { useSyncProgress } from '@/stores/sync-progress'
+import { activateStoredProfile } from '@/db/operations/profile-operations'
+import { getSettings } from '@/db/operations/settings-operations'
+import { getQueueCount } from '@/db/operations/sync-queue-operations'
+import { openSidePanel } from '@/utils/side-panel'
 
 function PopupContent() {
   const { t } = useTranslation()
   const [syncing, setSyncing] = useState(false)
   const [lastSync, setLastSync] = useState<Date | null>(null)
   const [pendingCount, setPendingCount] = useState(0)
+  const [failedCount, setFailedCount] = useState(0)
+  const [syncMessage, setSyncMessage] = useState<{ text: string; isError: boolean } | null>(null)
+  const { progress, cancel } = useSyncProgress()
 
-  useEffect(() => {
-    // Load sync status - placeholder
-    setLastSync(new Date())
-    setPendingCount(0)
+  const loadStatus = useCallback(async () => {
+    const [settings, queue] = await Promise.all([getSettings(), getQueueCount()])
+    // Newest of the item and prompt pulls and pushes
+    const syncedAt = Math.max(
+      settings.lastSyncAt ?? 0,
+      settings.lastPushAt ?? 0,
+      settings.promptsLastSyncAt ?? 0,
+      settings.promptsLastPushAt ?? 0
+    )
+    setLastSync(syncedAt > 0 ? new Date(syncedAt) : null)
+    setPendingCount(queue.queued + queue.syncing)
+    setFailedCount(queue.failed)
   }, [])
 
-  const openSidePanel = async () => {
-    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
-    if (tab?.windowId) {
-      await chrome.sidePanel.open({ windowId: tab.windowId })
-      window.close()
-    }
-  }
+  useEffect(() => {
+    loadStatus()
+  }, [loadStatus])
+
+  // Background syncs started elsewhere change the counts when they finish
+  useEffect(() => {
+    if (!progress.running) loadStatus()
+  }, [progress.running, loadStatus])
 
-  const handleSync = () => {
+  const handleSync = async () => {
     setSyncing(true)
-    // Placeholder - will be implemented in Phase 5
-    setTimeout(() => {
+    setSyncMessage(null)
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'SYNC_NOW' })
+      if (response?.success) {
+        const { errors } = response.result
+        setSyncMessage(errors.length > 0
+          ? { text: t('popup.syncErrors', { count: errors.length }), isError: true }
+          : { text: t('popup.syncDone'), isError: false })
+      } else {
+        setSyncMessage({ text: response?.locked ? t('popup.locked') : response?.error || t('popup.syncFailed'), isError: true })
+      }
+    } catch (error) {
+      console.error('Sync error:', error)
+      setSyncMessage({ text: t('popup.syncFailed'), isError: true })
+    } finally {
       setSyncing(false)
-      setLastSync(new Date())
-    }, 2000)
+      loadStatus()
+    }
+  }
+
+  const openSidebar = async () => {
+    await openSidePanel()
+    window.close()
   }
 
   const openSettings = async () => {
-    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
-    if (tab?.windowId) {
-      await chrome.sidePanel.open({ windowId: tab.windowId })
-      // TODO: Navigate to settings tab
-      window.close()
-    }
+    await openSidePanel({ footerTab: 'settings' })
+    window.close()
   }
 
   const formatLastSync = () => {
@@ -74,17 +107,31 @@ function PopupContent() {
               <span>{t('common.synced')}</span>
             </>
           )}
+          {failedCount > 0 && (
+            <span className="flex items-center gap-0.5 text-error">
+              <AlertCircle className="w-3 h-3" />
+              {t('popup.failedCount', { count: failedCount })}
+            </span>
+          )}
         </div>
         <span className="text-[var(--text-secondary)]">{formatLastSync()}</span>
       </div>
 
+      {/* Background sync progress */}
+      <SyncProgressBar progress={progress} onCancel={cancel} />
+
+      {/* Quick capture */}
+      <div className="p-3 border-b border-[var(--border-color)]">
+        <QuickCapture onSaved={loadStatus} />
+      </div>
+
       {/* Actions */}
       <div className="p-3 space-y-2">
         <Button
-          variant="primary"
+          variant="secondary"
           fullWidth
           icon={<PanelLeft className="w-4 h-4" />}
-          onClick={openSidePanel}
+          onClick={openSidebar}
         >
           {t('popup.openSidebar')}
         </Button>
@@ -94,9 +141,15 @@ function PopupContent() {
           icon={<RefreshCw className={`w-4 h-4 ${syncing ? 'animate-spin' : ''}`} />}
           onClick={handleSync}
           loading={syncing}
+          disabled={progress.running}
         >
-          {syncing ? t('header.syncing') : t('popup.syncNow')}
+          {syncing || progress.running ? t('header.syncing') : t('popup.syncNow')}
         </Button>
+        {syncMessage && (
+          <p className={`text-xs text-center ${syncMessage.isError ? 'text-error' : 'text-success'}`}>
+            {syncMessage.text}
+          </p>
+        )}
       </div>
 
       {/* Footer */}
@@ -118,7 +171,7 @@ export default function Popup() {
   const [i18nReady, setI18nReady] = useState(false)
 
   useEffect(() => {
-    initI18n().then(() => setI18nReady(true))
+    Promise.all([initI18n(), activateStoredProfile()]).then(() => setI18nReady(true))
   }, [])
 
   if (!i18nReady) {
@@ -3,26 +3,42 @@
  * Uses fetch API (no external SDK needed for simple operations)
  */
 
-import { rateLimiter } from './rate-limiter'
+import { rateLimiter, type ScheduleOptions } from './rate-limiter'
 import { getSettings } from '@/db/operations/settings-operations'
+import { usesOAuth, isAccessTokenExpiring, refreshAccessToken } from './oauth'
+import { isCredentialHost, openSecret } from './token-vault'
+import type { NotionBlock, NotionBlockInput } from './block-converter'
 
 const NOTION_API_BASE = 'https://api.notion.com/v1'
 const NOTION_VERSION = '2022-06-28'
+// Notion API limit: 100 blocks per create/append request
+const BLOCKS_PER_REQUEST = 100
+
+// Port extension pages forward their requests over
+export const NOTION_RELAY_PORT = 'notion-requests'
 
 interface NotionProperty {
   type: string
   [key: string]: unknown
 }
 
-interface NotionPage {
+export interface NotionPage {
   id: string
   created_time: string
   last_edited_time: string
   archived: boolean
   properties: Record<string, NotionProperty>
+  icon?: { type: string; emoji?: string } | null
 }
 
-interface NotionResponse<T> {
+export interface NotionDatabase {
+  id: string
+  title: { plain_text?: string }[]
+  parent?: { type: string; page_id?: string }
+  properties: Record<string, NotionProperty & { id: string; name: string }>
+}
+
+export interface NotionResponse<T> {
   object: string
   results?: T[]
   next_cursor?: string | null
@@ -36,26 +52,93 @@ export interface NotionError {
   headers?: Record<string, string>
 }
 
+// Request forwarded from an extension page to the service worker
+export interface RelayedRequest {
+  endpoint: string
+  method?: string
+  body?: string
+}
+
+export type RelayedResponse =
+  | { success: true; result: unknown }
+  | { success: false; error: unknown }
+
+type RelayMessage = { id: number; request: RelayedRequest } | { id: number; abort: true }
+
+// Page side of the relay: one port per page, answers matched by request id
+let relayPort: chrome.runtime.Port | null = null
+let nextRelayId = 1
+const pendingRelays = new Map<number, (response: RelayedResponse) => void>()
+
+function getRelayPort(): chrome.runtime.Port {
+  if (relayPort) return relayPort
+
+  const port = chrome.runtime.connect({ name: NOTION_RELAY_PORT })
+  port.onMessage.addListener((message: { id: number; response: RelayedResponse }) => {
+    pendingRelays.get(message.id)?.(message.response)
+    pendingRelays.delete(message.id)
+  })
+  port.onDisconnect.addListener(() => {
+    relayPort = null
+    for (const settle of pendingRelays.values()) {
+      settle({ success: false, error: { message: 'The background service stopped' } })
+    }
+    pendingRelays.clear()
+  })
+
+  relayPort = port
+  return port
+}
+
+/**
+ * Shared by every synced database - each call names the database it targets
+ */
 class NotionApiClient {
-  private async getCredentials() {
+  // Lane and cancellation for every request made through this client
+  constructor(private readonly options: Partial<ScheduleOptions> = {}) {}
+
+  /**
+   * Client whose requests use another lane or abort signal
+   */
+  scoped(options: Partial<ScheduleOptions>): NotionApiClient {
+    return new NotionApiClient({ ...this.options, ...options })
+  }
+
+  /**
+   * Queue a request behind the rate limiter
+   * Unscoped requests in the worker are sync reads; pages only forward, the worker queues them
+   */
+  private schedule<T>(fn: () => Promise<T>): Promise<T> {
+    if (!isCredentialHost()) return fn()
+    return rateLimiter.execute(fn, { priority: this.options.priority ?? 'pull', signal: this.options.signal })
+  }
+
+  /**
+   * Token for the next request
+   * OAuth tokens are refreshed before they expire, or right away with forceRefresh;
+   * a revoked grant throws a 401-shaped error so sync pauses instead of retrying
+   */
+  private async getCredentials(forceRefresh = false): Promise<{ token: string; canRefresh: boolean }> {
     const settings = await getSettings()
-    if (!settings.notionToken || !settings.notionDatabaseId) {
+    if (!settings.notionToken) {
       throw new Error('Notion credentials not configured')
     }
-    return {
-      token: settings.notionToken,
-      databaseId: settings.notionDatabaseId,
+    const token = await openSecret(settings.notionToken)
+    if (!usesOAuth(settings)) {
+      return { token, canRefresh: false }
     }
-  }
 
-  private async request<T>(
-    endpoint: string,
-    options: RequestInit = {}
-  ): Promise<T> {
-    const { token } = await this.getCredentials()
+    const grant = settings.notionOAuth!
+    if (forceRefresh || isAccessTokenExpiring(grant)) {
+      return { token: await refreshAccessToken(), canRefresh: false }
+    }
+    return { token, canRefresh: !!grant.refreshToken }
+  }
 
-    const response = await fetch(`${NOTION_API_BASE}${endpoint}`, {
+  private send(endpoint: string, options: RequestInit, token: string): Promise<Response> {
+    return fetch(`${NOTION_API_BASE}${endpoint}`, {
       ...options,
+      signal: this.options.signal,
       headers: {
         Authorization: `Bearer ${token}`,
         'Notion-Version': NOTION_VERSION,
@@ -63,6 +146,25 @@ class NotionApiClient {
         ...options.headers,
       },
     })
+  }
+
+  private async request<T>(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<T> {
+    // Extension pages never hold the token - the service worker sends the request for them
+    if (!isCredentialHost()) {
+      return this.forward<T>({ endpoint, method: options.method, body: options.body as string | undefined })
+    }
+
+    const credentials = await this.getCredentials()
+    let response = await this.send(endpoint, options, credentials.token)
+
+    // An OAuth token can be rejected before its expiry - refresh once and retry
+    if (response.status === 401 && credentials.canRefresh) {
+      const refreshed = await this.getCredentials(true)
+      response = await this.send(endpoint, options, refreshed.token)
+    }
 
     if (!response.ok) {
       const error: NotionError = {
@@ -86,16 +188,55 @@ class NotionApiClient {
     return response.json()
   }
 
+  private forward<T>(request: RelayedRequest): Promise<T> {
+    const { signal } = this.options
+    if (signal?.aborted) return Promise.reject(signal.reason)
+
+    const port = getRelayPort()
+    const id = nextRelayId++
+
+    return new Promise<T>((resolve, reject) => {
+      // Give up at once and let the worker drop the request
+      const onAbort = () => {
+        pendingRelays.delete(id)
+        port.postMessage({ id, abort: true } satisfies RelayMessage)
+        reject(signal!.reason)
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+
+      pendingRelays.set(id, (response) => {
+        signal?.removeEventListener('abort', onAbort)
+        // Errors arrive as plain objects with a message, like NotionError
+        if (response.success) resolve(response.result as T)
+        else reject(response.error)
+      })
+      port.postMessage({ id, request } satisfies RelayMessage)
+    })
+  }
+
+  /**
+   * Service worker side of a request forwarded by an extension page
+   */
+  async relay(request: RelayedRequest): Promise<RelayedResponse> {
+    try {
+      const result = await this.schedule(() =>
+        this.request(request.endpoint, { method: request.method, body: request.body })
+      )
+      return { success: true, result }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? { name: error.name, message: error.message } : error }
+    }
+  }
+
   /**
    * Query database for all items
    */
   async queryDatabase(
+    databaseId: string,
     filter?: Record<string, unknown>,
     startCursor?: string
   ): Promise<NotionResponse<NotionPage>> {
-    const { databaseId } = await this.getCredentials()
-
-    return rateLimiter.execute(() =>
+    return this.schedule(() =>
       this.request<NotionResponse<NotionPage>>(`/databases/${databaseId}/query`, {
         method: 'POST',
         body: JSON.stringify({
@@ -110,17 +251,23 @@ class NotionApiClient {
   /**
    * Get all pages from database (handles pagination)
    * @param filter Optional filter object
+   * @param onFetched Called with the running page count after each batch
    */
-  async getAllPages(filter?: Record<string, unknown>): Promise<NotionPage[]> {
+  async getAllPages(
+    databaseId: string,
+    filter?: Record<string, unknown>,
+    onFetched?: (count: number) => void
+  ): Promise<NotionPage[]> {
     const allPages: NotionPage[] = []
     let hasMore = true
     let startCursor: string | undefined
 
     while (hasMore) {
-      const response = await this.queryDatabase(filter, startCursor)
+      const response = await this.queryDatabase(databaseId, filter, startCursor)
       if (response.results) {
         allPages.push(...response.results)
       }
+      onFetched?.(allPages.length)
       hasMore = response.has_more || false
       startCursor = response.next_cursor || undefined
     }
@@ -133,32 +280,72 @@ class NotionApiClient {
    * Uses Notion's last_edited_time filter for efficient incremental sync
    * @param lastSyncAt Timestamp in milliseconds
    */
-  async getModifiedPagesSince(lastSyncAt: number): Promise<NotionPage[]> {
-    const isoDate = new Date(lastSyncAt).toISOString()
+  async getModifiedPagesSince(
+    databaseId: string,
+    lastSyncAt: number,
+    onFetched?: (count: number) => void
+  ): Promise<NotionPage[]> {
+    // Edit times are rounded down to the minute - look back one so edits in that minute aren't missed
+    const isoDate = new Date(lastSyncAt - 60_000).toISOString()
     const filter = {
       timestamp: 'last_edited_time',
       last_edited_time: {
         after: isoDate,
       },
     }
-    return this.getAllPages(filter)
+    return this.getAllPages(databaseId, filter, onFetched)
   }
 
   /**
-   * Create a new page in the database
+   * Get IDs of every live page in the database (deletion reconciliation)
+   * Only the title property is requested to keep responses small
    */
-  async createPage(properties: Record<string, unknown>): Promise<NotionPage> {
-    const { databaseId } = await this.getCredentials()
+  async getAllPageIds(databaseId: string): Promise<Set<string>> {
+    const ids = new Set<string>()
+    let hasMore = true
+    let startCursor: string | undefined
 
-    return rateLimiter.execute(() =>
+    while (hasMore) {
+      const response = await this.schedule(() =>
+        this.request<NotionResponse<NotionPage>>(`/databases/${databaseId}/query?filter_properties=title`, {
+          method: 'POST',
+          body: JSON.stringify({
+            start_cursor: startCursor,
+            page_size: 100,
+          }),
+        })
+      )
+      for (const page of response.results || []) {
+        if (!page.archived) ids.add(page.id)
+      }
+      hasMore = response.has_more || false
+      startCursor = response.next_cursor || undefined
+    }
+
+    return ids
+  }
+
+  /**
+   * Create a new page in the database
+   * Body blocks beyond the per-request limit are appended afterwards
+   */
+  async createPage(
+    databaseId: string,
+    properties: Record<string, unknown>,
+    children: NotionBlockInput[] = []
+  ): Promise<NotionPage> {
+    const page = await this.schedule(() =>
       this.request<NotionPage>('/pages', {
         method: 'POST',
         body: JSON.stringify({
           parent: { database_id: databaseId },
           properties,
+          children: children.slice(0, BLOCKS_PER_REQUEST),
         }),
       })
     )
+    await this.appendBlockChildren(page.id, children.slice(BLOCKS_PER_REQUEST))
+    return page
   }
 
   /**
@@ -168,7 +355,7 @@ class NotionApiClient {
     pageId: string,
     properties: Record<string, unknown>
   ): Promise<NotionPage> {
-    return rateLimiter.execute(() =>
+    return this.schedule(() =>
       this.request<NotionPage>(`/pages/${pageId}`, {
         method: 'PATCH',
         body: JSON.stringify({ properties }),
@@ -180,7 +367,7 @@ class NotionApiClient {
    * Archive (soft delete) a page
    */
   async archivePage(pageId: string): Promise<NotionPage> {
-    return rateLimiter.execute(() =>
+    return this.schedule(() =>
       this.request<NotionPage>(`/pages/${pageId}`, {
         method: 'PATCH',
         body: JSON.stringify({ archived: true }),
@@ -189,12 +376,135 @@ class NotionApiClient {
   }
 
   /**
-   * Test connection to Notion API
+   * Get all top-level blocks of a page (handles pagination)
    */
-  async testConnection(): Promise<boolean> {
+  async getBlockChildren(blockId: string): Promise<NotionBlock[]> {
+    const blocks: NotionBlock[] = []
+    let hasMore = true
+    let startCursor: string | undefined
+
+    while (hasMore) {
+      const params = new URLSearchParams({ page_size: '100' })
+      if (startCursor) params.set('start_cursor', startCursor)
+      const response = await this.schedule(() =>
+        this.request<NotionResponse<NotionBlock>>(`/blocks/${blockId}/children?${params}`)
+      )
+      blocks.push(...(response.results || []))
+      hasMore = response.has_more || false
+      startCursor = response.next_cursor || undefined
+    }
+
+    return blocks
+  }
+
+  /**
+   * Append blocks to a page, in batches of the per-request limit
+   */
+  async appendBlockChildren(blockId: string, children: NotionBlockInput[]): Promise<void> {
+    for (let i = 0; i < children.length; i += BLOCKS_PER_REQUEST) {
+      const batch = children.slice(i, i + BLOCKS_PER_REQUEST)
+      await this.schedule(() =>
+        this.request(`/blocks/${blockId}/children`, {
+          method: 'PATCH',
+          body: JSON.stringify({ children: batch }),
+        })
+      )
+    }
+  }
+
+  /**
+   * Delete (archive) a block
+   */
+  async deleteBlock(blockId: string): Promise<void> {
+    await this.schedule(() =>
+      this.request(`/blocks/${blockId}`, { method: 'DELETE' })
+    )
+  }
+
+  /**
+   * Search pages shared with the integration by title
+   */
+  async searchPages(query: string): Promise<NotionPage[]> {
+    const response = await this.schedule(() =>
+      this.request<NotionResponse<NotionPage>>('/search', {
+        method: 'POST',
+        body: JSON.stringify({
+          query,
+          filter: { property: 'object', value: 'page' },
+          page_size: 20,
+        }),
+      })
+    )
+    return response.results || []
+  }
+
+  /**
+   * List databases shared with the integration, optionally filtered by title
+   */
+  async searchDatabases(query = ''): Promise<NotionDatabase[]> {
+    const response = await this.schedule(() =>
+      this.request<NotionResponse<NotionDatabase>>('/search', {
+        method: 'POST',
+        body: JSON.stringify({
+          query,
+          filter: { property: 'object', value: 'database' },
+          page_size: 50,
+        }),
+      })
+    )
+    return response.results || []
+  }
+
+  /**
+   * Create a database under a parent page
+   */
+  async createDatabase(
+    parentPageId: string,
+    title: string,
+    properties: Record<string, unknown>
+  ): Promise<NotionDatabase> {
+    return this.schedule(() =>
+      this.request<NotionDatabase>('/databases', {
+        method: 'POST',
+        body: JSON.stringify({
+          parent: { type: 'page_id', page_id: parentPageId },
+          title: [{ type: 'text', text: { content: title } }],
+          properties,
+        }),
+      })
+    )
+  }
+
+  /**
+   * Retrieve a database with its property schema
+   */
+  async getDatabase(databaseId: string): Promise<NotionDatabase> {
+    return this.schedule(() =>
+      this.request<NotionDatabase>(`/databases/${databaseId}`)
+    )
+  }
+
+  /**
+   * Add or rename database properties
+   */
+  async updateDatabaseProperties(
+    databaseId: string,
+    properties: Record<string, unknown>
+  ): Promise<NotionDatabase> {
+    return this.schedule(() =>
+      this.request<NotionDatabase>(`/databases/${databaseId}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ properties }),
+      })
+    )
+  }
+
+  /**
+   * Test connection to a database
+   */
+  async testConnection(databaseId: string): Promise<boolean> {
     try {
-      const { databaseId } = await this.getCredentials()
-      await rateLimiter.execute(() =>
+      await this.schedule(() =>
         this.request(`/databases/${databaseId}`)
       )
       return true
@@ -206,3 +516,34 @@ class NotionApiClient {
 
 // Singleton instance
 export const notionClient = new NotionApiClient()
+
+// The shared client or one scoped to a run's lane and cancel signal
+export type NotionClient = NotionApiClient
+
+/**
+ * Serve the requests an extension page forwards over its port
+ * Page requests run in the interactive lane; closing the page aborts what it still has pending
+ */
+export function serveRelayPort(port: chrome.runtime.Port, ready: () => Promise<void>): void {
+  const controllers = new Map<number, AbortController>()
+
+  port.onMessage.addListener(async (message: RelayMessage) => {
+    if ('abort' in message) {
+      controllers.get(message.id)?.abort()
+      return
+    }
+
+    const controller = new AbortController()
+    controllers.set(message.id, controller)
+    await ready()
+    const client = notionClient.scoped({ priority: 'interactive', signal: controller.signal })
+    const response = await client.relay(message.request)
+    controllers.delete(message.id)
+    if (!controller.signal.aborted) port.postMessage({ id: message.id, response })
+  })
+
+  port.onDisconnect.addListener(() => {
+    for (const controller of controllers.values()) controller.abort()
+    controllers.clear()
+  })
+}
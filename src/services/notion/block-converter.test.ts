@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { contentToBlocks, roundTripContent } from './block-converter'
+
+describe('block converter', () => {
+  it('reads back text written by Notion users unchanged', () => {
+    const content = [
+      '# Notes',
+      '2*3*4 = 24, price [USD], __init__ and snake_case',
+      '- **bold** with _italic_ and [a link](https://example.com)',
+      '1. first',
+      '2. second',
+      '- [x] done',
+      '> quoted',
+      '```javascript',
+      'const a = `b` * 2',
+      '```',
+      '---',
+      '![caption](https://example.com/a.png)',
+      '',
+      'end',
+    ].join('\n')
+    expect(roundTripContent(content)).toBe(content)
+  })
+
+  it('normalizes spellings Notion does not keep', () => {
+    expect(roundTripContent('* star\n* [ ] task\n```js\nx\n```')).toBe('- star\n- [ ] task\n```javascript\nx\n```')
+    expect(roundTripContent('3. three')).toBe('1. three')
+  })
+
+  it('round trips what it has normalized', () => {
+    const once = roundTripContent('* a_b_ **c**d\n5. x\n\\# literal')
+    expect(roundTripContent(once)).toBe(once)
+  })
+
+  it('writes one block per line', () => {
+    expect(contentToBlocks('a\n\nb').map((b) => b.type)).toEqual(['paragraph', 'paragraph', 'paragraph'])
+  })
+
+  it('keeps rich text within the 100 elements Notion accepts', () => {
+    const [styled] = contentToBlocks(Array.from({ length: 150 }, (_, i) => `**${i}** `).join(''))
+    expect((styled.paragraph as { rich_text: unknown[] }).rich_text).toHaveLength(100)
+    const [code] = contentToBlocks(['```', 'x'.repeat(250_000), '```'].join('\n'))
+    expect((code.code as { rich_text: unknown[] }).rich_text).toHaveLength(100)
+  })
+})
@@ -0,0 +1,198 @@
+/**
+ * Convert between local body text and Notion page content blocks
+ *
+ * Local bodies are Markdown (see utils/markdown): each line becomes one block
+ * - "# ", "## ", "### "  → heading_1 / heading_2 / heading_3
+ * - "- " or "* "         → bulleted_list_item
+ * - "1. "                → numbered_list_item
+ * - "- [ ] " / "- [x] "  → to_do
+ * - "> "                 → quote
+ * - "```lang" … "```"    → code
+ * - "---"                → divider
+ * - "![caption](url)"    → image (external; images uploaded to Notion stay there)
+ * - anything else        → paragraph (blank lines kept as empty paragraphs)
+ * Inline formatting maps to rich_text annotations and links
+ */
+
+import { parseMarkdownBlocks, formatMarkdownBlocks, type MarkdownBlock, type MarkdownBlockType } from '@/utils/markdown'
+import {
+  markdownToRichText,
+  plainTextToRichText,
+  richTextToMarkdown,
+  richTextToPlainText,
+  toReturnedRichText,
+  type NotionRichText,
+  type RichTextInput,
+} from './rich-text'
+
+// Languages accepted by Notion code blocks (subset - others fall back to plain text)
+const CODE_LANGUAGES = new Set([
+  'bash', 'c', 'c#', 'c++', 'css', 'diff', 'docker', 'go', 'graphql', 'html', 'java',
+  'javascript', 'json', 'kotlin', 'markdown', 'php', 'plain text', 'python', 'ruby',
+  'rust', 'shell', 'sql', 'swift', 'typescript', 'xml', 'yaml',
+])
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: 'javascript',
+  ts: 'typescript',
+  py: 'python',
+  sh: 'shell',
+  yml: 'yaml',
+  md: 'markdown',
+}
+
+// Block types with a rich_text body that map one-to-one
+const TEXT_BLOCK_TYPES = new Set<MarkdownBlockType>([
+  'paragraph',
+  'heading_1',
+  'heading_2',
+  'heading_3',
+  'bulleted_list_item',
+  'numbered_list_item',
+  'quote',
+])
+
+// Block shape sent to the API
+export interface NotionBlockInput {
+  object: 'block'
+  type: string
+  [key: string]: unknown
+}
+
+// Block shape returned by the API (only the fields read here)
+export interface NotionBlock {
+  id: string
+  type: string
+  has_children?: boolean
+  [key: string]: unknown
+}
+
+function toNotionLanguage(language: string | undefined): string {
+  if (!language) return 'plain text'
+  const normalized = LANGUAGE_ALIASES[language.toLowerCase()] ?? language.toLowerCase()
+  return CODE_LANGUAGES.has(normalized) ? normalized : 'plain text'
+}
+
+function toNotionBlock(block: MarkdownBlock): NotionBlockInput {
+  switch (block.type) {
+    case 'code':
+      return {
+        object: 'block',
+        type: 'code',
+        code: { rich_text: plainTextToRichText(block.text), language: toNotionLanguage(block.language) },
+      }
+    case 'to_do':
+      return {
+        object: 'block',
+        type: 'to_do',
+        to_do: { rich_text: markdownToRichText(block.text), checked: !!block.checked },
+      }
+    case 'divider':
+      return { object: 'block', type: 'divider', divider: {} }
+    case 'image':
+      return {
+        object: 'block',
+        type: 'image',
+        image: { type: 'external', external: { url: block.url }, caption: markdownToRichText(block.text) },
+      }
+    default:
+      return { object: 'block', type: block.type, [block.type]: { rich_text: markdownToRichText(block.text) } }
+  }
+}
+
+function getRichText(block: NotionBlock): NotionRichText[] {
+  return (block[block.type] as { rich_text?: NotionRichText[] } | undefined)?.rich_text ?? []
+}
+
+function fromNotionBlock(block: NotionBlock): MarkdownBlock | null {
+  const type = block.type as MarkdownBlockType
+
+  if (TEXT_BLOCK_TYPES.has(type)) {
+    return { type, text: richTextToMarkdown(getRichText(block)) }
+  }
+
+  switch (block.type) {
+    case 'code': {
+      const language = (block.code as { language?: string } | undefined)?.language
+      return {
+        type: 'code',
+        text: richTextToPlainText(getRichText(block)),
+        language: language && language !== 'plain text' ? language : undefined,
+      }
+    }
+    case 'to_do':
+      return {
+        type: 'to_do',
+        text: richTextToMarkdown(getRichText(block)),
+        checked: !!(block.to_do as { checked?: boolean } | undefined)?.checked,
+      }
+    case 'divider':
+      return { type: 'divider', text: '' }
+    case 'image': {
+      // Uploaded files have expiring links, so only external images come back as images
+      const image = block.image as { type?: string; external?: { url?: string }; caption?: NotionRichText[] } | undefined
+      const caption = richTextToMarkdown(image?.caption ?? [])
+      if (image?.type === 'external' && image.external?.url) {
+        return { type: 'image', text: caption, url: image.external.url }
+      }
+      return caption ? { type: 'paragraph', text: caption } : null
+    }
+    default: {
+      // Callouts, toggles... keep whatever text they carry as a paragraph
+      const text = richTextToMarkdown(getRichText(block))
+      return text ? { type: 'paragraph', text } : null
+    }
+  }
+}
+
+/**
+ * Whether a block survives a round trip through local text
+ * Anything else - uploaded files, nested children, child pages, databases,
+ * embeds, synced blocks - would be lost if the page body were rewritten
+ */
+export function isConvertibleBlock(block: NotionBlock): boolean {
+  if (block.has_children) return false
+  if (TEXT_BLOCK_TYPES.has(block.type as MarkdownBlockType)) return true
+  switch (block.type) {
+    case 'code':
+    case 'to_do':
+    case 'divider':
+      return true
+    case 'image':
+      return (block.image as { type?: string } | undefined)?.type === 'external'
+    default:
+      return false
+  }
+}
+
+/**
+ * Convert local body text to Notion blocks
+ */
+export function contentToBlocks(content: string): NotionBlockInput[] {
+  return parseMarkdownBlocks(content).map(toNotionBlock)
+}
+
+/**
+ * Convert Notion blocks back to local body text
+ * Only top-level blocks are read
+ */
+export function blocksToContent(blocks: NotionBlock[]): string {
+  return formatMarkdownBlocks(
+    blocks.map(fromNotionBlock).filter((b): b is MarkdownBlock => b !== null)
+  )
+}
+
+/**
+ * Body text as it reads back from Notion once written
+ * (e.g. "* " bullets come back as "- ", code languages under their Notion names)
+ */
+export function roundTripContent(content: string): string {
+  const returned = contentToBlocks(content).map((block, index): NotionBlock => {
+    const value = { ...(block[block.type] as Record<string, unknown>) }
+    for (const key of ['rich_text', 'caption']) {
+      if (Array.isArray(value[key])) value[key] = (value[key] as RichTextInput[]).map(toReturnedRichText)
+    }
+    return { ...block, id: String(index), [block.type]: value }
+  })
+  return blocksToContent(returned)
+}
@@ -4,11 +4,11 @@
  * Expected Notion Database Properties:
  * - Title (title): Item title
  * - Type (select): task | bookmark | note
- * - Content (rich_text): Item content/description
+ * - Content (rich_text): Task and single-line bookmark content; legacy note bodies from before they moved to blocks
  * - URL (url): For bookmarks
  * - Priority (select): high | medium | low
  * - Deadline (date): Due date for tasks
- * - Completed (checkbox): Task completion status
+ * - Completed (checkbox or status): Task completion status
  * - Tags (multi_select): Tag names
  * - Category (select): Category name
  * - Project (select): Project name
@@ -16,39 +16,25 @@
  * - TagColors (rich_text): JSON mapping tag names to hex colors {"tag1":"#ef4444"}
  * - CategoryIcon (rich_text): Icon name like "folder", "briefcase"
  * - ProjectColor (rich_text): Hex color like "#22c55e"
+ *
+ * With linked metadata databases, Category/Project/CategoryIcon/ProjectColor are replaced by:
+ * - CategoryLink (relation): Page in the Categories database
+ * - ProjectLink (relation): Page in the Projects database
+ *
+ * Property names are defaults - users can map fields to their own columns
+ * Note content and saved articles are synced as page content blocks instead (see block-converter)
  */
 
-import type { Item, ItemType, Priority, Tag, Category, Project } from '@/types'
-
-// Notion API limit: 2000 characters per rich_text block
-const NOTION_TEXT_LIMIT = 2000
-
-/**
- * Split long text into chunks of max 2000 chars for Notion rich_text
- */
-function splitTextForNotion(text: string): { text: { content: string } }[] {
-  if (!text) return [{ text: { content: '' } }]
-  if (text.length <= NOTION_TEXT_LIMIT) {
-    return [{ text: { content: text } }]
-  }
+import type { Item, ItemType, Priority, Tag, Category, Project, PropertyMapping } from '@/types'
+import type { DatabaseSchema, PropertySpec } from './database-schema'
+import { resolvePropertyNames, buildDatabaseSchema } from './property-mapping'
+import { markdownToRichText, richTextToMarkdown, type NotionRichText } from './rich-text'
 
-  const chunks: { text: { content: string } }[] = []
-  let remaining = text
-
-  while (remaining.length > 0) {
-    const chunk = remaining.slice(0, NOTION_TEXT_LIMIT)
-    chunks.push({ text: { content: chunk } })
-    remaining = remaining.slice(NOTION_TEXT_LIMIT)
-  }
-
-  return chunks
-}
-
-// Property name mapping - Notion uses names, not IDs
+// Default property names - Notion uses names, not IDs
 const PROP_NAMES = {
   title: 'Title',
   type: 'Type',
-  content: 'Content',
+  content: 'Content', // Notes and articles: cleared, read only for pages without body blocks
   url: 'URL',
   priority: 'Priority',
   deadline: 'Deadline',
@@ -61,8 +47,92 @@ const PROP_NAMES = {
   tagColors: 'TagColors',
   categoryIcon: 'CategoryIcon',
   projectColor: 'ProjectColor',
+  // Linked metadata databases
+  categoryLink: 'CategoryLink',
+  projectLink: 'ProjectLink',
 } as const
 
+export type ItemPropertyKey = keyof typeof PROP_NAMES
+
+// Property types expected for each field (provisioning, validation and the mapping editor)
+export const ITEM_PROPERTY_SPECS: Partial<Record<ItemPropertyKey, PropertySpec>> = {
+  title: { type: 'title' },
+  type: { type: 'select', options: ['task', 'bookmark', 'note'] },
+  content: { type: 'rich_text' },
+  url: { type: 'url' },
+  priority: { type: 'select', options: ['high', 'medium', 'low'] },
+  deadline: { type: 'date' },
+  completed: { type: 'checkbox' },
+  tags: { type: 'multi_select' },
+  category: { type: 'select' },
+  project: { type: 'select' },
+  localId: { type: 'rich_text' },
+  tagColors: { type: 'rich_text' },
+  categoryIcon: { type: 'rich_text' },
+  projectColor: { type: 'rich_text' },
+  categoryLink: { type: 'relation' },
+  projectLink: { type: 'relation' },
+}
+
+// Fields used only when categories/projects are stored as names, or only as links
+const SELECT_MODE_KEYS: ItemPropertyKey[] = ['category', 'project', 'categoryIcon', 'projectColor']
+const RELATION_MODE_KEYS: ItemPropertyKey[] = ['categoryLink', 'projectLink']
+
+// Target databases when categories and projects are linked pages
+export interface MetadataDatabases {
+  categoriesDatabaseId: string
+  projectsDatabaseId: string
+}
+
+/**
+ * Fields synced under the given category/project mode
+ */
+export function getItemFieldKeys(useRelations: boolean): ItemPropertyKey[] {
+  const skipped = useRelations ? SELECT_MODE_KEYS : RELATION_MODE_KEYS
+  return (Object.keys(ITEM_PROPERTY_SPECS) as ItemPropertyKey[]).filter((key) => !skipped.includes(key))
+}
+
+/**
+ * Notion property name for each field under a user mapping
+ */
+export function getItemPropertyNames(mapping?: PropertyMapping | null): Record<ItemPropertyKey, string> {
+  return resolvePropertyNames(PROP_NAMES, mapping)
+}
+
+/**
+ * Expected Items database schema under a user mapping
+ * Completion lives in a status property when mapped to one,
+ * categories and projects in relations when linked databases are set
+ */
+export function getItemDatabaseSchema(
+  mapping?: PropertyMapping | null,
+  relations?: MetadataDatabases | null
+): DatabaseSchema {
+  const specs: Partial<Record<ItemPropertyKey, PropertySpec>> = {}
+  for (const key of getItemFieldKeys(!!relations)) {
+    specs[key] = ITEM_PROPERTY_SPECS[key]
+  }
+  if (mapping?.completedStatus) specs.completed = { type: 'status' }
+  if (relations) {
+    specs.categoryLink = { type: 'relation', relationTo: relations.categoriesDatabaseId }
+    specs.projectLink = { type: 'relation', relationTo: relations.projectsDatabaseId }
+  }
+  return buildDatabaseSchema(PROP_NAMES, specs, mapping)
+}
+
+// Default schema, used when provisioning new databases
+export const ITEM_DATABASE_SCHEMA: DatabaseSchema = getItemDatabaseSchema()
+
+/**
+ * Whether an item's content is synced as page blocks rather than the Content property
+ * Notes always are, bookmarks once their content spans lines (a saved article)
+ * A bookmark page with an empty Content property may hold its article in the blocks
+ */
+export function usesBodyBlocks({ type, content }: Partial<Pick<Item, 'type' | 'content'>>): boolean {
+  if (type === 'note') return true
+  return type === 'bookmark' && (!content || content.includes('\n'))
+}
+
 // Metadata lookup for ID ↔ Name conversion
 export interface MetadataLookup {
   tags: Tag[]
@@ -74,36 +144,44 @@ export interface MetadataLookup {
  * Convert local Item to Notion properties
  * Uses metadata lookup to convert IDs → Names for tags/category/project
  */
-export function itemToNotionProperties(item: Item, metadata?: MetadataLookup): Record<string, unknown> {
+export function itemToNotionProperties(
+  item: Item,
+  metadata?: MetadataLookup,
+  mapping?: PropertyMapping | null,
+  useRelations = false
+): Record<string, unknown> {
+  const names = getItemPropertyNames(mapping)
+  const status = mapping?.completedStatus
   const properties: Record<string, unknown> = {
-    [PROP_NAMES.title]: {
+    [names.title]: {
       title: [{ text: { content: item.title } }],
     },
-    [PROP_NAMES.type]: {
+    [names.type]: {
       select: { name: item.type },
     },
-    [PROP_NAMES.content]: {
-      rich_text: splitTextForNotion(item.content || ''),
-    },
-    [PROP_NAMES.completed]: {
-      checkbox: item.completed,
+    // Note and article bodies live in the page blocks - cleared so a stale copy can't come back on pull
+    [names.content]: {
+      rich_text: usesBodyBlocks(item) ? [] : markdownToRichText(item.content || ''),
     },
-    [PROP_NAMES.localId]: {
+    [names.completed]: status
+      ? { status: { name: item.completed ? status.done : status.todo } }
+      : { checkbox: item.completed },
+    [names.localId]: {
       rich_text: [{ text: { content: item.id } }],
     },
   }
 
   // Optional fields
   if (item.url) {
-    properties[PROP_NAMES.url] = { url: item.url }
+    properties[names.url] = { url: item.url }
   }
 
   if (item.priority) {
-    properties[PROP_NAMES.priority] = { select: { name: item.priority } }
+    properties[names.priority] = { select: { name: item.priority } }
   }
 
   if (item.deadline) {
-    properties[PROP_NAMES.deadline] = {
+    properties[names.deadline] = {
       date: { start: new Date(item.deadline).toISOString().split('T')[0] },
     }
   }
@@ -122,28 +200,37 @@ export function itemToNotionProperties(item: Item, metadata?: MetadataLookup): R
       })
       .filter(Boolean)
     if (tagNames.length > 0) {
-      properties[PROP_NAMES.tags] = {
+      properties[names.tags] = {
         multi_select: tagNames.map((name) => ({ name })),
       }
       // Sync tag colors as JSON
-      properties[PROP_NAMES.tagColors] = {
+      properties[names.tagColors] = {
         rich_text: [{ text: { content: JSON.stringify(tagColors) } }],
       }
     }
   } else if (item.tags.length > 0) {
     // Fallback: use tags as-is (might be names already)
-    properties[PROP_NAMES.tags] = {
+    properties[names.tags] = {
       multi_select: item.tags.map((tag) => ({ name: tag })),
     }
   }
 
+  // Linked databases: point at the category/project pages (always written so clearing syncs)
+  if (useRelations && metadata) {
+    const category = metadata.categories.find((c) => c.id === item.categoryId)
+    const project = metadata.projects.find((p) => p.id === item.projectId)
+    properties[names.categoryLink] = { relation: category?.notionId ? [{ id: category.notionId }] : [] }
+    properties[names.projectLink] = { relation: project?.notionId ? [{ id: project.notionId }] : [] }
+    return properties
+  }
+
   // Convert category ID to category name + sync icon
   if (item.categoryId && metadata) {
     const category = metadata.categories.find((c) => c.id === item.categoryId)
     if (category) {
-      properties[PROP_NAMES.category] = { select: { name: category.name } }
+      properties[names.category] = { select: { name: category.name } }
       // Sync category icon
-      properties[PROP_NAMES.categoryIcon] = {
+      properties[names.categoryIcon] = {
         rich_text: [{ text: { content: category.icon } }],
       }
     }
@@ -153,9 +240,9 @@ export function itemToNotionProperties(item: Item, metadata?: MetadataLookup): R
   if (item.projectId && metadata) {
     const project = metadata.projects.find((p) => p.id === item.projectId)
     if (project) {
-      properties[PROP_NAMES.project] = { select: { name: project.name } }
+      properties[names.project] = { select: { name: project.name } }
       // Sync project color
-      properties[PROP_NAMES.projectColor] = {
+      properties[names.projectColor] = {
         rich_text: [{ text: { content: project.color } }],
       }
     }
@@ -191,6 +278,14 @@ function getRichText(prop: unknown): string {
   return p.rich_text.map((t) => t.plain_text || '').join('')
 }
 
+// Rich text with annotations and links kept as Markdown
+function getRichTextMarkdown(prop: unknown): string {
+  if (!prop || typeof prop !== 'object') return ''
+  const p = prop as { type?: string; rich_text?: NotionRichText[] }
+  if (p.type !== 'rich_text' || !Array.isArray(p.rich_text)) return ''
+  return richTextToMarkdown(p.rich_text)
+}
+
 function getUrl(prop: unknown): string | null {
   if (!prop || typeof prop !== 'object') return null
   const p = prop as { type?: string; url?: string | null }
@@ -212,6 +307,20 @@ function getCheckbox(prop: unknown): boolean {
   return p.checkbox || false
 }
 
+function getStatusValue(prop: unknown): string | null {
+  if (!prop || typeof prop !== 'object') return null
+  const p = prop as { type?: string; status?: { name?: string } | null }
+  if (p.type !== 'status' || !p.status) return null
+  return p.status.name || null
+}
+
+function getRelationIds(prop: unknown): string[] {
+  if (!prop || typeof prop !== 'object') return []
+  const p = prop as { type?: string; relation?: { id?: string }[] }
+  if (p.type !== 'relation' || !Array.isArray(p.relation)) return []
+  return p.relation.map((r) => r.id || '').filter(Boolean)
+}
+
 function getMultiSelect(prop: unknown): string[] {
   if (!prop || typeof prop !== 'object') return []
   const p = prop as { type?: string; multi_select?: { name?: string }[] }
@@ -230,6 +339,8 @@ export interface ParsedNotionItem extends Partial<Item> {
   categoryIcon: string | null  // Category icon name
   projectName: string | null   // Project name from Notion
   projectColor: string | null  // Project hex color
+  categoryPageId: string | null // Linked Categories page (relation mode)
+  projectPageId: string | null  // Linked Projects page (relation mode)
 }
 
 /**
@@ -248,29 +359,38 @@ function parseTagColors(jsonStr: string): Record<string, string> {
  * Convert Notion page to local Item format
  * Returns names for tags/category/project (needs ID resolution by sync service)
  */
-export function notionPageToItem(page: {
-  id: string
-  last_edited_time: string
-  properties: Record<string, unknown>
-}): ParsedNotionItem {
+export function notionPageToItem(
+  page: {
+    id: string
+    last_edited_time: string
+    properties: Record<string, unknown>
+  },
+  mapping?: PropertyMapping | null
+): ParsedNotionItem {
   const props = page.properties
+  const names = getItemPropertyNames(mapping)
+  const status = mapping?.completedStatus
 
   return {
-    localId: getRichText(getProp(props, PROP_NAMES.localId)) || undefined,
+    localId: getRichText(getProp(props, names.localId)) || undefined,
     notionId: page.id,
-    type: (getSelectValue(getProp(props, PROP_NAMES.type)) as ItemType) || 'note',
-    title: getTitleText(getProp(props, PROP_NAMES.title)),
-    content: getRichText(getProp(props, PROP_NAMES.content)),
-    url: getUrl(getProp(props, PROP_NAMES.url)),
-    priority: getSelectValue(getProp(props, PROP_NAMES.priority)) as Priority | null,
-    deadline: getDate(getProp(props, PROP_NAMES.deadline)),
-    completed: getCheckbox(getProp(props, PROP_NAMES.completed)),
-    tagNames: getMultiSelect(getProp(props, PROP_NAMES.tags)),  // Names, not IDs
-    tagColors: parseTagColors(getRichText(getProp(props, PROP_NAMES.tagColors))),
-    categoryName: getSelectValue(getProp(props, PROP_NAMES.category)),
-    categoryIcon: getRichText(getProp(props, PROP_NAMES.categoryIcon)) || null,
-    projectName: getSelectValue(getProp(props, PROP_NAMES.project)),
-    projectColor: getRichText(getProp(props, PROP_NAMES.projectColor)) || null,
+    type: (getSelectValue(getProp(props, names.type)) as ItemType) || 'note',
+    title: getTitleText(getProp(props, names.title)),
+    content: getRichTextMarkdown(getProp(props, names.content)),
+    url: getUrl(getProp(props, names.url)),
+    priority: getSelectValue(getProp(props, names.priority)) as Priority | null,
+    deadline: getDate(getProp(props, names.deadline)),
+    completed: status
+      ? getStatusValue(getProp(props, names.completed)) === status.done
+      : getCheckbox(getProp(props, names.completed)),
+    tagNames: getMultiSelect(getProp(props, names.tags)),  // Names, not IDs
+    tagColors: parseTagColors(getRichText(getProp(props, names.tagColors))),
+    categoryName: getSelectValue(getProp(props, names.category)),
+    categoryIcon: getRichText(getProp(props, names.categoryIcon)) || null,
+    projectName: getSelectValue(getProp(props, names.project)),
+    projectColor: getRichText(getProp(props, names.projectColor)) || null,
+    categoryPageId: getRelationIds(getProp(props, names.categoryLink))[0] ?? null,
+    projectPageId: getRelationIds(getProp(props, names.projectLink))[0] ?? null,
     tags: [], // Will be resolved by sync service
     syncStatus: 'synced',
     updatedAt: new Date(page.last_edited_time),
@@ -280,9 +400,9 @@ export function notionPageToItem(page: {
 /**
  * Get the Notion property name for LocalID field
  */
-export function getLocalIdFilter(localId: string): Record<string, unknown> {
+export function getLocalIdFilter(localId: string, mapping?: PropertyMapping | null): Record<string, unknown> {
   return {
-    property: PROP_NAMES.localId,
+    property: getItemPropertyNames(mapping).localId,
     rich_text: {
       equals: localId,
     },
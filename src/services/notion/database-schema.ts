@@ -0,0 +1,261 @@
+/**
+ * Notion database schemas expected by the transformers:
+ * automatic provisioning, validation and self-repair of connected databases
+ */
+
+import { notionClient } from './api-client'
+import { ITEM_DATABASE_SCHEMA, getItemDatabaseSchema } from './data-transformer'
+import { PROMPT_DATABASE_SCHEMA } from './prompt-transformer'
+import { getCategoryDatabaseSchema, PROJECT_DATABASE_SCHEMA } from './metadata-transformer'
+import { getSettings, updateSettings, getPropertyMapping } from '@/db/operations/settings-operations'
+
+export type NotionPropertyType =
+  | 'title'
+  | 'rich_text'
+  | 'select'
+  | 'multi_select'
+  | 'url'
+  | 'date'
+  | 'checkbox'
+  | 'status'
+  | 'files'
+  | 'number'
+  | 'relation'
+
+export interface PropertySpec {
+  type: NotionPropertyType
+  options?: readonly string[] // Initial select options
+  relationTo?: string         // Target database of a relation
+}
+
+// Property name → expected type
+export type DatabaseSchema = Record<string, PropertySpec>
+
+export interface MistypedProperty {
+  name: string
+  expected: NotionPropertyType
+  actual: string
+}
+
+// Differences between a database and the schema the transformers expect
+export interface SchemaReport {
+  missing: string[]
+  mistyped: MistypedProperty[]
+  extra: string[]
+  // Title property under another name (every database has exactly one)
+  renamedTitle: string | null
+}
+
+export interface ParentPage {
+  id: string
+  title: string
+  icon: string | null // Emoji icon, if any
+}
+
+const ITEMS_DATABASE_TITLE = 'NotionEX Items'
+const PROMPTS_DATABASE_TITLE = 'NotionEX Prompts'
+const CATEGORIES_DATABASE_TITLE = 'NotionEX Categories'
+const PROJECTS_DATABASE_TITLE = 'NotionEX Projects'
+
+/**
+ * Convert a property spec to the Notion API property configuration
+ */
+export function toNotionPropertyConfig(spec: PropertySpec): Record<string, unknown> {
+  if (spec.type === 'select' || spec.type === 'multi_select') {
+    return { [spec.type]: { options: (spec.options ?? []).map((name) => ({ name })) } }
+  }
+  if (spec.type === 'relation') {
+    return { relation: { database_id: spec.relationTo, single_property: {} } }
+  }
+  return { [spec.type]: {} }
+}
+
+function toNotionProperties(schema: DatabaseSchema): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(schema).map(([name, spec]) => [name, toNotionPropertyConfig(spec)])
+  )
+}
+
+/**
+ * Pages shared with the integration that can hold the new databases
+ */
+export async function searchParentPages(query: string): Promise<ParentPage[]> {
+  const pages = await notionClient.searchPages(query)
+  return pages.map((page) => {
+    const titleProp = Object.values(page.properties).find((p) => p.type === 'title') as
+      | { title?: { plain_text?: string }[] }
+      | undefined
+    return {
+      id: page.id,
+      title: titleProp?.title?.map((t) => t.plain_text || '').join('') || 'Untitled',
+      icon: page.icon?.type === 'emoji' ? page.icon.emoji ?? null : null,
+    }
+  })
+}
+
+/**
+ * Create the Items and Prompts databases under a parent page
+ * and save their IDs so sync can start right away
+ */
+export async function provisionDatabases(
+  parentPageId: string
+): Promise<{ itemsDatabaseId: string; promptsDatabaseId: string }> {
+  const items = await notionClient.createDatabase(
+    parentPageId,
+    ITEMS_DATABASE_TITLE,
+    toNotionProperties(ITEM_DATABASE_SCHEMA)
+  )
+  const prompts = await notionClient.createDatabase(
+    parentPageId,
+    PROMPTS_DATABASE_TITLE,
+    toNotionProperties(PROMPT_DATABASE_SCHEMA)
+  )
+
+  // Fresh databases - nothing to delta-sync against yet
+  await updateSettings({
+    notionDatabaseId: items.id,
+    promptsDatabaseId: prompts.id,
+    lastSyncAt: null,
+    promptsLastSyncAt: null,
+    lastReconcileAt: null,
+    promptsLastReconcileAt: null,
+  })
+
+  return { itemsDatabaseId: items.id, promptsDatabaseId: prompts.id }
+}
+
+/**
+ * Whether a report has anything the sync would trip over
+ * Extra properties are harmless and only informational
+ */
+export function hasSchemaProblems(report: SchemaReport): boolean {
+  return report.missing.length > 0 || report.mistyped.length > 0
+}
+
+/**
+ * Retrieve a database schema and diff it against the expected one
+ */
+export async function validateDatabaseSchema(databaseId: string, schema: DatabaseSchema): Promise<SchemaReport> {
+  const database = await notionClient.getDatabase(databaseId)
+  const actual = database.properties
+  const report: SchemaReport = { missing: [], mistyped: [], extra: [], renamedTitle: null }
+
+  for (const [name, spec] of Object.entries(schema)) {
+    const property = actual[name]
+    if (!property) {
+      report.missing.push(name)
+    } else if (property.type !== spec.type) {
+      report.mistyped.push({ name, expected: spec.type, actual: property.type })
+    }
+  }
+
+  for (const [name, property] of Object.entries(actual)) {
+    if (schema[name]) continue
+    // The title column exists, just under another name (e.g. "Name")
+    if (property.type === 'title' && report.missing.some((m) => schema[m].type === 'title')) {
+      report.renamedTitle = name
+    } else {
+      report.extra.push(name)
+    }
+  }
+
+  return report
+}
+
+/**
+ * Add missing properties (and rename the title column) through the API
+ * Mistyped properties are left alone - changing a type could destroy data
+ * Status properties can't be created through the API and have to be added in Notion
+ */
+export async function repairDatabaseSchema(
+  databaseId: string,
+  schema: DatabaseSchema,
+  report: SchemaReport
+): Promise<void> {
+  const properties: Record<string, unknown> = {}
+
+  for (const name of report.missing) {
+    if (schema[name].type === 'title') {
+      if (report.renamedTitle) properties[report.renamedTitle] = { name }
+      continue
+    }
+    if (schema[name].type === 'status') continue
+    if (schema[name].type === 'relation' && !schema[name].relationTo) continue
+    properties[name] = toNotionPropertyConfig(schema[name])
+  }
+
+  if (Object.keys(properties).length === 0) return
+  await notionClient.updateDatabaseProperties(databaseId, properties)
+}
+
+/**
+ * Validate a database and add whatever properties are missing
+ * Returns the report after repair, so callers can surface what couldn't be fixed
+ */
+async function ensureDatabaseSchema(databaseId: string, schema: DatabaseSchema): Promise<SchemaReport> {
+  const report = await validateDatabaseSchema(databaseId, schema)
+  if (report.missing.length === 0) return report
+  await repairDatabaseSchema(databaseId, schema, report)
+  return validateDatabaseSchema(databaseId, schema)
+}
+
+/**
+ * Link items to existing Categories and Projects databases
+ * Adds missing properties to all three databases, then switches items to relation mode
+ */
+export async function connectMetadataDatabases(categoriesDatabaseId: string, projectsDatabaseId: string): Promise<void> {
+  const settings = await getSettings()
+  if (!settings.notionDatabaseId) throw new Error('Items database not configured')
+
+  for (const [databaseId, schema] of [
+    [categoriesDatabaseId, getCategoryDatabaseSchema(categoriesDatabaseId)],
+    [projectsDatabaseId, PROJECT_DATABASE_SCHEMA],
+  ] as const) {
+    const report = await ensureDatabaseSchema(databaseId, schema)
+    if (hasSchemaProblems(report)) {
+      throw new Error(`Database ${databaseId} is missing: ${[...report.missing, ...report.mistyped.map((m) => m.name)].join(', ')}`)
+    }
+  }
+
+  const mapping = getPropertyMapping(settings, settings.notionDatabaseId)
+  await ensureDatabaseSchema(
+    settings.notionDatabaseId,
+    getItemDatabaseSchema(mapping, { categoriesDatabaseId, projectsDatabaseId })
+  )
+
+  // Every category/project is matched against the new databases from scratch
+  await updateSettings({
+    metadataSyncMode: 'relation',
+    categoriesDatabaseId,
+    projectsDatabaseId,
+    metadataLastSyncAt: null,
+  })
+}
+
+/**
+ * Create the Categories and Projects databases next to the Items database
+ * and link items to them
+ */
+export async function provisionMetadataDatabases(): Promise<{ categoriesDatabaseId: string; projectsDatabaseId: string }> {
+  const settings = await getSettings()
+  if (!settings.notionDatabaseId) throw new Error('Items database not configured')
+
+  const items = await notionClient.getDatabase(settings.notionDatabaseId)
+  const parentPageId = items.parent?.page_id
+  if (!parentPageId) throw new Error('The Items database is not inside a page')
+
+  const categories = await notionClient.createDatabase(
+    parentPageId,
+    CATEGORIES_DATABASE_TITLE,
+    toNotionProperties(getCategoryDatabaseSchema())
+  )
+  const projects = await notionClient.createDatabase(
+    parentPageId,
+    PROJECTS_DATABASE_TITLE,
+    toNotionProperties(PROJECT_DATABASE_SCHEMA)
+  )
+
+  // The Parent self-relation is added by the schema repair once the database exists
+  await connectMetadataDatabases(categories.id, projects.id)
+  return { categoriesDatabaseId: categories.id, projectsDatabaseId: projects.id }
+}
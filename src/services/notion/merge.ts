@@ -0,0 +1,132 @@
+/**
+ * Field-level three-way merge for sync
+ *
+ * Compares local and Notion values against the last-synced base snapshot:
+ * - Only local changed → keep local (will be pushed)
+ * - Only Notion changed → take Notion
+ * - Both changed the same field to different values → conflict
+ *   (local value is kept until the user resolves it in the conflict inbox)
+ */
+
+import type { Item, Prompt } from '@/types'
+
+// Fields that are merged independently for each entity type
+export const ITEM_MERGE_FIELDS = [
+  'type',
+  'title',
+  'content',
+  'url',
+  'priority',
+  'deadline',
+  'completed',
+  'categoryId',
+  'projectId',
+  'tags',
+] as const satisfies readonly (keyof Item)[]
+
+export const PROMPT_MERGE_FIELDS = [
+  'title',
+  'description',
+  'prompt',
+  'type',
+  'category',
+  'tags',
+  'note',
+  'approved',
+  'favorite',
+  'quality',
+  'textDemo',
+  'fileDemo',
+  'urlDemo',
+] as const satisfies readonly (keyof Prompt)[]
+
+export type SnapshotFields = Record<string, unknown>
+
+export interface ConflictingField {
+  field: string
+  base: unknown
+  local: unknown
+  remote: unknown
+}
+
+export interface MergeResult {
+  merged: SnapshotFields
+  conflicts: ConflictingField[] // Fields changed on both sides
+  localChanged: boolean    // Local record must be updated
+  needsPush: boolean       // Merged result differs from Notion
+}
+
+/**
+ * Normalize a value for comparison and snapshot storage
+ * Dates compare by day (Notion dates are pushed without time),
+ * arrays compare as sets, empty values collapse to null
+ */
+function normalize(value: unknown): unknown {
+  if (value === undefined || value === '') return null
+  if (value instanceof Date) return value.toISOString().split('T')[0]
+  if (Array.isArray(value)) return [...value].map(String).sort()
+  return value
+}
+
+export function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b))
+}
+
+/**
+ * Extract the mergeable fields of a record as a snapshot
+ */
+export function pickFields(record: object, fields: readonly string[]): SnapshotFields {
+  const source = record as Record<string, unknown>
+  const snapshot: SnapshotFields = {}
+  for (const field of fields) {
+    snapshot[field] = source[field] ?? null
+  }
+  return snapshot
+}
+
+/**
+ * Merge local and remote values field by field against the base snapshot
+ *
+ * @param base Last-synced values, or null if the record predates snapshots
+ * @param preferRemoteWithoutBase Whole-record LWW fallback when there is no base
+ */
+export function threeWayMerge(
+  base: SnapshotFields | null,
+  local: object,
+  remote: SnapshotFields,
+  fields: readonly string[],
+  preferRemoteWithoutBase: boolean
+): MergeResult {
+  const localFields = pickFields(local, fields)
+  const merged: SnapshotFields = {}
+  const conflicts: ConflictingField[] = []
+
+  for (const field of fields) {
+    const localValue = localFields[field]
+    const remoteValue = remote[field] ?? null
+
+    if (isSameValue(localValue, remoteValue)) {
+      merged[field] = localValue
+    } else if (!base) {
+      // No common ancestor - cannot tell who changed what
+      merged[field] = preferRemoteWithoutBase ? remoteValue : localValue
+    } else if (isSameValue(localValue, base[field])) {
+      merged[field] = remoteValue
+    } else if (isSameValue(remoteValue, base[field])) {
+      merged[field] = localValue
+    } else {
+      conflicts.push({ field, base: base[field], local: localValue, remote: remoteValue })
+      merged[field] = localValue
+    }
+  }
+
+  const conflictFields = new Set(conflicts.map((c) => c.field))
+
+  return {
+    merged,
+    conflicts,
+    localChanged: fields.some((f) => !isSameValue(merged[f], localFields[f])),
+    // Conflicting fields are held back until resolved
+    needsPush: fields.some((f) => !conflictFields.has(f) && !isSameValue(merged[f], remote[f])),
+  }
+}
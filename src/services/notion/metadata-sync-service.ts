@@ -0,0 +1,289 @@
+/**
+ * Sync categories and projects with their own Notion databases
+ * Only used when items link to them through relations (metadataSyncMode 'relation')
+ *
+ * Both databases are small, so every run reads them in full:
+ * - Pages without a local record are created locally (matched by page ID, then LocalID)
+ * - Records edited on one side since the last run win; edits on both sides go to the newest
+ * - Records without a page are created in Notion, parents before children
+ * - Pages gone from Notion delete the local record, deleted records archive their page
+ */
+
+import { db } from '@/db/schema'
+import { notionClient, type NotionClient, type NotionError, type NotionPage } from './api-client'
+import { getSettings, updateSettings, getPropertyMapping } from '@/db/operations/settings-operations'
+import { deleteCategory, getAllCategories } from '@/db/operations/category-operations'
+import { deleteProject, getAllProjects } from '@/db/operations/project-operations'
+import { getAllTags } from '@/db/operations/tag-operations'
+import { itemToNotionProperties } from './data-transformer'
+import {
+  categoryToNotionProperties,
+  projectToNotionProperties,
+  notionPageToCategory,
+  notionPageToProject,
+} from './metadata-transformer'
+import { generateId } from '@/utils/id'
+import type { Category, Project, Settings } from '@/types'
+
+const LOG_PREFIX = '[MetadataSync]'
+
+// Colors for projects created from pages without one
+const DEFAULT_PROJECT_COLORS = ['#06b6d4', '#ec4899', '#14b8a6', '#f97316', '#6366f1']
+
+/**
+ * Whether items should link to category/project pages
+ */
+export function usesMetadataRelations(settings: Settings): boolean {
+  return settings.metadataSyncMode === 'relation'
+    && !!settings.categoriesDatabaseId
+    && !!settings.projectsDatabaseId
+}
+
+function pageEditedAt(page: NotionPage): number {
+  return new Date(page.last_edited_time).getTime()
+}
+
+/**
+ * Decide which side wins for a record that exists on both sides
+ */
+function pickWinner(localUpdatedAt: number | undefined, page: NotionPage, since: number): 'local' | 'remote' | 'none' {
+  const localChanged = (localUpdatedAt ?? 0) > since
+  const remoteChanged = pageEditedAt(page) > since
+  if (localChanged && remoteChanged) return pageEditedAt(page) >= (localUpdatedAt ?? 0) ? 'remote' : 'local'
+  if (remoteChanged) return 'remote'
+  if (localChanged) return 'local'
+  return 'none'
+}
+
+/**
+ * Archive pages of records deleted locally
+ */
+async function archiveDeletedPages(settings: Settings, client: NotionClient): Promise<void> {
+  const pending = settings.pendingMetadataArchives ?? []
+  const remaining: string[] = []
+
+  for (const pageId of pending) {
+    try {
+      await client.archivePage(pageId)
+    } catch (error) {
+      // Already gone in Notion - nothing left to archive
+      const status = (error as NotionError).status
+      if (status !== 404 && status !== 400) remaining.push(pageId)
+    }
+  }
+
+  if (remaining.length !== pending.length) {
+    await updateSettings({ pendingMetadataArchives: remaining })
+  }
+}
+
+/**
+ * Depth of a category in the local tree (roots are 0)
+ */
+function getDepth(category: Category, byId: Map<string, Category>): number {
+  let depth = 0
+  let parentId = category.parentId
+  const seen = new Set<string>()
+  while (parentId && byId.has(parentId) && !seen.has(parentId)) {
+    seen.add(parentId)
+    parentId = byId.get(parentId)!.parentId
+    depth++
+  }
+  return depth
+}
+
+async function syncCategories(databaseId: string, since: number, client: NotionClient): Promise<void> {
+  const pages = (await client.getAllPages(databaseId)).filter((p) => !p.archived)
+  const locals = await db.categories.toArray()
+  const byNotionId = new Map(locals.filter((c) => c.notionId).map((c) => [c.notionId!, c]))
+  const byId = new Map(locals.map((c) => [c.id, c]))
+  const livePageIds = new Set(pages.map((p) => p.id))
+
+  // Parent page per record whose fields came from Notion, resolved once every page has a record
+  const remoteParents = new Map<string, string | null>()
+  const toPush = new Set<string>()
+
+  // Pull
+  for (const page of pages) {
+    const remote = notionPageToCategory(page)
+    const local = byNotionId.get(page.id) ?? (remote.localId ? byId.get(remote.localId) : undefined)
+
+    if (!local) {
+      const category: Category = {
+        id: remote.localId || generateId(),
+        name: remote.name,
+        icon: remote.icon,
+        parentId: null,
+        order: remote.order,
+        notionId: page.id,
+        updatedAt: pageEditedAt(page),
+      }
+      await db.categories.put(category)
+      byId.set(category.id, category)
+      byNotionId.set(page.id, category)
+      remoteParents.set(category.id, remote.parentPageId)
+      continue
+    }
+
+    const winner = pickWinner(local.updatedAt, page, since)
+    if (winner === 'remote') {
+      Object.assign(local, { name: remote.name, icon: remote.icon, order: remote.order, updatedAt: pageEditedAt(page) })
+      remoteParents.set(local.id, remote.parentPageId)
+    } else if (winner === 'local') {
+      toPush.add(local.id)
+    }
+    if (local.notionId !== page.id) {
+      local.notionId = page.id
+      byNotionId.set(page.id, local)
+    }
+    await db.categories.put(local)
+  }
+
+  for (const [id, parentPageId] of remoteParents) {
+    const parentId = parentPageId ? byNotionId.get(parentPageId)?.id ?? null : null
+    // A category can't be its own ancestor - keep it at the root instead
+    const category = byId.get(id)!
+    category.parentId = parentId === id ? null : parentId
+    await db.categories.update(id, { parentId: category.parentId })
+  }
+
+  // Pages deleted in Notion remove the local category
+  for (const category of [...byId.values()]) {
+    if (category.notionId && !livePageIds.has(category.notionId)) {
+      await deleteCategory(category.id, false)
+      byId.delete(category.id)
+      // Its children moved to the root - update their pages too
+      for (const child of byId.values()) {
+        if (child.parentId !== category.id) continue
+        child.parentId = null
+        toPush.add(child.id)
+      }
+    }
+  }
+
+  // Push - parents first so children can link to them
+  const ordered = [...byId.values()].sort((a, b) => getDepth(a, byId) - getDepth(b, byId))
+  for (const category of ordered) {
+    if (category.notionId && !toPush.has(category.id)) continue
+    const parentPageId = category.parentId ? byId.get(category.parentId)?.notionId ?? null : null
+    const properties = categoryToNotionProperties(category, parentPageId)
+
+    if (category.notionId) {
+      await client.updatePage(category.notionId, properties)
+    } else {
+      const page = await client.createPage(databaseId, properties)
+      category.notionId = page.id
+      await db.categories.update(category.id, { notionId: page.id })
+    }
+  }
+}
+
+async function syncProjects(databaseId: string, since: number, client: NotionClient): Promise<void> {
+  const pages = (await client.getAllPages(databaseId)).filter((p) => !p.archived)
+  const locals = await db.projects.toArray()
+  const byNotionId = new Map(locals.filter((p) => p.notionId).map((p) => [p.notionId!, p]))
+  const byId = new Map(locals.map((p) => [p.id, p]))
+  const livePageIds = new Set(pages.map((p) => p.id))
+  const toPush = new Set<string>()
+
+  // Pull
+  for (const page of pages) {
+    const remote = notionPageToProject(page)
+    const local = byNotionId.get(page.id) ?? (remote.localId ? byId.get(remote.localId) : undefined)
+
+    if (!local) {
+      const project: Project = {
+        id: remote.localId || generateId(),
+        name: remote.name,
+        color: remote.color || DEFAULT_PROJECT_COLORS[byId.size % DEFAULT_PROJECT_COLORS.length],
+        notionId: page.id,
+        updatedAt: pageEditedAt(page),
+      }
+      await db.projects.put(project)
+      byId.set(project.id, project)
+      continue
+    }
+
+    const winner = pickWinner(local.updatedAt, page, since)
+    if (winner === 'remote') {
+      Object.assign(local, { name: remote.name, color: remote.color || local.color, updatedAt: pageEditedAt(page) })
+    } else if (winner === 'local') {
+      toPush.add(local.id)
+    }
+    local.notionId = page.id
+    await db.projects.put(local)
+  }
+
+  // Pages deleted in Notion remove the local project
+  for (const project of [...byId.values()]) {
+    if (project.notionId && !livePageIds.has(project.notionId)) {
+      await deleteProject(project.id, false)
+      byId.delete(project.id)
+    }
+  }
+
+  // Push
+  for (const project of byId.values()) {
+    if (project.notionId && !toPush.has(project.id)) continue
+    const properties = projectToNotionProperties(project)
+
+    if (project.notionId) {
+      await client.updatePage(project.notionId, properties)
+    } else {
+      const page = await client.createPage(databaseId, properties)
+      await db.projects.update(project.id, { notionId: page.id })
+    }
+  }
+}
+
+/**
+ * Two-way sync of the Categories and Projects databases
+ * Runs before items sync so every category/project has a page to link to
+ * A sync run passes its scoped client; the shared one is for settings actions
+ */
+export async function syncMetadataDatabases(client: NotionClient = notionClient): Promise<void> {
+  const settings = await getSettings()
+  if (!settings.notionToken || !usesMetadataRelations(settings)) return
+
+  // Changes made while this run is in flight are picked up by the next one
+  const startedAt = Date.now()
+  const since = settings.metadataLastSyncAt ?? 0
+
+  await archiveDeletedPages(settings, client)
+  await syncCategories(settings.categoriesDatabaseId!, since, client)
+  await syncProjects(settings.projectsDatabaseId!, since, client)
+
+  await updateSettings({ metadataLastSyncAt: startedAt })
+  console.log(`${LOG_PREFIX} Categories and projects synced`)
+}
+
+/**
+ * Rewrite the properties of every pushed item under the current category/project mode
+ * Run right after switching modes - until then the new columns are empty in Notion,
+ * and a pull would read that as categories and projects being cleared
+ */
+export async function rewritePushedItems(): Promise<number> {
+  const settings = await getSettings()
+  if (!settings.notionToken || !settings.notionDatabaseId) return 0
+
+  const useRelations = usesMetadataRelations(settings)
+  if (useRelations) await syncMetadataDatabases()
+
+  const mapping = getPropertyMapping(settings, settings.notionDatabaseId)
+  const [items, tags, categories, projects] = await Promise.all([
+    db.items.filter((i) => !!i.notionId).toArray(),
+    getAllTags(),
+    getAllCategories(),
+    getAllProjects(),
+  ])
+
+  for (const item of items) {
+    await notionClient.updatePage(
+      item.notionId!,
+      itemToNotionProperties(item, { tags, categories, projects }, mapping, useRelations)
+    )
+  }
+
+  console.log(`${LOG_PREFIX} Rewrote ${items.length} items`)
+  return items.length
+}
@@ -0,0 +1,143 @@
+/**
+ * Transform categories and projects to and from pages in their own Notion databases
+ * Used when items link to them through relations instead of select names
+ *
+ * Expected Categories Database Properties:
+ * - Name (title): Category name
+ * - Icon (rich_text): Icon name like "folder", "briefcase"
+ * - Parent (relation): Parent category page in the same database
+ * - Order (number): Position among siblings
+ * - LocalID (rich_text): Local UUID for matching
+ *
+ * Expected Projects Database Properties:
+ * - Name (title): Project name
+ * - Color (rich_text): Hex color like "#22c55e"
+ * - LocalID (rich_text): Local UUID for matching
+ */
+
+import type { Category, Project } from '@/types'
+import type { DatabaseSchema } from './database-schema'
+
+const CATEGORY_PROPS = {
+  name: 'Name',
+  icon: 'Icon',
+  parent: 'Parent',
+  order: 'Order',
+  localId: 'LocalID',
+} as const
+
+const PROJECT_PROPS = {
+  name: 'Name',
+  color: 'Color',
+  localId: 'LocalID',
+} as const
+
+/**
+ * Expected Categories database schema
+ * Parent relates the database to itself, so it needs the database's own ID
+ */
+export function getCategoryDatabaseSchema(databaseId?: string): DatabaseSchema {
+  const schema: DatabaseSchema = {
+    [CATEGORY_PROPS.name]: { type: 'title' },
+    [CATEGORY_PROPS.icon]: { type: 'rich_text' },
+    [CATEGORY_PROPS.order]: { type: 'number' },
+    [CATEGORY_PROPS.localId]: { type: 'rich_text' },
+  }
+  if (databaseId) {
+    schema[CATEGORY_PROPS.parent] = { type: 'relation', relationTo: databaseId }
+  }
+  return schema
+}
+
+export const PROJECT_DATABASE_SCHEMA: DatabaseSchema = {
+  [PROJECT_PROPS.name]: { type: 'title' },
+  [PROJECT_PROPS.color]: { type: 'rich_text' },
+  [PROJECT_PROPS.localId]: { type: 'rich_text' },
+}
+
+// Parsed category page - the parent is a page ID until resolved locally
+export interface RemoteCategory {
+  localId: string | null
+  name: string
+  icon: string
+  order: number
+  parentPageId: string | null
+}
+
+export interface RemoteProject {
+  localId: string | null
+  name: string
+  color: string
+}
+
+const richText = (content: string) => ({ rich_text: content ? [{ text: { content } }] : [] })
+
+/**
+ * Convert a local category to Notion properties
+ * parentPageId is the parent's page, or null for root categories
+ */
+export function categoryToNotionProperties(category: Category, parentPageId: string | null): Record<string, unknown> {
+  return {
+    [CATEGORY_PROPS.name]: { title: [{ text: { content: category.name } }] },
+    [CATEGORY_PROPS.icon]: richText(category.icon),
+    [CATEGORY_PROPS.order]: { number: category.order },
+    [CATEGORY_PROPS.parent]: { relation: parentPageId ? [{ id: parentPageId }] : [] },
+    [CATEGORY_PROPS.localId]: richText(category.id),
+  }
+}
+
+export function projectToNotionProperties(project: Project): Record<string, unknown> {
+  return {
+    [PROJECT_PROPS.name]: { title: [{ text: { content: project.name } }] },
+    [PROJECT_PROPS.color]: richText(project.color),
+    [PROJECT_PROPS.localId]: richText(project.id),
+  }
+}
+
+function getTitleText(prop: unknown): string {
+  if (!prop || typeof prop !== 'object') return ''
+  const p = prop as { type?: string; title?: { plain_text?: string }[] }
+  if (p.type !== 'title' || !Array.isArray(p.title)) return ''
+  return p.title.map((t) => t.plain_text || '').join('')
+}
+
+function getRichText(prop: unknown): string {
+  if (!prop || typeof prop !== 'object') return ''
+  const p = prop as { type?: string; rich_text?: { plain_text?: string }[] }
+  if (p.type !== 'rich_text' || !Array.isArray(p.rich_text)) return ''
+  return p.rich_text.map((t) => t.plain_text || '').join('')
+}
+
+function getNumber(prop: unknown): number | null {
+  if (!prop || typeof prop !== 'object') return null
+  const p = prop as { type?: string; number?: number | null }
+  if (p.type !== 'number' || typeof p.number !== 'number') return null
+  return p.number
+}
+
+function getRelationIds(prop: unknown): string[] {
+  if (!prop || typeof prop !== 'object') return []
+  const p = prop as { type?: string; relation?: { id?: string }[] }
+  if (p.type !== 'relation' || !Array.isArray(p.relation)) return []
+  return p.relation.map((r) => r.id || '').filter(Boolean)
+}
+
+export function notionPageToCategory(page: { properties: Record<string, unknown> }): RemoteCategory {
+  const props = page.properties
+  return {
+    localId: getRichText(props[CATEGORY_PROPS.localId]) || null,
+    name: getTitleText(props[CATEGORY_PROPS.name]),
+    icon: getRichText(props[CATEGORY_PROPS.icon]) || 'folder',
+    order: getNumber(props[CATEGORY_PROPS.order]) ?? 0,
+    parentPageId: getRelationIds(props[CATEGORY_PROPS.parent])[0] ?? null,
+  }
+}
+
+export function notionPageToProject(page: { properties: Record<string, unknown> }): RemoteProject {
+  const props = page.properties
+  return {
+    localId: getRichText(props[PROJECT_PROPS.localId]) || null,
+    name: getTitleText(props[PROJECT_PROPS.name]),
+    color: getRichText(props[PROJECT_PROPS.color]),
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Notion OAuth login for a public integration
+ *
+ * The authorize page runs in chrome.identity.launchWebAuthFlow - Notion shows its own
+ * picker there, so users choose which pages and databases the extension can see.
+ * The client secret can't ship inside an extension, so the code is exchanged by a
+ * configurable endpoint that adds the client credentials and forwards to Notion:
+ *
+ *   POST <endpoint>  { grant_type: 'authorization_code', code, redirect_uri }
+ *                    { grant_type: 'refresh_token', refresh_token }
+ *   → Notion's token response (access_token, bot_id, workspace_*, optional refresh_token/expires_in)
+ *
+ * The endpoint must allow CORS requests from the extension origin.
+ */
+
+import { getSettings, updateSettings, resumeSync } from '@/db/operations/settings-operations'
+import type { NotionOAuthGrant, Settings } from '@/types'
+import type { NotionError } from './api-client'
+import { sealSecret, openSecret } from './token-vault'
+
+const AUTHORIZE_URL = 'https://api.notion.com/v1/oauth/authorize'
+// Refresh this long before the token runs out, so requests in flight don't hit the expiry
+const EXPIRY_MARGIN_MS = 60 * 1000
+
+interface TokenResponse {
+  access_token: string
+  refresh_token?: string | null
+  expires_in?: number | null // seconds
+  bot_id: string
+  workspace_id: string
+  workspace_name?: string | null
+  workspace_icon?: string | null
+}
+
+// One refresh at a time - concurrent requests wait for the same new token
+let refreshing: Promise<string> | null = null
+
+/**
+ * Redirect URL to register with the Notion integration
+ */
+export function getOAuthRedirectUrl(): string {
+  return chrome.identity.getRedirectURL('notion')
+}
+
+function authError(message: string): NotionError {
+  // Shaped like an API rejection so sync pauses the queues instead of retrying
+  return { status: 401, code: 'unauthorized', message }
+}
+
+async function requestToken(endpoint: string, body: Record<string, string>): Promise<TokenResponse> {
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+
+  if (!response.ok) {
+    let message = response.statusText || `HTTP ${response.status}`
+    try {
+      const data = await response.json()
+      message = data.error_description || data.message || data.error || message
+    } catch {
+      // Ignore JSON parse errors
+    }
+    // 400/401 from the token endpoint means the grant itself is no longer valid
+    if (response.status === 400 || response.status === 401) throw authError(message)
+    throw { status: response.status, code: 'token_endpoint_error', message } satisfies NotionError
+  }
+
+  const data = await response.json() as TokenResponse
+  if (!data.access_token) throw new Error('Token endpoint returned no access_token')
+  return data
+}
+
+async function storeGrant(data: TokenResponse, previous: NotionOAuthGrant | null): Promise<void> {
+  const grant: NotionOAuthGrant = {
+    // Notion may not rotate the refresh token on every refresh
+    refreshToken: data.refresh_token ? await sealSecret(data.refresh_token) : previous?.refreshToken ?? null,
+    expiresAt: data.expires_in ? Date.now() + data.expires_in * 1000 : null,
+    workspaceId: data.workspace_id ?? previous?.workspaceId ?? '',
+    workspaceName: data.workspace_name ?? previous?.workspaceName ?? null,
+    workspaceIcon: data.workspace_icon ?? previous?.workspaceIcon ?? null,
+    botId: data.bot_id ?? previous?.botId ?? '',
+    connectedAt: previous?.connectedAt ?? Date.now(),
+  }
+  await updateSettings({ notionToken: await sealSecret(data.access_token), notionAuthMethod: 'oauth', notionOAuth: grant })
+}
+
+/**
+ * Run the Notion login and store the resulting tokens
+ * Running it again while connected lets the user change the shared pages
+ */
+export async function connectWithNotion(): Promise<NotionOAuthGrant> {
+  const settings = await getSettings()
+  const clientId = settings.oauthClientId?.trim()
+  const endpoint = settings.oauthTokenEndpoint?.trim()
+  if (!clientId || !endpoint) {
+    throw new Error('OAuth client ID and token endpoint are required')
+  }
+
+  const redirectUri = getOAuthRedirectUrl()
+  const state = crypto.randomUUID()
+  const url = new URL(AUTHORIZE_URL)
+  url.searchParams.set('client_id', clientId)
+  url.searchParams.set('response_type', 'code')
+  url.searchParams.set('owner', 'user')
+  url.searchParams.set('redirect_uri', redirectUri)
+  url.searchParams.set('state', state)
+
+  const redirect = await chrome.identity.launchWebAuthFlow({ url: url.toString(), interactive: true })
+  if (!redirect) throw new Error('Login was cancelled')
+
+  const params = new URL(redirect).searchParams
+  if (params.get('error')) throw new Error(params.get('error_description') || params.get('error')!)
+  if (params.get('state') !== state) throw new Error('Login response did not match the request')
+  const code = params.get('code')
+  if (!code) throw new Error('Login returned no authorization code')
+
+  const data = await requestToken(endpoint, { grant_type: 'authorization_code', code, redirect_uri: redirectUri })
+  // A new login replaces the old grant entirely
+  await storeGrant(data, null)
+  // A token rejected earlier no longer blocks the queues
+  await resumeSync()
+
+  const updated = await getSettings()
+  return updated.notionOAuth!
+}
+
+/**
+ * Forget the OAuth tokens and go back to pasted-token mode
+ * Access itself is removed from Notion's Settings → Connections
+ */
+export async function disconnectNotion(): Promise<void> {
+  await updateSettings({ notionToken: null, notionAuthMethod: 'token', notionOAuth: null })
+}
+
+export function usesOAuth(settings: Settings): boolean {
+  return settings.notionAuthMethod === 'oauth' && !!settings.notionOAuth
+}
+
+/**
+ * Whether the stored access token is about to expire
+ */
+export function isAccessTokenExpiring(grant: NotionOAuthGrant): boolean {
+  return grant.expiresAt !== null && grant.expiresAt - EXPIRY_MARGIN_MS <= Date.now()
+}
+
+/**
+ * Get a new access token with the stored refresh token
+ * Throws an auth error when there is nothing to refresh with or the grant was revoked
+ */
+export function refreshAccessToken(): Promise<string> {
+  refreshing ??= (async () => {
+    try {
+      const settings = await getSettings()
+      const grant = settings.notionOAuth
+      const endpoint = settings.oauthTokenEndpoint?.trim()
+      if (!grant?.refreshToken || !endpoint) {
+        throw authError('Notion access expired or was revoked - connect with Notion again')
+      }
+
+      const refreshToken = await openSecret(grant.refreshToken)
+      const data = await requestToken(endpoint, { grant_type: 'refresh_token', refresh_token: refreshToken })
+      await storeGrant(data, grant)
+      return data.access_token
+    } finally {
+      refreshing = null
+    }
+  })()
+  return refreshing
+}
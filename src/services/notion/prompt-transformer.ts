@@ -18,9 +18,15 @@
  * - LocalID (rich_text): Local UUID for matching
  * - TagColors (rich_text): JSON mapping tag names to hex colors (sync only)
  * - CategoryIcon (rich_text): Icon name like "folder" (sync only)
+ *
+ * Property names are defaults - users can map fields to their own columns
+ * The prompt text can optionally be synced as page content blocks instead
  */
 
-import type { Prompt, PromptType, QualityRating } from '@/types'
+import type { Prompt, PromptType, QualityRating, PropertyMapping } from '@/types'
+import type { DatabaseSchema, PropertySpec } from './database-schema'
+import { resolvePropertyNames, buildDatabaseSchema } from './property-mapping'
+import { limitRichText } from './rich-text'
 
 // Notion API limit: 2000 characters per rich_text block
 const NOTION_TEXT_LIMIT = 2000
@@ -44,10 +50,10 @@ function splitTextForNotion(text: string): { text: { content: string } }[] {
     remaining = remaining.slice(NOTION_TEXT_LIMIT)
   }
 
-  return chunks
+  return limitRichText(chunks)
 }
 
-// Property name mapping
+// Default property names
 const PROP_NAMES = {
   title: 'Title',
   description: 'Description',
@@ -68,61 +74,106 @@ const PROP_NAMES = {
   categoryIcon: 'CategoryIcon',
 } as const
 
+export type PromptPropertyKey = keyof typeof PROP_NAMES
+
+// Property types expected for each field (provisioning, validation and the mapping editor)
+export const PROMPT_PROPERTY_SPECS: Record<PromptPropertyKey, PropertySpec> = {
+  title: { type: 'title' },
+  description: { type: 'rich_text' },
+  prompt: { type: 'rich_text' },
+  type: { type: 'select', options: ['text', 'image', 'video'] },
+  category: { type: 'select' },
+  tags: { type: 'multi_select' },
+  note: { type: 'rich_text' },
+  approved: { type: 'checkbox' },
+  favorite: { type: 'checkbox' },
+  quality: { type: 'select', options: ['1', '2', '3', '4', '5'] },
+  textDemo: { type: 'rich_text' },
+  fileDemo: { type: 'files' },
+  urlDemo: { type: 'url' },
+  localId: { type: 'rich_text' },
+  tagColors: { type: 'rich_text' },
+  categoryIcon: { type: 'rich_text' },
+}
+
+/**
+ * Notion property name for each field under a user mapping
+ */
+export function getPromptPropertyNames(mapping?: PropertyMapping | null): Record<PromptPropertyKey, string> {
+  return resolvePropertyNames(PROP_NAMES, mapping)
+}
+
+/**
+ * Expected Prompts database schema under a user mapping
+ */
+export function getPromptDatabaseSchema(mapping?: PropertyMapping | null): DatabaseSchema {
+  return buildDatabaseSchema(PROP_NAMES, PROMPT_PROPERTY_SPECS, mapping)
+}
+
+// Default schema, used when provisioning new databases
+export const PROMPT_DATABASE_SCHEMA: DatabaseSchema = getPromptDatabaseSchema()
+
 /**
  * Convert local Prompt to Notion properties
  * Uses splitTextForNotion to handle long text (>2000 chars)
+ * The prompt property is cleared when the text is synced as the page body instead
  */
-export function promptToNotionProperties(prompt: Prompt): Record<string, unknown> {
+export function promptToNotionProperties(
+  prompt: Prompt,
+  mapping?: PropertyMapping | null,
+  bodyAsBlocks = false
+): Record<string, unknown> {
+  const names = getPromptPropertyNames(mapping)
   const properties: Record<string, unknown> = {
-    [PROP_NAMES.title]: {
+    [names.title]: {
       title: [{ text: { content: prompt.title } }],
     },
-    [PROP_NAMES.description]: {
+    [names.description]: {
       rich_text: splitTextForNotion(prompt.description || ''),
     },
-    [PROP_NAMES.prompt]: {
-      rich_text: splitTextForNotion(prompt.prompt || ''),
-    },
-    [PROP_NAMES.type]: {
+    [names.type]: {
       select: { name: prompt.type },
     },
-    [PROP_NAMES.note]: {
+    [names.note]: {
       rich_text: splitTextForNotion(prompt.note || ''),
     },
-    [PROP_NAMES.approved]: {
+    [names.approved]: {
       checkbox: prompt.approved,
     },
-    [PROP_NAMES.favorite]: {
+    [names.favorite]: {
       checkbox: prompt.favorite,
     },
-    [PROP_NAMES.localId]: {
+    [names.localId]: {
       rich_text: [{ text: { content: prompt.id } }],
     },
   }
 
+  // Cleared when the text lives in the body, so a stale copy can't come back on pull
+  properties[names.prompt] = { rich_text: bodyAsBlocks ? [] : splitTextForNotion(prompt.prompt || '') }
+
   // Optional fields
   if (prompt.category) {
-    properties[PROP_NAMES.category] = { select: { name: prompt.category } }
+    properties[names.category] = { select: { name: prompt.category } }
   }
 
   if (prompt.tags.length > 0) {
-    properties[PROP_NAMES.tags] = {
+    properties[names.tags] = {
       multi_select: prompt.tags.map((tag) => ({ name: tag })),
     }
   }
 
   if (prompt.quality) {
-    properties[PROP_NAMES.quality] = { select: { name: String(prompt.quality) } }
+    properties[names.quality] = { select: { name: String(prompt.quality) } }
   }
 
   if (prompt.textDemo) {
-    properties[PROP_NAMES.textDemo] = {
+    properties[names.textDemo] = {
       rich_text: splitTextForNotion(prompt.textDemo),
     }
   }
 
   if (prompt.urlDemo) {
-    properties[PROP_NAMES.urlDemo] = { url: prompt.urlDemo }
+    properties[names.urlDemo] = { url: prompt.urlDemo }
   }
 
   // FileDemo is handled separately (files property type)
@@ -197,37 +248,43 @@ export interface ParsedNotionPrompt extends Partial<Prompt> {
 /**
  * Convert Notion page to local Prompt format
  */
-export function notionPageToPrompt(page: {
-  id: string
-  last_edited_time: string
-  properties: Record<string, unknown>
-}): ParsedNotionPrompt {
+export function notionPageToPrompt(
+  page: {
+    id: string
+    last_edited_time: string
+    properties: Record<string, unknown>
+  },
+  mapping?: PropertyMapping | null,
+  bodyAsBlocks = false
+): ParsedNotionPrompt {
   const props = page.properties
-  const qualityStr = getSelectValue(getProp(props, PROP_NAMES.quality))
+  const names = getPromptPropertyNames(mapping)
+  const qualityStr = getSelectValue(getProp(props, names.quality))
   const quality = qualityStr ? (parseInt(qualityStr, 10) as QualityRating) : null
 
   // Get prompt content - try "Prompt" first, fallback to "Note" if empty
-  const promptContent = getRichText(getProp(props, PROP_NAMES.prompt))
-  const noteContent = getRichText(getProp(props, PROP_NAMES.note))
+  const promptContent = getRichText(getProp(props, names.prompt))
+  const noteContent = getRichText(getProp(props, names.note))
   // Use prompt if available, otherwise use note as the prompt content
-  const mainPrompt = promptContent || noteContent
+  // (not when the prompt lives in the page body - the sync engine reads it from there)
+  const mainPrompt = bodyAsBlocks ? promptContent : promptContent || noteContent
 
   return {
-    localId: getRichText(getProp(props, PROP_NAMES.localId)) || undefined,
+    localId: getRichText(getProp(props, names.localId)) || undefined,
     notionId: page.id,
-    title: getTitleText(getProp(props, PROP_NAMES.title)),
-    description: getRichText(getProp(props, PROP_NAMES.description)),
+    title: getTitleText(getProp(props, names.title)),
+    description: getRichText(getProp(props, names.description)),
     prompt: mainPrompt,
-    type: ((getSelectValue(getProp(props, PROP_NAMES.type))?.toLowerCase() || 'text') as PromptType),
-    category: getSelectValue(getProp(props, PROP_NAMES.category)),
-    tags: getMultiSelect(getProp(props, PROP_NAMES.tags)),
-    note: promptContent ? noteContent : '', // Only use note if prompt has content
-    approved: getCheckbox(getProp(props, PROP_NAMES.approved)),
-    favorite: getCheckbox(getProp(props, PROP_NAMES.favorite)),
+    type: ((getSelectValue(getProp(props, names.type))?.toLowerCase() || 'text') as PromptType),
+    category: getSelectValue(getProp(props, names.category)),
+    tags: getMultiSelect(getProp(props, names.tags)),
+    note: promptContent || bodyAsBlocks ? noteContent : '', // Only use note if prompt has content
+    approved: getCheckbox(getProp(props, names.approved)),
+    favorite: getCheckbox(getProp(props, names.favorite)),
     quality: quality && quality >= 1 && quality <= 5 ? quality : null,
-    textDemo: getRichText(getProp(props, PROP_NAMES.textDemo)) || null,
-    fileDemo: getFiles(getProp(props, PROP_NAMES.fileDemo)),
-    urlDemo: getUrl(getProp(props, PROP_NAMES.urlDemo)),
+    textDemo: getRichText(getProp(props, names.textDemo)) || null,
+    fileDemo: getFiles(getProp(props, names.fileDemo)),
+    urlDemo: getUrl(getProp(props, names.urlDemo)),
     syncStatus: 'synced',
     updatedAt: new Date(page.last_edited_time),
   }
@@ -236,9 +293,9 @@ export function notionPageToPrompt(page: {
 /**
  * Get filter for finding prompt by LocalID
  */
-export function getPromptLocalIdFilter(localId: string): Record<string, unknown> {
+export function getPromptLocalIdFilter(localId: string, mapping?: PropertyMapping | null): Record<string, unknown> {
   return {
-    property: PROP_NAMES.localId,
+    property: getPromptPropertyNames(mapping).localId,
     rich_text: {
       equals: localId,
     },
@@ -0,0 +1,35 @@
+/**
+ * User-configurable property mapping
+ * Resolves which Notion property each local field is read from and written to
+ */
+
+import type { PropertyMapping } from '@/types'
+import type { DatabaseSchema, PropertySpec } from './database-schema'
+
+/**
+ * Default property names with the user's overrides applied
+ * Blank overrides fall back to the default
+ */
+export function resolvePropertyNames<K extends string>(
+  defaults: Readonly<Record<K, string>>,
+  mapping?: PropertyMapping | null
+): Record<K, string> {
+  const names = { ...defaults } as Record<K, string>
+  for (const key of Object.keys(defaults) as K[]) {
+    const mapped = mapping?.properties[key]?.trim()
+    if (mapped) names[key] = mapped
+  }
+  return names
+}
+
+/**
+ * Expected database schema under a mapping (property name → spec)
+ */
+export function buildDatabaseSchema<K extends string>(
+  defaults: Readonly<Record<K, string>>,
+  specs: Readonly<Partial<Record<K, PropertySpec>>>,
+  mapping?: PropertyMapping | null
+): DatabaseSchema {
+  const names = resolvePropertyNames(defaults, mapping)
+  return Object.fromEntries((Object.keys(specs) as K[]).map((key) => [names[key], specs[key]!]))
+}
@@ -1,69 +1,148 @@
 /**
  * Rate limiter for Notion API requests
- * Enforces 350ms minimum interval between requests (2.8 req/s, under 3 req/s limit)
+ *
+ * - Priority lanes: interactive (a page is waiting) > push (queued local changes) > pull (remote reads)
+ * - Adaptive pacing: request starts are 350ms apart (2.8 req/s, under the 3 req/s limit);
+ *   a 429 doubles the gap and honours Retry-After, a run of successes eases it back
+ * - Bounded concurrency: a few requests may be in flight at once
+ * - Cancellation: an aborted signal drops a waiting task and rejects it with the abort reason
  */
 
+export type RequestPriority = 'interactive' | 'push' | 'pull'
+
+export interface ScheduleOptions {
+  priority: RequestPriority
+  signal?: AbortSignal
+}
+
 type QueuedTask<T> = {
   fn: () => Promise<T>
   resolve: (value: T) => void
   reject: (error: unknown) => void
+  priority: RequestPriority
+  signal?: AbortSignal
+  onAbort?: () => void
+  rateLimitRetries: number
 }
 
+// Highest priority first
+const LANES: RequestPriority[] = ['interactive', 'push', 'pull']
+
 export class NotionRateLimiter {
-  private queue: QueuedTask<unknown>[] = []
-  private processing = false
-  private lastRequestTime = 0
-  private readonly MIN_INTERVAL = 350 // ms between requests
+  private lanes: Record<RequestPriority, QueuedTask<unknown>[]> = { interactive: [], push: [], pull: [] }
+  private active = 0
+  private interval: number
+  private nextStartAt = 0 // Earliest start of the next request
+  private successStreak = 0
+  private timer: ReturnType<typeof setTimeout> | null = null
+
+  private readonly MIN_INTERVAL = 350 // ms between request starts
+  private readonly MAX_INTERVAL = 5000
+  private readonly RECOVERY_STREAK = 10 // Successes before the gap shrinks again
+  private readonly MAX_CONCURRENT = 3
+  private readonly MAX_RATE_LIMIT_RETRIES = 5
+
+  constructor() {
+    this.interval = this.MIN_INTERVAL
+  }
 
   /**
    * Execute a function with rate limiting
    */
-  async execute<T>(fn: () => Promise<T>): Promise<T> {
-    return new Promise((resolve, reject) => {
-      this.queue.push({ fn, resolve, reject } as QueuedTask<unknown>)
-      this.processQueue()
-    })
-  }
+  execute<T>(fn: () => Promise<T>, { priority, signal }: ScheduleOptions): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason)
+        return
+      }
 
-  private async processQueue(): Promise<void> {
-    if (this.processing || this.queue.length === 0) return
-    this.processing = true
+      const task: QueuedTask<T> = { fn, resolve, reject, priority, signal, rateLimitRetries: 0 }
+      if (signal) {
+        // Only waiting tasks are dropped here - a running one sees the signal itself
+        task.onAbort = () => {
+          const lane = this.lanes[priority]
+          const index = lane.indexOf(task as QueuedTask<unknown>)
+          if (index === -1) return
+          lane.splice(index, 1)
+          reject(signal.reason)
+        }
+        signal.addEventListener('abort', task.onAbort, { once: true })
+      }
 
-    while (this.queue.length > 0) {
-      const task = this.queue.shift()!
+      this.lanes[priority].push(task as QueuedTask<unknown>)
+      this.pump()
+    })
+  }
 
-      // Wait for rate limit interval
-      const now = Date.now()
-      const timeSinceLastRequest = now - this.lastRequestTime
-      if (timeSinceLastRequest < this.MIN_INTERVAL) {
-        await this.sleep(this.MIN_INTERVAL - timeSinceLastRequest)
+  /**
+   * Start as many waiting tasks as pacing and concurrency allow
+   */
+  private pump(): void {
+    // A start is already scheduled - it picks the highest lane when it fires
+    if (this.timer) return
+
+    while (this.active < this.MAX_CONCURRENT) {
+      const lane = LANES.find((priority) => this.lanes[priority].length > 0)
+      if (!lane) return
+
+      const wait = this.nextStartAt - Date.now()
+      if (wait > 0) {
+        this.timer = setTimeout(() => {
+          this.timer = null
+          this.pump()
+        }, wait)
+        return
       }
 
-      this.lastRequestTime = Date.now()
-
-      try {
-        const result = await task.fn()
-        task.resolve(result)
-      } catch (error) {
-        // Handle 429 rate limit response
-        if (this.isRateLimitError(error)) {
-          const retryAfter = this.getRetryAfter(error)
-          console.warn(`Rate limited. Retrying after ${retryAfter}ms`)
-
-          // Re-queue the task after waiting
-          await this.sleep(retryAfter)
-          this.queue.unshift(task)
-        } else {
-          task.reject(error)
-        }
+      const task = this.lanes[lane].shift()!
+      this.nextStartAt = Date.now() + this.interval
+      this.run(task)
+    }
+  }
+
+  private async run(task: QueuedTask<unknown>): Promise<void> {
+    this.active++
+    try {
+      const result = await task.fn()
+      this.recordSuccess()
+      this.settle(task)
+      task.resolve(result)
+    } catch (error) {
+      if (this.isRateLimitError(error) && !task.signal?.aborted && task.rateLimitRetries < this.MAX_RATE_LIMIT_RETRIES) {
+        const retryAfter = this.getRetryAfter(error)
+        this.recordRateLimit(retryAfter)
+        console.warn(`Rate limited. Retrying after ${retryAfter}ms, ${this.interval}ms between requests`)
+
+        // Back to the front of its lane, still cancellable
+        task.rateLimitRetries++
+        this.lanes[task.priority].unshift(task)
+      } else {
+        this.settle(task)
+        task.reject(error)
       }
+    } finally {
+      this.active--
+      this.pump()
     }
+  }
 
-    this.processing = false
+  private settle(task: QueuedTask<unknown>): void {
+    if (task.onAbort) task.signal?.removeEventListener('abort', task.onAbort)
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms))
+  private recordRateLimit(retryAfter: number): void {
+    this.interval = Math.min(this.MAX_INTERVAL, this.interval * 2)
+    this.successStreak = 0
+    this.nextStartAt = Math.max(this.nextStartAt, Date.now() + retryAfter)
+  }
+
+  private recordSuccess(): void {
+    if (this.interval === this.MIN_INTERVAL) return
+    this.successStreak++
+    if (this.successStreak >= this.RECOVERY_STREAK) {
+      this.interval = Math.max(this.MIN_INTERVAL, Math.round(this.interval * 0.8))
+      this.successStreak = 0
+    }
   }
 
   private isRateLimitError(error: unknown): boolean {
@@ -94,14 +173,14 @@ export class NotionRateLimiter {
    * Get queue length for status display
    */
   get queueLength(): number {
-    return this.queue.length
+    return LANES.reduce((total, priority) => total + this.lanes[priority].length, 0)
   }
 
   /**
    * Check if currently processing
    */
   get isProcessing(): boolean {
-    return this.processing
+    return this.active > 0
   }
 }
 
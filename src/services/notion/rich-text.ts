@@ -0,0 +1,121 @@
+/**
+ * Convert between inline Markdown and Notion rich_text arrays
+ * Annotations (bold, italic, strikethrough, underline, code, color) and links survive both ways
+ */
+
+import { parseInlineMarkdown, formatInlineMarkdown, type InlineSpan } from '@/utils/markdown'
+
+// Notion API limits: 2000 characters per rich_text element, 100 elements per array
+const NOTION_TEXT_LIMIT = 2000
+const NOTION_ELEMENT_LIMIT = 100
+
+export interface RichTextInput {
+  type: 'text'
+  text: { content: string; link?: { url: string } | null }
+  annotations?: {
+    bold: boolean
+    italic: boolean
+    strikethrough: boolean
+    underline: boolean
+    code: boolean
+    color: string
+  }
+}
+
+// Rich text element as returned by the API (only the fields read here)
+export interface NotionRichText {
+  plain_text?: string
+  href?: string | null
+  annotations?: {
+    bold?: boolean
+    italic?: boolean
+    strikethrough?: boolean
+    underline?: boolean
+    code?: boolean
+    color?: string
+  }
+}
+
+// Notion rejects links it can't resolve - keep such text unlinked
+const isLinkable = (href: string) => /^(https?:|mailto:)/i.test(href)
+
+function chunk(text: string): string[] {
+  const chunks: string[] = []
+  for (let i = 0; i < text.length; i += NOTION_TEXT_LIMIT) {
+    chunks.push(text.slice(i, i + NOTION_TEXT_LIMIT))
+  }
+  return chunks
+}
+
+/**
+ * Drop elements past the per-array limit - Notion rejects the whole request otherwise
+ */
+export function limitRichText<T>(elements: T[]): T[] {
+  return elements.slice(0, NOTION_ELEMENT_LIMIT)
+}
+
+/**
+ * Unformatted text split at the per-element limit (code blocks, plain properties)
+ */
+export function plainTextToRichText(text: string): RichTextInput[] {
+  return limitRichText(chunk(text).map((content) => ({ type: 'text', text: { content } })))
+}
+
+/**
+ * Inline Markdown → rich_text with annotations and links
+ */
+export function markdownToRichText(markdown: string): RichTextInput[] {
+  return limitRichText(parseInlineMarkdown(markdown).flatMap((span) =>
+    chunk(span.text).map((content): RichTextInput => ({
+      type: 'text',
+      text: {
+        content,
+        link: span.href && isLinkable(span.href) ? { url: span.href } : null,
+      },
+      annotations: {
+        bold: !!span.bold,
+        italic: !!span.italic,
+        strikethrough: !!span.strikethrough,
+        underline: !!span.underline,
+        code: !!span.code,
+        color: span.color ?? 'default',
+      },
+    }))
+  ))
+}
+
+/**
+ * rich_text → inline Markdown, keeping annotations and links
+ */
+export function richTextToMarkdown(richText: NotionRichText[]): string {
+  const spans: InlineSpan[] = richText
+    .filter((t) => t.plain_text)
+    .map((t) => {
+      const a = t.annotations ?? {}
+      return {
+        text: t.plain_text!,
+        bold: a.bold || undefined,
+        italic: a.italic || undefined,
+        strikethrough: a.strikethrough || undefined,
+        underline: a.underline || undefined,
+        code: a.code || undefined,
+        color: a.color && a.color !== 'default' ? a.color : undefined,
+        href: t.href || undefined,
+      }
+    })
+  return formatInlineMarkdown(spans)
+}
+
+/**
+ * A written rich_text element as the API returns it
+ */
+export function toReturnedRichText(input: RichTextInput): NotionRichText {
+  return { plain_text: input.text.content, href: input.text.link?.url ?? null, annotations: input.annotations }
+}
+
+/**
+ * rich_text → plain text (code blocks, where annotations don't apply)
+ */
+export function richTextToPlainText(richText: NotionRichText[]): string {
+  return richText.map((t) => t.plain_text || '').join('')
+}
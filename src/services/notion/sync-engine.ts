@@ -0,0 +1,777 @@
+/**
+ * Generic sync engine for bidirectional Notion synchronization
+ * Handles queue processing, field-level three-way merge, deletion propagation,
+ * retry backoff and auth pauses for any synced entity type
+ *
+ * Each entity type (items, prompts) plugs in through a SyncEntityConfig:
+ * its Dexie table, its queue table and its transformer
+ */
+
+import type { InsertType, Table, UpdateSpec } from 'dexie'
+import { notionClient, type NotionClient, type NotionPage } from './api-client'
+import { getSettings, updateSettings, pauseSync, getPropertyMapping } from '@/db/operations/settings-operations'
+import { saveConflict, getConflictedIds } from '@/db/operations/conflict-operations'
+import { classifySyncError, getQueueFailureUpdate, isDueForAttempt, formatSyncError } from './sync-errors'
+import { threeWayMerge, pickFields, type SnapshotFields } from './merge'
+import { validateDatabaseSchema, repairDatabaseSchema, type DatabaseSchema, type SchemaReport } from './database-schema'
+import { contentToBlocks, blocksToContent, isConvertibleBlock, roundTripContent } from './block-converter'
+import type {
+  Operation,
+  PropertyMapping,
+  QueueStatus,
+  Settings,
+  SyncEntityType,
+  SyncPhase,
+  SyncQueueError,
+  SyncSnapshot,
+  SyncStatus,
+} from '@/types'
+
+// How often delta syncs also run a full page-ID scan to catch hard deletions
+const RECONCILE_INTERVAL_MS = 6 * 60 * 60 * 1000 // 6 hours
+
+export type SyncResult = {
+  success: boolean
+  created: number
+  updated: number
+  deleted: number
+  conflicts: number // Fields changed on both sides since last sync
+  errors: string[]
+}
+
+// Minimum shape of a synced local record
+export interface SyncableRecord {
+  id: string
+  title: string
+  updatedAt: Date
+  notionId: string | null
+  syncStatus: SyncStatus
+}
+
+// Minimum shape of a sync queue entry
+export interface SyncQueueRecord {
+  id?: number
+  operation: Operation
+  payload: { notionId?: string | null } | null
+  timestamp: number
+  retries: number
+  status: QueueStatus
+  lastError?: SyncQueueError | null
+  nextAttemptAt?: number | null
+  overwriteBody?: boolean
+}
+
+// A Notion page converted to local form
+export interface RemoteRecord {
+  fields: SnapshotFields          // Merge fields, in local (ID) form
+  extra: Record<string, unknown>  // Derived non-merged fields applied on pull (e.g. favicon)
+  updatedAt: Date | null
+}
+
+type SettingsKey<V> = { [K in keyof Settings]: Settings[K] extends V ? K : never }[keyof Settings]
+
+export interface SyncEntityConfig<T extends SyncableRecord, Q extends SyncQueueRecord, C> {
+  entityType: SyncEntityType
+  logPrefix: string
+  table: Table<T, string, InsertType<T, 'id'>>
+  queueTable: Table<Q, number | undefined, InsertType<Q, 'id'>>
+  queueKey: keyof Q & string      // Queue field holding the local record ID
+  mergeFields: readonly string[]
+  // Properties the transformer reads and writes
+  getSchema: (mapping: PropertyMapping | null, settings: Settings) => DatabaseSchema
+  // Settings fields owned by this entity type
+  databaseIdKey: SettingsKey<string | null>
+  lastSyncKey: SettingsKey<number | null>  // Delta pull watermark - only pulls move it
+  lastPushKey: SettingsKey<number | null>
+  lastReconcileKey: SettingsKey<number | null>
+  getSnapshot: (id: string) => Promise<SyncSnapshot | undefined>
+  saveSnapshot: (id: string, fields: SnapshotFields) => Promise<void>
+  removeLocally: (id: string) => Promise<void>
+  // Transformer
+  // Lookup data shared by one sync run, loaded through the run's client
+  loadContext: (mapping: PropertyMapping | null, client: NotionClient) => Promise<C>
+  getLocalId: (page: NotionPage, context: C) => string | null
+  toNotionProperties: (record: T, context: C) => Record<string, unknown>
+  fromNotionPage: (page: NotionPage, context: C) => Promise<RemoteRecord>
+  createLocal: (id: string, remote: RemoteRecord, notionId: string) => T
+  localIdFilter: (localId: string, context: C) => Record<string, unknown>
+  // Text field synced as the page's content blocks instead of a property
+  body?: {
+    field: keyof T & string
+    enabled: (context: C, fields: Partial<T>) => boolean // Per record (local or pulled fields)
+  }
+}
+
+// One step of a running push or pull, reported to the progress listener
+export interface SyncProgressUpdate {
+  entityType: SyncEntityType
+  phase: SyncPhase
+  fetched?: number
+  position?: number
+  total?: number
+  current?: string | null
+  error?: string
+}
+
+const emptyResult = (): SyncResult => ({ success: true, created: 0, updated: 0, deleted: 0, conflicts: 0, errors: [] })
+
+export class SyncEngine<T extends SyncableRecord, Q extends SyncQueueRecord, C> {
+  private isSyncing = false
+  private controller: AbortController | null = null
+  private phase: SyncPhase = 'pull'
+  private progressListener: ((update: SyncProgressUpdate) => void) | null = null
+
+  constructor(private readonly config: SyncEntityConfig<T, Q, C>) {}
+
+  /**
+   * Check if sync is currently in progress
+   */
+  get syncing(): boolean {
+    return this.isSyncing
+  }
+
+  /**
+   * Abort the running push or pull - its queued and in-flight requests are dropped
+   * Entries being pushed go back to the queue without counting a retry
+   */
+  cancel(): void {
+    this.controller?.abort()
+  }
+
+  /**
+   * Receive progress of each push and pull
+   * Returns a function that removes the listener
+   */
+  onProgress(listener: (update: SyncProgressUpdate) => void): () => void {
+    this.progressListener = listener
+    return () => {
+      if (this.progressListener === listener) this.progressListener = null
+    }
+  }
+
+  private report(update: Omit<SyncProgressUpdate, 'entityType' | 'phase'>): void {
+    this.progressListener?.({ entityType: this.config.entityType, phase: this.phase, ...update })
+  }
+
+  /**
+   * Start a run: requests go through a client in the given lane that cancel() aborts
+   */
+  private beginRun(phase: SyncPhase): { client: NotionClient; signal: AbortSignal } {
+    this.isSyncing = true
+    this.phase = phase
+    this.controller = new AbortController()
+    const { signal } = this.controller
+    this.report({ fetched: 0, position: 0, total: 0, current: null })
+    return { client: notionClient.scoped({ priority: phase, signal }), signal }
+  }
+
+  private endRun(): void {
+    this.isSyncing = false
+    this.controller = null
+  }
+
+  /**
+   * Database ID and property mapping for this entity type, or null if not configured
+   */
+  private getTarget(settings: Settings): { databaseId: string; mapping: PropertyMapping | null } | null {
+    const databaseId = settings[this.config.databaseIdKey]
+    if (!settings.notionToken || !databaseId) return null
+    return { databaseId, mapping: getPropertyMapping(settings, databaseId) }
+  }
+
+  private getEntityId(queueItem: Q): string {
+    return queueItem[this.config.queueKey] as string
+  }
+
+  private async updateRecord(id: string, changes: Partial<T>): Promise<void> {
+    await this.config.table.update(id, changes as UpdateSpec<InsertType<T, 'id'>>)
+  }
+
+  private async updateQueueEntry(id: number, changes: Partial<SyncQueueRecord>): Promise<void> {
+    await this.config.queueTable.update(id, changes as UpdateSpec<InsertType<Q, 'id'>>)
+  }
+
+  /**
+   * Push all queued local changes whose backoff has elapsed
+   */
+  async processQueue(): Promise<SyncResult> {
+    const { logPrefix, queueTable, entityType } = this.config
+
+    if (this.isSyncing) {
+      return { ...emptyResult(), success: false, errors: ['Sync already in progress'] }
+    }
+
+    const { client, signal } = this.beginRun('push')
+    const result = emptyResult()
+
+    try {
+      const settings = await getSettings()
+      const target = this.getTarget(settings)
+      if (!target) {
+        console.log(`${logPrefix} Database not configured, skipping queue processing`)
+        return result
+      }
+
+      // Token was rejected earlier - leave the queue untouched until it is fixed
+      if (settings.syncPausedAt) {
+        result.success = false
+        result.errors.push(`Sync paused: ${settings.syncPauseReason ?? 'authentication failed'}`)
+        return result
+      }
+
+      const context = await this.config.loadContext(target.mapping, client)
+
+      // Only entries whose backoff has elapsed, oldest first
+      const now = Date.now()
+      const pending = (await queueTable.where('status').equals('queued').sortBy('timestamp'))
+        .filter((q) => isDueForAttempt(q, now))
+
+      // Records with unresolved conflicts stay queued until the user decides
+      const conflicted = await getConflictedIds(entityType)
+      this.report({ total: pending.length })
+
+      for (const [index, queueItem] of pending.entries()) {
+        if (signal.aborted) {
+          result.errors.push('Sync cancelled')
+          break
+        }
+
+        const entityId = this.getEntityId(queueItem)
+        this.report({ position: index + 1, current: null })
+        if (queueItem.operation !== 'delete' && conflicted.has(entityId)) continue
+
+        try {
+          await this.processQueueItem(queueItem, target.databaseId, result, context, client)
+        } catch (error) {
+          // Cancelled, not failed - the entry keeps its retries
+          if (signal.aborted) {
+            await this.updateQueueEntry(queueItem.id!, { status: 'queued' })
+            result.errors.push('Sync cancelled')
+            break
+          }
+
+          const syncError = classifySyncError(error)
+          const message = `${queueItem.operation} ${entityId}: ${formatSyncError(syncError)}`
+          result.errors.push(message)
+          this.report({ error: message })
+          console.error(`${logPrefix} Error processing queue entry:`, error)
+          await this.updateQueueEntry(queueItem.id!, getQueueFailureUpdate(queueItem.retries || 0, syncError))
+
+          // Every remaining request would fail the same way
+          if (syncError.kind === 'auth') {
+            await pauseSync(syncError.message)
+            break
+          }
+        }
+      }
+
+      if (result.errors.length > 0) {
+        result.success = false
+      }
+
+      await updateSettings({ [this.config.lastPushKey]: Date.now() })
+    } catch (error) {
+      result.success = false
+      if (signal.aborted) {
+        result.errors.push('Sync cancelled')
+      } else {
+        const syncError = classifySyncError(error)
+        if (syncError.kind === 'auth') await pauseSync(syncError.message)
+        result.errors.push(formatSyncError(syncError))
+        this.report({ error: formatSyncError(syncError) })
+      }
+    } finally {
+      this.endRun()
+    }
+
+    return result
+  }
+
+  /**
+   * Process a single queue entry
+   */
+  private async processQueueItem(queueItem: Q, databaseId: string, result: SyncResult, context: C, client: NotionClient): Promise<void> {
+    const { table, queueTable } = this.config
+
+    await this.updateQueueEntry(queueItem.id!, { status: 'syncing' })
+
+    const record = await table.get(this.getEntityId(queueItem))
+    this.report({ current: record?.title ?? null })
+
+    switch (queueItem.operation) {
+      case 'create': {
+        if (!record) {
+          // Deleted locally before it was pushed
+          await queueTable.delete(queueItem.id!)
+          return
+        }
+
+        // A previous attempt may have created the page before failing
+        const existing = await client.queryDatabase(databaseId, this.config.localIdFilter(record.id, context))
+        if (existing.results && existing.results.length > 0) {
+          await this.updateRecord(record.id, {
+            notionId: existing.results[0].id,
+            syncStatus: 'synced',
+          } as Partial<T>)
+        } else {
+          const properties = this.config.toNotionProperties(record, context)
+          const body = this.getBody(record, context)
+          const newPage = await client.createPage(databaseId, properties, body !== null ? contentToBlocks(body) : [])
+          await this.updateRecord(record.id, {
+            notionId: newPage.id,
+            syncStatus: 'synced',
+          } as Partial<T>)
+          await this.config.saveSnapshot(record.id, await this.readPushedFields(newPage, body, context))
+        }
+
+        result.created++
+        break
+      }
+
+      case 'update': {
+        if (!record?.notionId) {
+          // Never pushed - treat as create
+          if (record) {
+            await this.updateQueueEntry(queueItem.id!, { operation: 'create' })
+            return this.processQueueItem({ ...queueItem, operation: 'create' }, databaseId, result, context, client)
+          }
+          await queueTable.delete(queueItem.id!)
+          return
+        }
+
+        const properties = this.config.toNotionProperties(record, context)
+        const page = await client.updatePage(record.notionId, properties)
+
+        const body = this.getBody(record, context)
+        const written = body !== null
+          ? await this.replacePageBody(record.notionId, body, client, !!queueItem.overwriteBody)
+          : null
+        const fields = await this.readPushedFields(page, body, context)
+        const field = this.config.body?.field
+
+        if (written?.untouched) {
+          // The page holds blocks a rewrite would destroy - the body waits for the user
+          const snapshot = await this.config.getSnapshot(record.id)
+          await saveConflict({
+            entityType: this.config.entityType,
+            entityId: record.id,
+            title: record.title,
+            fields: [{ field: field!, base: snapshot?.fields[field!] ?? null, local: body, remote: written.content }],
+            remoteEditedAt: new Date(page.last_edited_time).getTime(),
+          })
+          // Base is the body Notion still holds, so the local edit stays pending
+          fields[field!] = written.content
+          result.conflicts++
+        } else if (written && written.content !== body) {
+          // Blocks kept around the chosen body are part of it from now on
+          await this.updateRecord(record.id, { [field!]: written.content } as Partial<T>)
+          fields[field!] = written.content
+        }
+
+        await this.updateRecord(record.id, { syncStatus: written?.untouched ? 'conflict' : 'synced' } as Partial<T>)
+        await this.config.saveSnapshot(record.id, fields)
+
+        result.updated++
+        break
+      }
+
+      case 'delete': {
+        // Record is already gone locally - the payload keeps its notionId
+        const notionId = queueItem.payload?.notionId
+        if (notionId) {
+          await client.archivePage(notionId)
+        }
+
+        result.deleted++
+        break
+      }
+    }
+
+    // Remove from queue on success
+    await queueTable.delete(queueItem.id!)
+  }
+
+  /**
+   * Pull changes from Notion and merge with local data
+   * Supports delta sync (incremental) when the last sync time is known
+   *
+   * @param forceFullSync If true, fetches all pages regardless of last sync time
+   */
+  async pullFromNotion(forceFullSync = false): Promise<SyncResult> {
+    const { logPrefix, table, entityType, mergeFields } = this.config
+
+    if (this.isSyncing) {
+      return { ...emptyResult(), success: false, errors: ['Sync already in progress'] }
+    }
+
+    const { client, signal } = this.beginRun('pull')
+    const result = emptyResult()
+
+    try {
+      const settings = await getSettings()
+      const target = this.getTarget(settings)
+      if (!target) {
+        console.log(`${logPrefix} Database not configured, skipping pull`)
+        return result
+      }
+
+      if (settings.syncPausedAt) {
+        result.success = false
+        result.errors.push(`Sync paused: ${settings.syncPauseReason ?? 'authentication failed'}`)
+        return result
+      }
+
+      // Edits made while this pull runs may be missed by it - the next one starts from here
+      const startedAt = Date.now()
+      const context = await this.config.loadContext(target.mapping, client)
+
+      // Delta sync: only fetch pages modified since last sync
+      const lastSyncAt = forceFullSync ? null : settings[this.config.lastSyncKey]
+      const onFetched = (fetched: number) => this.report({ fetched })
+      const notionPages = lastSyncAt
+        ? await client.getModifiedPagesSince(target.databaseId, lastSyncAt, onFetched)
+        : await client.getAllPages(target.databaseId, undefined, onFetched)
+      this.report({ total: notionPages.length })
+
+      console.log(`${logPrefix} ${lastSyncAt ? 'Delta' : 'Full'} sync: fetched ${notionPages.length} pages`)
+
+      // Build lookup maps
+      const localRecords = await table.toArray()
+      const localByNotionId = new Map<string, T>()
+      const localByLocalId = new Map<string, T>()
+      for (const record of localRecords) {
+        if (record.notionId) localByNotionId.set(record.notionId, record)
+        localByLocalId.set(record.id, record)
+      }
+
+      for (const [index, page] of notionPages.entries()) {
+        // Stop before merging more - the sync time must not move past unmerged pages
+        signal.throwIfAborted()
+        const localId = this.config.getLocalId(page, context)
+
+        // Find matching local record
+        let localRecord = localByNotionId.get(page.id)
+        if (!localRecord && localId) {
+          localRecord = localByLocalId.get(localId)
+        }
+        this.report({ position: index + 1, current: localRecord?.title ?? null })
+
+        // Archived/deleted in Notion - remove locally
+        // (unless the record already moved on to another page)
+        if (page.archived) {
+          if (localRecord && (!localRecord.notionId || localRecord.notionId === page.id)) {
+            await this.applyRemoteDeletion(localRecord, result)
+          }
+          continue
+        }
+
+        // Parsed only for live pages - may create tags/categories on the way
+        const remote = await this.config.fromNotionPage(page, context)
+        await this.readPageBody(page.id, remote, context, client)
+        if (!localRecord && typeof remote.fields.title === 'string') this.report({ current: remote.fields.title })
+
+        if (!localRecord) {
+          // New record from Notion
+          const newRecord = this.config.createLocal(localId || crypto.randomUUID(), remote, page.id)
+          await table.add(newRecord)
+          await this.config.saveSnapshot(newRecord.id, pickFields(newRecord, mergeFields))
+          result.created++
+          continue
+        }
+
+        // Existing record - field-level three-way merge against last-synced base
+        const snapshot = await this.config.getSnapshot(localRecord.id)
+        const notionTime = new Date(page.last_edited_time).getTime()
+        const localTime = localRecord.updatedAt.getTime()
+
+        // LWW only breaks ties for fields changed on both sides
+        const merge = threeWayMerge(
+          snapshot?.fields ?? null,
+          localRecord,
+          remote.fields,
+          mergeFields,
+          notionTime > localTime
+        )
+
+        // Both sides changed the same fields - hold them for the conflict inbox
+        if (merge.conflicts.length > 0) {
+          await saveConflict({
+            entityType,
+            entityId: localRecord.id,
+            title: localRecord.title,
+            fields: merge.conflicts,
+            remoteEditedAt: notionTime,
+          })
+          result.conflicts += merge.conflicts.length
+        }
+
+        if (merge.localChanged || merge.conflicts.length > 0 || localRecord.notionId !== page.id) {
+          const syncStatus: SyncStatus = merge.conflicts.length > 0 ? 'conflict' : merge.needsPush ? 'pending' : 'synced'
+          await this.updateRecord(localRecord.id, {
+            ...merge.merged,
+            ...remote.extra,
+            notionId: page.id,
+            syncStatus,
+            updatedAt: new Date(Math.max(notionTime, localTime)),
+          } as Partial<T>)
+          result.updated++
+        }
+
+        // Local-only changes go back to Notion through the queue
+        if (merge.needsPush) {
+          await this.ensureQueued(localRecord.id)
+        }
+
+        // Base is now what Notion holds
+        await this.config.saveSnapshot(localRecord.id, remote.fields)
+      }
+
+      // Detect pages that vanished from the database entirely
+      // Delta queries never return them, so compare against a full ID scan
+      if (!lastSyncAt) {
+        const liveIds = new Set(notionPages.filter((p) => !p.archived).map((p) => p.id))
+        await this.reconcileDeletions(liveIds, result)
+      } else if (Date.now() - (settings[this.config.lastReconcileKey] ?? 0) >= RECONCILE_INTERVAL_MS) {
+        const liveIds = await client.getAllPageIds(target.databaseId)
+        await this.reconcileDeletions(liveIds, result)
+      }
+
+      await updateSettings({ [this.config.lastSyncKey]: startedAt })
+    } catch (error) {
+      result.success = false
+      if (signal.aborted) {
+        result.errors.push('Sync cancelled')
+      } else {
+        const syncError = classifySyncError(error)
+        if (syncError.kind === 'auth') await pauseSync(syncError.message)
+        result.errors.push(formatSyncError(syncError))
+        this.report({ error: formatSyncError(syncError) })
+      }
+    } finally {
+      this.endRun()
+    }
+
+    return result
+  }
+
+  /**
+   * Body text to sync as blocks, or null when this entity keeps it in a property
+   */
+  private getBody(record: T, context: C): string | null {
+    const { body } = this.config
+    if (!body?.enabled(context, record)) return null
+    return String(record[body.field] ?? '')
+  }
+
+  /**
+   * Merge fields of a pushed page as the next pull will read them, to store as the base
+   * Markdown doesn't always come back character for character ("* " bullets read back as "- "),
+   * and a base holding the local spelling would look like an edit made in Notion
+   */
+  private async readPushedFields(page: NotionPage, body: string | null, context: C): Promise<SnapshotFields> {
+    const { fields } = await this.config.fromNotionPage(page, context)
+    if (body !== null) fields[this.config.body!.field] = roundTripContent(body)
+    return pickFields(fields, this.config.mergeFields)
+  }
+
+  /**
+   * Replace the top-level blocks of a page with the converted body
+   * Skipped when the page already holds the same text
+   * Pages holding blocks the converter can't write back are left untouched, unless the body
+   * was chosen in the conflict inbox: those blocks then stay, ahead of the new body
+   * Returns the body the page reads as afterwards
+   */
+  private async replacePageBody(
+    pageId: string,
+    body: string,
+    client: NotionClient,
+    keepUnconvertible: boolean
+  ): Promise<{ content: string; untouched: boolean }> {
+    const existing = await client.getBlockChildren(pageId)
+    const current = blocksToContent(existing)
+    if (existing.length > 0 && current === body) return { content: body, untouched: false }
+
+    const convertible = existing.filter(isConvertibleBlock)
+    const kept = existing.length - convertible.length
+    if (kept > 0 && !keepUnconvertible) return { content: current, untouched: true }
+
+    for (const block of convertible) {
+      await client.deleteBlock(block.id)
+    }
+    await client.appendBlockChildren(pageId, contentToBlocks(body))
+    if (kept === 0) return { content: body, untouched: false }
+    return { content: blocksToContent(await client.getBlockChildren(pageId)), untouched: false }
+  }
+
+  /**
+   * Read the page body into the remote fields
+   * Pages without blocks keep the value parsed from the legacy property
+   * (pushes clear that property, so an emptied body stays empty)
+   */
+  private async readPageBody(pageId: string, remote: RemoteRecord, context: C, client: NotionClient): Promise<void> {
+    const { body } = this.config
+    if (!body?.enabled(context, remote.fields as Partial<T>)) return
+
+    const blocks = await client.getBlockChildren(pageId)
+    if (blocks.length > 0) {
+      remote.fields[body.field] = blocksToContent(blocks)
+    }
+  }
+
+  /**
+   * Make sure a local record has a queued update so merged changes get pushed
+   */
+  private async ensureQueued(entityId: string): Promise<void> {
+    const { queueTable, queueKey } = this.config
+
+    const queued = await queueTable
+      .where(queueKey)
+      .equals(entityId)
+      .and((q) => q.status === 'queued')
+      .count()
+    if (queued > 0) return
+
+    await queueTable.add({
+      [queueKey]: entityId,
+      operation: 'update',
+      payload: null,
+      timestamp: Date.now(),
+      retries: 0,
+      status: 'queued',
+    } as unknown as Q)
+  }
+
+  /**
+   * Remove a local record whose page was deleted or archived in Notion
+   * Records with unpushed local changes are kept and detached from the page instead:
+   * their queued update then re-creates it, so an offline edit is never lost
+   */
+  private async applyRemoteDeletion(record: T, result: SyncResult): Promise<void> {
+    const { queueTable, queueKey } = this.config
+
+    const pending = await queueTable.where(queueKey).equals(record.id).count()
+    if (pending > 0) {
+      console.log(`${this.config.logPrefix} Page of ${record.id} is gone in Notion, keeping unpushed changes`)
+      await this.updateRecord(record.id, { notionId: null, syncStatus: 'pending' } as Partial<T>)
+      return
+    }
+
+    await this.config.removeLocally(record.id)
+    result.deleted++
+  }
+
+  /**
+   * Remove local records whose Notion page no longer exists
+   * Records never pushed (no notionId) are left alone
+   */
+  private async reconcileDeletions(liveNotionIds: Set<string>, result: SyncResult): Promise<void> {
+    const syncedRecords = await this.config.table.filter((record) => !!record.notionId).toArray()
+
+    for (const record of syncedRecords) {
+      if (!liveNotionIds.has(record.notionId!)) {
+        await this.applyRemoteDeletion(record, result)
+      }
+    }
+
+    await updateSettings({ [this.config.lastReconcileKey]: Date.now() })
+  }
+
+  /**
+   * Full sync: pull from Notion (delta by default), then push local changes
+   * @param forceFullSync If true, forces a complete re-sync from Notion
+   */
+  async fullSync(forceFullSync = false): Promise<SyncResult> {
+    const pullResult = await this.pullFromNotion(forceFullSync)
+    if (!pullResult.success) {
+      return pullResult
+    }
+
+    const pushResult = await this.processQueue()
+
+    return {
+      success: pullResult.success && pushResult.success,
+      created: pullResult.created + pushResult.created,
+      updated: pullResult.updated + pushResult.updated,
+      deleted: pullResult.deleted + pushResult.deleted,
+      conflicts: pullResult.conflicts + pushResult.conflicts,
+      errors: [...pullResult.errors, ...pushResult.errors],
+    }
+  }
+
+  /**
+   * Force a complete re-sync from Notion (ignores last sync time)
+   * Use this when data might be out of sync or corrupted
+   */
+  async forceFullSync(): Promise<SyncResult> {
+    return this.fullSync(true)
+  }
+
+  /**
+   * Test connection to this entity type's database
+   */
+  async testConnection(): Promise<boolean> {
+    const target = this.getTarget(await getSettings())
+    if (!target) return false
+    return notionClient.testConnection(target.databaseId)
+  }
+
+  /**
+   * Diff the connected database against the properties the transformer expects
+   */
+  async validateSchema(): Promise<SchemaReport> {
+    const settings = await getSettings()
+    const target = this.getTarget(settings)
+    if (!target) throw new Error('Database not configured')
+    return validateDatabaseSchema(target.databaseId, this.config.getSchema(target.mapping, settings))
+  }
+
+  /**
+   * Add the missing properties from a validation report, then re-validate
+   */
+  async repairSchema(report: SchemaReport): Promise<SchemaReport> {
+    const settings = await getSettings()
+    const target = this.getTarget(settings)
+    if (!target) throw new Error('Database not configured')
+    const schema = this.config.getSchema(target.mapping, settings)
+    await repairDatabaseSchema(target.databaseId, schema, report)
+    return validateDatabaseSchema(target.databaseId, schema)
+  }
+
+  /**
+   * Get sync queue status
+   */
+  async getQueueStatus(): Promise<{
+    queued: number
+    syncing: number
+    failed: number
+  }> {
+    const all = await this.config.queueTable.toArray()
+    return {
+      queued: all.filter((q) => q.status === 'queued').length,
+      syncing: all.filter((q) => q.status === 'syncing').length,
+      failed: all.filter((q) => q.status === 'failed').length,
+    }
+  }
+
+  /**
+   * Retry failed entries
+   */
+  async retryFailed(): Promise<number> {
+    const failed = await this.config.queueTable.where('status').equals('failed').toArray()
+    for (const entry of failed) {
+      await this.updateQueueEntry(entry.id!, { status: 'queued', retries: 0, lastError: null, nextAttemptAt: null })
+    }
+    return failed.length
+  }
+
+  /**
+   * Clear failed entries from queue
+   */
+  async clearFailed(): Promise<number> {
+    const failed = await this.config.queueTable.where('status').equals('failed').toArray()
+    for (const entry of failed) {
+      await this.config.queueTable.delete(entry.id!)
+    }
+    return failed.length
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Error classification and retry scheduling for queued sync operations
+ *
+ * - auth: token rejected, locked or unreadable → whole queue pauses, entry keeps its retries
+ * - permanent: request can never succeed as-is (validation, missing page) → failed at once
+ * - transient: server errors, conflicts, network → retried with exponential backoff and jitter
+ */
+
+import { isTokenVaultError } from './token-vault'
+import type { QueueStatus, SyncQueueError } from '@/types'
+
+// Backoff: 30s, 1m, 2m, 4m ... capped at 6h, randomized to 50-100% of the step
+const BASE_RETRY_DELAY_MS = 30 * 1000
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000
+const MAX_TRANSIENT_RETRIES = 8
+
+// Notion error codes that are worth retrying even with a 4xx status
+const TRANSIENT_CODES = new Set(['conflict_error', 'rate_limited'])
+
+export interface QueueFailureUpdate {
+  status: QueueStatus
+  retries: number
+  lastError: SyncQueueError
+  nextAttemptAt: number | null
+}
+
+/**
+ * Classify anything thrown by the API client or sync code
+ */
+export function classifySyncError(error: unknown): SyncQueueError {
+  const at = Date.now()
+
+  // NotionError from the API client: { status, code, message }
+  if (error !== null && typeof error === 'object' && 'status' in error && typeof error.status === 'number') {
+    const { status } = error
+    const code = 'code' in error && typeof error.code === 'string' ? error.code : 'unknown'
+    const message = 'message' in error && typeof error.message === 'string' ? error.message : `HTTP ${status}`
+
+    if (status === 401) return { kind: 'auth', status, code, message, at }
+    if (status === 429 || status >= 500 || TRANSIENT_CODES.has(code)) {
+      return { kind: 'transient', status, code, message, at }
+    }
+    return { kind: 'permanent', status, code, message, at }
+  }
+
+  // Token vault: the passphrase wasn't entered or the worker can't open the token
+  // Every request would fail until that changes, so it pauses like a rejected token
+  if (isTokenVaultError(error, 'locked') || isTokenVaultError(error, 'unavailable')) {
+    return { kind: 'auth', status: null, code: `token_${error.code}`, message: error.message, at }
+  }
+
+  // fetch() rejects with TypeError when the network is unreachable
+  if (error instanceof TypeError) {
+    return { kind: 'transient', status: null, code: 'network_error', message: error.message, at }
+  }
+
+  const message = error instanceof Error ? error.message : 'Unknown error'
+  return { kind: 'transient', status: null, code: 'unknown', message, at }
+}
+
+/**
+ * Delay before the given retry attempt (1-based)
+ */
+export function getRetryDelay(retries: number): number {
+  const step = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** Math.max(0, retries - 1))
+  return Math.round(step / 2 + Math.random() * (step / 2))
+}
+
+/**
+ * Queue entry fields to write after a failed attempt
+ */
+export function getQueueFailureUpdate(retries: number, error: SyncQueueError): QueueFailureUpdate {
+  switch (error.kind) {
+    case 'auth':
+      // Not the entry's fault - retry as soon as the queue is resumed
+      return { status: 'queued', retries, lastError: error, nextAttemptAt: null }
+
+    case 'permanent':
+      return { status: 'failed', retries: retries + 1, lastError: error, nextAttemptAt: null }
+
+    case 'transient': {
+      const next = retries + 1
+      if (next >= MAX_TRANSIENT_RETRIES) {
+        return { status: 'failed', retries: next, lastError: error, nextAttemptAt: null }
+      }
+      return { status: 'queued', retries: next, lastError: error, nextAttemptAt: Date.now() + getRetryDelay(next) }
+    }
+  }
+}
+
+/**
+ * Whether a queued entry's backoff has elapsed
+ */
+export function isDueForAttempt(entry: { nextAttemptAt?: number | null }, now = Date.now()): boolean {
+  return !entry.nextAttemptAt || entry.nextAttemptAt <= now
+}
+
+/**
+ * Short description for result/journal error lists
+ */
+export function formatSyncError(error: SyncQueueError): string {
+  return error.status ? `${error.message} (${error.status} ${error.code})` : error.message
+}
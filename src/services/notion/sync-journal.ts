@@ -0,0 +1,73 @@
+/**
+ * Sync journal recorder
+ * Runs one or more entity syncs and persists a single journal entry for the run
+ */
+
+import { addJournalEntry } from '@/db/operations/journal-operations'
+import type { SyncEntityType, SyncJournalEntry, SyncTrigger } from '@/types'
+import type { SyncResult } from './sync-service'
+
+export interface JournaledSyncStep {
+  entity: SyncEntityType
+  run: () => Promise<SyncResult>
+}
+
+function isEmptyRun(entry: Omit<SyncJournalEntry, 'id'>): boolean {
+  return entry.success && entry.errors.length === 0 && Object.values(entry.entities).every(
+    (counts) => !counts || counts.created + counts.updated + counts.deleted + counts.conflicts === 0
+  )
+}
+
+/**
+ * Run sync steps in order and record the outcome
+ * A step that throws is recorded as a failed run instead of aborting the journal
+ */
+export async function runJournaledSync(
+  trigger: SyncTrigger,
+  steps: JournaledSyncStep[]
+): Promise<{ entry: Omit<SyncJournalEntry, 'id'>; results: Partial<Record<SyncEntityType, SyncResult>> }> {
+  const startedAt = Date.now()
+  const results: Partial<Record<SyncEntityType, SyncResult>> = {}
+  const entry: Omit<SyncJournalEntry, 'id'> = {
+    trigger,
+    startedAt,
+    durationMs: 0,
+    success: true,
+    entities: {},
+    errors: [],
+  }
+
+  for (const step of steps) {
+    try {
+      const result = await step.run()
+      results[step.entity] = result
+      entry.entities[step.entity] = {
+        created: result.created,
+        updated: result.updated,
+        deleted: result.deleted,
+        conflicts: result.conflicts,
+      }
+      entry.errors.push(...result.errors.map((message) => ({ entity: step.entity, message })))
+      if (!result.success) entry.success = false
+    } catch (error) {
+      entry.success = false
+      entry.errors.push({
+        entity: step.entity,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  entry.durationMs = Date.now() - startedAt
+
+  // Alarm runs that found nothing to do aren't recorded - they would push real runs out of the bounded journal
+  if (trigger === 'alarm' && isEmptyRun(entry)) return { entry, results }
+
+  try {
+    await addJournalEntry(entry)
+  } catch (error) {
+    console.error('[SyncJournal] Failed to record journal entry:', error)
+  }
+
+  return { entry, results }
+}
@@ -0,0 +1,91 @@
+/**
+ * Live sync progress, streamed from the service worker to extension pages over a Port
+ *
+ * The worker feeds engine updates into one shared state and posts it to every
+ * connected page; a page posts { type: 'cancel' } to stop the running sync.
+ * Pages drop the port once the worker stops; a starting run sends SYNC_STARTED
+ * so they connect again.
+ */
+
+import type { SyncProgress } from '@/types'
+import type { SyncProgressUpdate } from './sync-engine'
+
+export const SYNC_PROGRESS_PORT = 'sync-progress'
+
+// Keep the latest errors only - a failing run can produce one per queue entry
+const MAX_ERRORS = 20
+
+export type SyncProgressMessage = { type: 'progress'; progress: SyncProgress }
+export type SyncProgressCommand = { type: 'cancel' }
+
+export const idleSyncProgress = (): SyncProgress => ({
+  running: false,
+  entity: null,
+  phase: null,
+  fetched: 0,
+  position: 0,
+  total: 0,
+  current: null,
+  errors: [],
+  startedAt: null,
+  cancelled: false,
+})
+
+let progress = idleSyncProgress()
+const ports = new Set<chrome.runtime.Port>()
+
+function broadcast(): void {
+  const message: SyncProgressMessage = { type: 'progress', progress }
+  for (const port of ports) port.postMessage(message)
+}
+
+/**
+ * Apply an engine update - a new entity or phase starts its counters over
+ */
+export function reportSyncProgress({ entityType, phase, error, ...counters }: SyncProgressUpdate): void {
+  const restarted = progress.entity !== entityType || progress.phase !== phase
+  progress = {
+    ...progress,
+    ...(restarted ? { fetched: 0, position: 0, total: 0, current: null } : {}),
+    ...counters,
+    entity: entityType,
+    phase,
+    errors: error ? [...progress.errors, error].slice(-MAX_ERRORS) : progress.errors,
+  }
+  broadcast()
+}
+
+/**
+ * Run one sync, reporting it as running until it settles
+ * A run started inside another one joins it
+ */
+export async function withSyncProgress<T>(run: () => Promise<T>): Promise<T> {
+  if (progress.running) return run()
+
+  progress = { ...idleSyncProgress(), running: true, startedAt: Date.now() }
+  broadcast()
+  chrome.runtime.sendMessage({ type: 'SYNC_STARTED' }).catch(() => {})
+  try {
+    return await run()
+  } finally {
+    progress = { ...progress, running: false, current: null }
+    broadcast()
+  }
+}
+
+/**
+ * Serve a page's progress port: send the current state, then every change
+ * @param onCancel Stops the running engines when the page asks to cancel
+ */
+export function serveProgressPort(port: chrome.runtime.Port, onCancel: () => void): void {
+  ports.add(port)
+  port.postMessage({ type: 'progress', progress } satisfies SyncProgressMessage)
+
+  port.onMessage.addListener((message: SyncProgressCommand) => {
+    if (message.type !== 'cancel' || !progress.running) return
+    progress = { ...progress, cancelled: true }
+    broadcast()
+    onCancel()
+  })
+  port.onDisconnect.addListener(() => ports.delete(port))
+}
@@ -0,0 +1,300 @@
+/**
+ * Notion token sealing
+ *
+ * Tokens are stored AES-GCM encrypted as "sealed:v1:<mode>:<iv>:<data>":
+ * - d (device): a non-extractable key generated once per profile and kept in IndexedDB
+ * - p (passphrase): a key derived from the user's passphrase with PBKDF2, never stored -
+ *   after unlocking it lives in service-worker memory only and is gone when the worker stops
+ *
+ * Only the service worker opens sealed tokens. Extension pages call the same exports,
+ * which forward to the worker, and the API client forwards their requests the same way.
+ */
+
+import { db } from '@/db/schema'
+import { getSettings, updateSettings, resumeSync } from '@/db/operations/settings-operations'
+import type { Settings, TokenLock } from '@/types'
+
+const SEALED_PREFIX = 'sealed:v1:'
+const DEVICE_KEY_ID = 'notion-token'
+const PBKDF2_ITERATIONS = 310_000
+// Sealed with the passphrase key so unlocking can be checked without a token
+const LOCK_CHECK = 'notionex-token-lock'
+// Also the pause reason of a sync that ran into the lock
+const LOCKED_MESSAGE = 'Notion token is locked - enter the passphrase'
+
+type SealMode = 'd' | 'p'
+
+export type TokenVaultErrorCode = 'locked' | 'wrong_passphrase' | 'passphrase_set' | 'no_passphrase' | 'unavailable'
+
+// Plain object like NotionError, so it survives runtime messaging
+export interface TokenVaultError {
+  code: TokenVaultErrorCode
+  message: string
+}
+
+export interface TokenVaultStatus {
+  passphrase: boolean // Token sealed with a passphrase
+  locked: boolean // Passphrase set and not entered since the worker started
+}
+
+type TokenVaultRequest =
+  | { action: 'status' }
+  | { action: 'unlock'; passphrase: string }
+  | { action: 'lock' }
+  | { action: 'setPassphrase'; passphrase: string }
+  | { action: 'removePassphrase'; passphrase: string }
+  | { action: 'seal'; secret: string }
+
+export type TokenVaultResponse =
+  | { success: true; result: unknown }
+  | { success: false; error: TokenVaultError }
+
+// Service worker memory: the passphrase key of the profile database it was entered for
+let passphraseKey: { databaseName: string; key: CryptoKey } | null = null
+// Opened secrets, so requests don't decrypt the same value again
+const openedSecrets = new Map<string, string>()
+
+const vaultError = (code: TokenVaultErrorCode, message: string): TokenVaultError => ({ code, message })
+
+export function isTokenVaultError(error: unknown, code?: TokenVaultErrorCode): error is TokenVaultError {
+  return error !== null && typeof error === 'object' && 'code' in error
+    && (code ? error.code === code : typeof error.code === 'string')
+}
+
+/**
+ * Whether this context holds credentials - true only in the background service worker
+ */
+export function isCredentialHost(): boolean {
+  return 'ServiceWorkerGlobalScope' in globalThis
+}
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes))
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(text), (c) => c.charCodeAt(0))
+
+async function getDeviceKey(): Promise<CryptoKey> {
+  const stored = await db.cryptoKeys.get(DEVICE_KEY_ID)
+  if (stored) return stored.key
+
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])
+  // The first stored key wins if two calls race
+  return db.transaction('rw', db.cryptoKeys, async () => {
+    const existing = await db.cryptoKeys.get(DEVICE_KEY_ID)
+    if (existing) return existing.key
+    await db.cryptoKeys.add({ id: DEVICE_KEY_ID, key })
+    return key
+  })
+}
+
+async function derivePassphraseKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+async function sealWith(plain: string, key: CryptoKey, mode: SealMode): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plain))
+  return `${SEALED_PREFIX}${mode}:${toBase64(iv)}:${toBase64(new Uint8Array(data))}`
+}
+
+async function openWith(sealed: string, key: CryptoKey): Promise<string> {
+  const [, iv, data] = sealed.slice(SEALED_PREFIX.length).split(':')
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(data))
+  return new TextDecoder().decode(plain)
+}
+
+function getSealMode(value: string): SealMode | null {
+  return value.startsWith(SEALED_PREFIX) ? value[SEALED_PREFIX.length] as SealMode : null
+}
+
+/**
+ * Passphrase key for the active profile, or null while locked
+ */
+function getUnlockedKey(): CryptoKey | null {
+  if (passphraseKey && passphraseKey.databaseName !== db.name) forgetPassphraseKey()
+  return passphraseKey?.key ?? null
+}
+
+function forgetPassphraseKey(): void {
+  passphraseKey = null
+  openedSecrets.clear()
+}
+
+async function getSealingKey(settings: Settings): Promise<{ key: CryptoKey; mode: SealMode }> {
+  if (!settings.tokenLock) return { key: await getDeviceKey(), mode: 'd' }
+  const key = getUnlockedKey()
+  if (!key) throw vaultError('locked', LOCKED_MESSAGE)
+  return { key, mode: 'p' }
+}
+
+/**
+ * Open a stored secret - service worker only
+ * Values stored before sealing existed are returned as they are
+ */
+export async function openSecret(value: string): Promise<string> {
+  const mode = getSealMode(value)
+  if (!mode) return value
+
+  const key = mode === 'd' ? await getDeviceKey() : getUnlockedKey()
+  if (!key) throw vaultError('locked', LOCKED_MESSAGE)
+
+  const cached = openedSecrets.get(value)
+  if (cached !== undefined) return cached
+  const plain = await openWith(value, key)
+  openedSecrets.set(value, plain)
+  return plain
+}
+
+/**
+ * Whether requests can't be made until the passphrase is entered - service worker only
+ */
+export function isTokenLocked(settings: Settings): boolean {
+  return !!settings.tokenLock && !getUnlockedKey()
+}
+
+/**
+ * Rewrite the stored secrets with another key, together with the lock change
+ * Secrets are opened with the current key first
+ */
+async function resealSecrets(tokenLock: TokenLock | null, key: CryptoKey, mode: SealMode): Promise<void> {
+  const settings = await getSettings()
+  const token = settings.notionToken ? await openSecret(settings.notionToken) : null
+  const grant = settings.notionOAuth
+  const refreshToken = grant?.refreshToken ? await openSecret(grant.refreshToken) : null
+
+  await updateSettings({
+    tokenLock,
+    notionToken: token && await sealWith(token, key, mode),
+    notionOAuth: grant && { ...grant, refreshToken: refreshToken && await sealWith(refreshToken, key, mode) },
+  })
+}
+
+/**
+ * Seal secrets still stored in plain text - service worker only, run after a profile opens
+ */
+export async function sealStoredSecrets(): Promise<void> {
+  const settings = await getSettings()
+  const plainToken = settings.notionToken && !getSealMode(settings.notionToken)
+  const plainRefresh = settings.notionOAuth?.refreshToken && !getSealMode(settings.notionOAuth.refreshToken)
+  if (!plainToken && !plainRefresh) return
+  // A passphrase always seals what it finds, so plain text only exists in device mode
+  if (settings.tokenLock) return
+
+  const key = await getDeviceKey()
+  await resealSecrets(null, key, 'd')
+}
+
+async function unlock(passphrase: string): Promise<void> {
+  const settings = await getSettings()
+  const lock = settings.tokenLock
+  if (!lock) throw vaultError('no_passphrase', 'No passphrase is set')
+
+  const key = await derivePassphraseKey(passphrase, fromBase64(lock.salt), lock.iterations)
+  try {
+    await openWith(lock.check, key)
+  } catch {
+    throw vaultError('wrong_passphrase', 'Wrong passphrase')
+  }
+  passphraseKey = { databaseName: db.name, key }
+  // A sync paused by the lock can go on now
+  if (settings.syncPauseReason === LOCKED_MESSAGE) await resumeSync()
+}
+
+async function setPassphrase(passphrase: string): Promise<void> {
+  const settings = await getSettings()
+  if (settings.tokenLock) throw vaultError('passphrase_set', 'Remove the current passphrase first')
+
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const key = await derivePassphraseKey(passphrase, salt, PBKDF2_ITERATIONS)
+  const lock: TokenLock = {
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    check: await sealWith(LOCK_CHECK, key, 'p'),
+    createdAt: Date.now(),
+  }
+  await resealSecrets(lock, key, 'p')
+  // Setting the passphrase leaves the token unlocked until the worker stops or it is locked
+  passphraseKey = { databaseName: db.name, key }
+}
+
+async function removePassphrase(passphrase: string): Promise<void> {
+  // Checks the passphrase and makes the sealed secrets readable for resealing
+  await unlock(passphrase)
+  await resealSecrets(null, await getDeviceKey(), 'd')
+  forgetPassphraseKey()
+}
+
+async function runRequest(request: TokenVaultRequest): Promise<unknown> {
+  switch (request.action) {
+    case 'status': {
+      const settings = await getSettings()
+      return { passphrase: !!settings.tokenLock, locked: isTokenLocked(settings) } satisfies TokenVaultStatus
+    }
+    case 'unlock':
+      return unlock(request.passphrase)
+    case 'lock':
+      return forgetPassphraseKey()
+    case 'setPassphrase':
+      return setPassphrase(request.passphrase)
+    case 'removePassphrase':
+      return removePassphrase(request.passphrase)
+    case 'seal': {
+      const { key, mode } = await getSealingKey(await getSettings())
+      return sealWith(request.secret, key, mode)
+    }
+  }
+}
+
+/**
+ * Service worker side of requests forwarded from extension pages
+ */
+export async function handleTokenVaultRequest(request: TokenVaultRequest): Promise<TokenVaultResponse> {
+  try {
+    return { success: true, result: await runRequest(request) }
+  } catch (error) {
+    if (isTokenVaultError(error)) return { success: false, error }
+    return { success: false, error: vaultError('unavailable', error instanceof Error ? error.message : 'Unknown error') }
+  }
+}
+
+async function callVault<T>(request: TokenVaultRequest): Promise<T> {
+  if (isCredentialHost()) return await runRequest(request) as T
+
+  const response: TokenVaultResponse | undefined = await chrome.runtime.sendMessage({ type: 'TOKEN_VAULT', request })
+  if (!response) throw vaultError('unavailable', 'The background service did not respond')
+  if (!response.success) throw response.error
+  return response.result as T
+}
+
+export function getTokenVaultStatus(): Promise<TokenVaultStatus> {
+  return callVault({ action: 'status' })
+}
+
+export function unlockToken(passphrase: string): Promise<void> {
+  return callVault({ action: 'unlock', passphrase })
+}
+
+export function lockToken(): Promise<void> {
+  return callVault({ action: 'lock' })
+}
+
+export function setTokenPassphrase(passphrase: string): Promise<void> {
+  return callVault({ action: 'setPassphrase', passphrase })
+}
+
+export function removeTokenPassphrase(passphrase: string): Promise<void> {
+  return callVault({ action: 'removePassphrase', passphrase })
+}
+
+/**
+ * Seal a secret for storage with the current key
+ * Throws a 'locked' error while a passphrase is set and not entered
+ */
+export function sealSecret(secret: string): Promise<string> {
+  return callVault({ action: 'seal', secret })
+}
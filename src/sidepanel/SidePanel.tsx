@@ -1,16 +1,37 @@
-import { useState, useEffect, useCallback } from 'react'
-import { Plus } from 'lucide-react'
+import { useState, useEffect, useCallback, useRef } from 'react'
+import {
+  Plus,
+  CheckSquare,
+  Bookmark,
+  FileText,
+  RefreshCw,
+  Sun,
+  LayoutList,
+  Sparkles,
+  BarChart3,
+  ScrollText,
+  Settings,
+  GitMerge,
+  Keyboard,
+  FolderOpen,
+  Briefcase,
+  Tag as TagIcon,
+} from 'lucide-react'
 import { I18nextProvider, useTranslation } from 'react-i18next'
 import i18n, { initI18n } from '@/i18n'
-import { ThemeProvider } from '@/stores/theme-context'
+import { ThemeProvider, useTheme } from '@/stores/theme-context'
 import { ToastProvider, useToast } from '@/stores/toast-context'
+import { CommandPaletteProvider, useCommandSource, type PaletteCommand } from '@/stores/command-palette-context'
 import { Header, TabBar, FooterTabBar, ModuleTabBar } from '@/components/layout'
 import { SearchBar, Modal, DropZone } from '@/components/shared'
-import { ItemList, ItemForm, SettingsPanel, BookmarkGroupList, FilterPanel, AnalyticsPanel, AuthorModal } from '@/components/features'
+import { ItemList, ItemForm, SettingsPanel, BookmarkGroupList, FilterPanel, AnalyticsPanel, AuthorModal, ConflictInbox, SyncJournalPanel, TokenUnlockPrompt, ShortcutHelp, PromptPicker, DuplicateWarning, type DuplicateResolution } from '@/components/features'
 import { PromptsPanel } from '@/components/panels'
 import { fetchUrlMetadata } from '@/utils/url-metadata'
+import { onPanelRequest } from '@/utils/side-panel'
+import { useHotkeys } from '@/stores/hotkeys'
 import {
   getAllItems,
+  getItem,
   createItem,
   updateItem,
   deleteItem,
@@ -18,7 +39,12 @@ import {
 import { getAllCategories } from '@/db/operations/category-operations'
 import { getAllProjects } from '@/db/operations/project-operations'
 import { getAllTags } from '@/db/operations/tag-operations'
+import { getAllPrompts } from '@/db/operations/prompt-operations'
 import { getSettings } from '@/db/operations/settings-operations'
+import { getConflictCount } from '@/db/operations/conflict-operations'
+import { findDuplicateBookmarks } from '@/db/operations/duplicate-operations'
+import { activateStoredProfile, onActiveProfileChange } from '@/db/operations/profile-operations'
+import { getTokenVaultStatus } from '@/services/notion/token-vault'
 import type {
   Item,
   ItemType,
@@ -47,6 +73,7 @@ function SidePanelContent() {
   const [projects, setProjects] = useState<Project[]>([])
   const [tags, setTags] = useState<Tag[]>([])
   const [promptsConfigured, setPromptsConfigured] = useState(false)
+  const [conflictCount, setConflictCount] = useState(0)
 
   // Filter state
   const [filter, setFilter] = useState<FilterState>({
@@ -62,29 +89,47 @@ function SidePanelContent() {
   const [showForm, setShowForm] = useState(false)
   const [editingItem, setEditingItem] = useState<Item | null>(null)
   const [isLoadingUrl, setIsLoadingUrl] = useState(false)
-  const [prefillData, setPrefillData] = useState<{ title?: string; content?: string; url?: string } | null>(null)
+  const [prefillData, setPrefillData] = useState<{ title?: string; content?: string; url?: string; canonicalUrl?: string } | null>(null)
+
+  // New bookmark held back because the page is already saved
+  const [pendingDuplicate, setPendingDuplicate] = useState<{ data: ItemFormData; duplicates: Item[] } | null>(null)
 
   // Author modal state
   const [authorModalOpen, setAuthorModalOpen] = useState(false)
   const [authorModalTab, setAuthorModalTab] = useState<AuthorModalTab>('intro')
 
+  // Conflict inbox state
+  const [conflictsOpen, setConflictsOpen] = useState(false)
+
+  // Passphrase-sealed token not entered yet - sync waits for it
+  const [tokenLocked, setTokenLocked] = useState(false)
+
+  // Keyboard state
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [shortcutsOpen, setShortcutsOpen] = useState(false)
+  const [promptPickerOpen, setPromptPickerOpen] = useState(false)
+  const searchInputRef = useRef<HTMLInputElement>(null)
+
   const toast = useToast()
+  const { toggleTheme } = useTheme()
 
   // Load data
   const loadData = useCallback(async () => {
     try {
-      const [itemsData, categoriesData, projectsData, tagsData, settingsData] = await Promise.all([
+      const [itemsData, categoriesData, projectsData, tagsData, settingsData, conflictsData] = await Promise.all([
         getAllItems(),
         getAllCategories(),
         getAllProjects(),
         getAllTags(),
         getSettings(),
+        getConflictCount(),
       ])
       setItems(itemsData)
       setCategories(categoriesData)
       setProjects(projectsData)
       setTags(tagsData)
       setPromptsConfigured(!!(settingsData.notionToken && settingsData.promptsDatabaseId))
+      setConflictCount(conflictsData)
     } catch (error) {
       console.error('Failed to load data:', error)
       toast.error('Không thể tải dữ liệu')
@@ -95,6 +140,12 @@ function SidePanelContent() {
     loadData()
   }, [loadData])
 
+  useEffect(() => {
+    getTokenVaultStatus()
+      .then((status) => setTokenLocked(status.locked))
+      .catch(() => {})
+  }, [])
+
   // CRUD handlers
   const handleAddItem = () => {
     setEditingItem(null)
@@ -111,6 +162,7 @@ function SidePanelContent() {
         title: metadata.title || '',
         content: metadata.description || '',
         url,
+        canonicalUrl: metadata.canonicalUrl ?? undefined,
       })
       setEditingItem(null)
       setActiveTab('bookmark') // Switch to bookmark tab
@@ -149,7 +201,16 @@ function SidePanelContent() {
         } as Partial<Item>)
         toast.success('Đã cập nhật')
       } else {
-        await createItem(data)
+        // The canonical link fetched on drop still names the page if its URL was kept
+        const candidate = data.url && data.url === prefillData?.url ? { ...data, canonicalUrl: prefillData.canonicalUrl } : data
+        if (candidate.type === 'bookmark' && candidate.url) {
+          const duplicates = await findDuplicateBookmarks(candidate.url, candidate.canonicalUrl)
+          if (duplicates.length > 0) {
+            setPendingDuplicate({ data: candidate, duplicates })
+            return
+          }
+        }
+        await createItem(candidate)
         toast.success('Đã thêm mới')
       }
       setShowForm(false)
@@ -161,6 +222,37 @@ function SidePanelContent() {
     }
   }
 
+  const closeDuplicate = () => {
+    setPendingDuplicate(null)
+    setShowForm(false)
+    setPrefillData(null)
+    loadData()
+  }
+
+  const handleDuplicateResolved = (resolution: DuplicateResolution) => {
+    toast.success(resolution === 'merged' ? t('duplicates.mergedInto') : t('duplicates.updated'))
+    closeDuplicate()
+  }
+
+  const handleSaveDuplicateAnyway = async () => {
+    if (!pendingDuplicate) return
+    try {
+      await createItem(pendingDuplicate.data)
+      toast.success('Đã thêm mới')
+      closeDuplicate()
+    } catch (error) {
+      console.error('Failed to save item:', error)
+      toast.error('Không thể lưu')
+    }
+  }
+
+  const handleOpenDuplicate = (item: Item) => {
+    setPendingDuplicate(null)
+    setPrefillData(null)
+    setActiveTab('bookmark')
+    handleEditItem(item)
+  }
+
   const handleDeleteItem = async (id: string) => {
     if (!confirm('Bạn có chắc muốn xóa?')) return
     try {
@@ -200,6 +292,7 @@ function SidePanelContent() {
         }
         loadData() // Reload data after sync
       } else {
+        setTokenLocked(!!response?.locked)
         toast.error(response?.error || 'Lỗi đồng bộ')
       }
     } catch (error) {
@@ -217,11 +310,149 @@ function SidePanelContent() {
         loadData()
         toast.info('Đã đồng bộ dữ liệu mới')
       }
+      // Saved from the popup's quick capture or the context menu
+      if (message.type === 'ITEMS_CHANGED') {
+        loadData()
+      }
     }
     chrome.runtime.onMessage.addListener(handleMessage)
     return () => chrome.runtime.onMessage.removeListener(handleMessage)
   }, [loadData, toast])
 
+  // The popup and browser commands open the panel on a given view
+  useEffect(() => onPanelRequest((request) => {
+    if (request.module) {
+      setActiveModule(request.module)
+      setFooterTab(null)
+    }
+    if (request.itemTab) setActiveTab(request.itemTab)
+    if (request.footerTab) setFooterTab(request.footerTab)
+    if (request.action === 'quickTask') {
+      setEditingItem(null)
+      setPrefillData(null)
+      setShowForm(true)
+    }
+    if (request.action === 'promptPicker') setPromptPickerOpen(true)
+    if (request.editItemId) {
+      getItem(request.editItemId).then((item) => {
+        if (item) handleEditItem(item)
+      })
+    }
+  }), [])
+
+  // Selection belongs to the list it was made in
+  useEffect(() => {
+    setSelectedId(null)
+  }, [activeModule, activeTab, footerTab])
+
+  const inItemList = activeModule === 'items' && footerTab === null
+
+  // Visible items in screen order - collapsed bookmark groups are skipped
+  const moveSelection = (step: 1 | -1) => {
+    const rows = Array.from(document.querySelectorAll<HTMLElement>('main [data-item-id]'))
+    if (rows.length === 0) return
+    const index = rows.findIndex((row) => row.dataset.itemId === selectedId)
+    const next = index === -1 ? (step === 1 ? 0 : rows.length - 1) : Math.min(Math.max(index + step, 0), rows.length - 1)
+    setSelectedId(rows[next].dataset.itemId!)
+    rows[next].scrollIntoView({ block: 'nearest' })
+  }
+
+  const selectedItem = items.find((i) => i.id === selectedId)
+
+  const showItems = (type?: ItemType) => {
+    setActiveModule('items')
+    setFooterTab(null)
+    if (type) setActiveTab(type)
+  }
+
+  // Palette entries for this panel - prompts are read when the palette opens
+  useCommandSource('side-panel', async () => {
+    const typeIcons = { task: CheckSquare, bookmark: Bookmark, note: FileText }
+    const typeLabels = { task: t('form.typeTask'), bookmark: t('form.typeBookmark'), note: t('form.typeNote') }
+
+    const newItem = (type: ItemType) => () => {
+      showItems(type)
+      setEditingItem(null)
+      setPrefillData(null)
+      setShowForm(true)
+    }
+
+    const commands: PaletteCommand[] = [
+      { id: 'new-task', group: 'command', title: t('palette.newTask'), icon: CheckSquare, run: newItem('task') },
+      { id: 'new-bookmark', group: 'command', title: t('palette.newBookmark'), icon: Bookmark, run: newItem('bookmark') },
+      { id: 'new-note', group: 'command', title: t('palette.newNote'), icon: FileText, run: newItem('note') },
+      { id: 'sync-now', group: 'command', title: t('palette.syncNow'), icon: RefreshCw, run: handleSync },
+      { id: 'switch-theme', group: 'command', title: t('palette.switchTheme'), icon: Sun, run: toggleTheme },
+      { id: 'go-tasks', group: 'command', title: t('palette.goTo', { place: t('tabs.tasks') }), icon: CheckSquare, run: () => showItems('task') },
+      { id: 'go-bookmarks', group: 'command', title: t('palette.goTo', { place: t('tabs.bookmarks') }), icon: Bookmark, run: () => showItems('bookmark') },
+      { id: 'go-notes', group: 'command', title: t('palette.goTo', { place: t('tabs.notes') }), icon: FileText, run: () => showItems('note') },
+      { id: 'go-items', group: 'command', title: t('palette.goTo', { place: t('tabs.items') }), icon: LayoutList, run: () => showItems() },
+      { id: 'go-prompts', group: 'command', title: t('palette.goTo', { place: t('tabs.prompts') }), icon: Sparkles, run: () => handleModuleChange('prompts') },
+      { id: 'go-analytics', group: 'command', title: t('palette.goTo', { place: t('footer.analytics') }), icon: BarChart3, run: () => setFooterTab('analytics') },
+      { id: 'go-logs', group: 'command', title: t('palette.goTo', { place: t('footer.journal') }), icon: ScrollText, run: () => setFooterTab('logs') },
+      { id: 'go-settings', group: 'command', title: t('palette.goTo', { place: t('footer.settings') }), icon: Settings, run: () => setFooterTab('settings') },
+      { id: 'open-conflicts', group: 'command', title: t('palette.openConflicts'), icon: GitMerge, run: () => setConflictsOpen(true) },
+      { id: 'shortcuts', group: 'command', title: t('shortcuts.title'), icon: Keyboard, run: () => setShortcutsOpen(true) },
+    ]
+
+    const itemEntries: PaletteCommand[] = items.map((item) => ({
+      id: `item:${item.id}`,
+      group: 'item',
+      title: item.title,
+      hint: typeLabels[item.type],
+      keywords: item.url ?? undefined,
+      icon: typeIcons[item.type],
+      run: () => {
+        showItems(item.type)
+        handleEditItem(item)
+      },
+    }))
+
+    // Metadata entries filter the item list
+    const filterBy = (changes: Partial<FilterState>) => () => {
+      showItems()
+      setFilter((f) => ({ ...f, ...changes }))
+    }
+    const metadataEntries: PaletteCommand[] = [
+      ...categories.map((category): PaletteCommand => ({
+        id: `category:${category.id}`, group: 'category', title: category.name, icon: FolderOpen, run: filterBy({ categoryId: category.id }),
+      })),
+      ...projects.map((project): PaletteCommand => ({
+        id: `project:${project.id}`, group: 'project', title: project.name, icon: Briefcase, run: filterBy({ projectId: project.id }),
+      })),
+      ...tags.map((tag): PaletteCommand => ({
+        id: `tag:${tag.id}`, group: 'tag', title: tag.name, icon: TagIcon, run: filterBy({ tagIds: [tag.id] }),
+      })),
+    ]
+
+    // Choosing a prompt copies it, like the prompt picker
+    const promptEntries: PaletteCommand[] = (await getAllPrompts()).map((prompt) => ({
+      id: `prompt:${prompt.id}`,
+      group: 'prompt',
+      title: prompt.title,
+      keywords: prompt.prompt,
+      icon: Sparkles,
+      run: () => {
+        navigator.clipboard.writeText(prompt.prompt)
+          .then(() => toast.success(t('promptPicker.copied')))
+          .catch(() => toast.error(t('promptPicker.copyFailed')))
+      },
+    }))
+
+    return [...commands, ...itemEntries, ...metadataEntries, ...promptEntries]
+  })
+
+  useHotkeys({
+    ...(inItemList && {
+      j: () => moveSelection(1),
+      k: () => moveSelection(-1),
+      e: () => selectedItem && handleEditItem(selectedItem),
+      x: () => selectedItem?.type === 'task' && handleToggleComplete(selectedItem.id, !selectedItem.completed),
+      '/': () => searchInputRef.current?.focus(),
+    }),
+    '?': () => setShortcutsOpen(true),
+  }, !showForm && !conflictsOpen && !authorModalOpen && !shortcutsOpen && !promptPickerOpen)
+
   // Count tasks
   const taskCount = items.filter((i) => i.type === 'task' && !i.completed).length
 
@@ -251,7 +482,16 @@ function SidePanelContent() {
         <div className="bubble bubble-3" />
       </div>
 
-      <Header isSyncing={syncing} onSync={handleSync} onOpenAuthorModal={handleOpenAuthorModal} />
+      <Header
+        isSyncing={syncing}
+        onSync={handleSync}
+        onOpenAuthorModal={handleOpenAuthorModal}
+        conflictCount={conflictCount}
+        onOpenConflicts={() => setConflictsOpen(true)}
+        onOpenShortcuts={() => setShortcutsOpen(true)}
+      />
+
+      {tokenLocked && <TokenUnlockPrompt onUnlocked={() => setTokenLocked(false)} />}
 
       {/* Module switcher at top */}
       <ModuleTabBar activeModule={activeModule} onModuleChange={handleModuleChange} />
@@ -264,6 +504,7 @@ function SidePanelContent() {
           {/* Search */}
           <div className="px-3 py-2 border-b border-[var(--border-color)]">
             <SearchBar
+              inputRef={searchInputRef}
               value={filter.search}
               onChange={(search) => setFilter((f) => ({ ...f, search }))}
               placeholder={`Tìm ${activeTab === 'task' ? 'công việc' : activeTab === 'bookmark' ? 'dấu trang' : 'ghi chú'}...`}
@@ -288,14 +529,9 @@ function SidePanelContent() {
           // Footer tab content
           <>
             {footerTab === 'analytics' && <AnalyticsPanel />}
-            {footerTab === 'logs' && (
-              <div className="p-4 text-center text-[var(--text-secondary)]">
-                <p className="text-sm">{t('footer.journal')}</p>
-                <p className="text-xs mt-2">{t('journal.comingSoon')}</p>
-              </div>
-            )}
+            {footerTab === 'logs' && <SyncJournalPanel />}
             {footerTab === 'settings' && (
-              <SettingsPanel onSyncNow={handleSync} isSyncing={syncing} />
+              <SettingsPanel onSyncNow={handleSync} isSyncing={syncing} onItemsChanged={loadData} />
             )}
           </>
         ) : activeModule === 'prompts' ? (
@@ -318,6 +554,7 @@ function SidePanelContent() {
                   onEdit={handleEditItem}
                   onDelete={handleDeleteItem}
                   onClick={handleItemClick}
+                  selectedId={selectedId}
                 />
               ) : (
                 // Other tabs: regular list view
@@ -331,6 +568,7 @@ function SidePanelContent() {
                   onDelete={handleDeleteItem}
                   onToggleComplete={handleToggleComplete}
                   onClick={handleItemClick}
+                  selectedId={selectedId}
                 />
               )}
             </div>
@@ -360,6 +598,7 @@ function SidePanelContent() {
       {/* Item Form Modal */}
       <Modal isOpen={showForm} onClose={() => { setShowForm(false); setPrefillData(null); }} size="lg">
         <ItemForm
+          key={editingItem?.id ?? 'new'}
           type={activeTab}
           item={editingItem}
           prefill={prefillData}
@@ -372,6 +611,39 @@ function SidePanelContent() {
         />
       </Modal>
 
+      {/* Duplicate Bookmark Modal */}
+      <Modal isOpen={pendingDuplicate !== null} onClose={() => setPendingDuplicate(null)} title={t('duplicates.title')}>
+        {pendingDuplicate && (
+          <DuplicateWarning
+            candidate={pendingDuplicate.data}
+            duplicates={pendingDuplicate.duplicates}
+            onOpen={handleOpenDuplicate}
+            onResolved={handleDuplicateResolved}
+            onSaveAnyway={handleSaveDuplicateAnyway}
+          />
+        )}
+      </Modal>
+
+      {/* Conflict Inbox Modal */}
+      <Modal isOpen={conflictsOpen} onClose={() => setConflictsOpen(false)} title={t('conflicts.title')} size="lg">
+        <ConflictInbox
+          categories={categories}
+          projects={projects}
+          tags={tags}
+          onResolved={loadData}
+        />
+      </Modal>
+
+      {/* Keyboard Shortcuts Modal */}
+      <Modal isOpen={shortcutsOpen} onClose={() => setShortcutsOpen(false)} title={t('shortcuts.title')}>
+        <ShortcutHelp />
+      </Modal>
+
+      {/* Prompt Picker Modal */}
+      <Modal isOpen={promptPickerOpen} onClose={() => setPromptPickerOpen(false)} title={t('promptPicker.title')}>
+        <PromptPicker onPicked={() => setPromptPickerOpen(false)} />
+      </Modal>
+
       {/* Author Modal */}
       <AuthorModal
         isOpen={authorModalOpen}
@@ -386,7 +658,10 @@ export default function SidePanel() {
   const [i18nReady, setI18nReady] = useState(false)
 
   useEffect(() => {
-    initI18n().then(() => setI18nReady(true))
+    // The profile's database has to be open before anything reads data
+    Promise.all([initI18n(), activateStoredProfile()]).then(() => setI18nReady(true))
+    // Switched in another window - start over on the new profile's data
+    return onActiveProfileChange(() => window.location.reload())
   }, [])
 
   if (!i18nReady) {
@@ -401,7 +676,9 @@ export default function SidePanel() {
     <I18nextProvider i18n={i18n}>
       <ThemeProvider>
         <ToastProvider>
-          <SidePanelContent />
+          <CommandPaletteProvider>
+            <SidePanelContent />
+          </CommandPaletteProvider>
         </ToastProvider>
       </ThemeProvider>
     </I18nextProvider>
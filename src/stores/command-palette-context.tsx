@@ -0,0 +1,79 @@
+import { createContext, useContext, useState, useCallback, useEffect, useRef, type ReactNode, type ComponentType } from 'react'
+import { CommandPalette } from '@/components/features/command-palette'
+
+export type PaletteGroup = 'command' | 'item' | 'prompt' | 'category' | 'project' | 'tag'
+
+export interface PaletteCommand {
+  id: string
+  group: PaletteGroup
+  title: string
+  hint?: string       // Shown after the title, e.g. the item type
+  keywords?: string   // Extra text the search matches
+  icon?: ComponentType<{ className?: string }>
+  run: () => void
+}
+
+// Called each time the palette opens, so entries are never stale
+export type CommandProvider = () => PaletteCommand[] | Promise<PaletteCommand[]>
+
+interface CommandPaletteContextValue {
+  register: (id: string, provider: CommandProvider) => () => void
+  open: () => void
+  close: () => void
+}
+
+const CommandPaletteContext = createContext<CommandPaletteContextValue | null>(null)
+
+export function CommandPaletteProvider({ children }: { children: ReactNode }) {
+  const [isOpen, setIsOpen] = useState(false)
+  const sourcesRef = useRef(new Map<string, CommandProvider>())
+
+  const register = useCallback((id: string, provider: CommandProvider) => {
+    sourcesRef.current.set(id, provider)
+    return () => {
+      if (sourcesRef.current.get(id) === provider) sourcesRef.current.delete(id)
+    }
+  }, [])
+
+  const open = useCallback(() => setIsOpen(true), [])
+  const close = useCallback(() => setIsOpen(false), [])
+
+  // Ctrl+K / Cmd+K works everywhere, also while typing
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault()
+        setIsOpen((value) => !value)
+      }
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
+  return (
+    <CommandPaletteContext.Provider value={{ register, open, close }}>
+      {children}
+      {isOpen && <CommandPalette providers={[...sourcesRef.current.values()]} onClose={close} />}
+    </CommandPaletteContext.Provider>
+  )
+}
+
+export function useCommandPalette() {
+  const context = useContext(CommandPaletteContext)
+  if (!context) {
+    throw new Error('useCommandPalette must be used within a CommandPaletteProvider')
+  }
+  return context
+}
+
+/**
+ * Add entries to the palette while the calling component is mounted
+ * The provider may change on every render - the latest one is used
+ */
+export function useCommandSource(id: string, provider: CommandProvider): void {
+  const { register } = useCommandPalette()
+  const providerRef = useRef(provider)
+  providerRef.current = provider
+
+  useEffect(() => register(id, () => providerRef.current()), [id, register])
+}
@@ -0,0 +1,36 @@
+import { useEffect, useRef } from 'react'
+
+// Handlers by KeyboardEvent.key
+export type HotkeyBindings = Record<string, (event: KeyboardEvent) => void>
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
+
+/**
+ * Single-key shortcuts for the whole page
+ * Keys typed into a field and keys with Ctrl, Alt or Meta are left alone
+ */
+export function useHotkeys(bindings: HotkeyBindings, enabled = true): void {
+  // Latest handlers without re-registering the listener on every render
+  const bindingsRef = useRef(bindings)
+  bindingsRef.current = bindings
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.altKey || event.metaKey || event.defaultPrevented) return
+      if (isTypingTarget(event.target)) return
+
+      const handler = bindingsRef.current[event.key]
+      if (!handler) return
+      event.preventDefault()
+      handler(event)
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [enabled])
+}
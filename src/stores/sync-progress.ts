@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import {
+  idleSyncProgress,
+  SYNC_PROGRESS_PORT,
+  type SyncProgressCommand,
+  type SyncProgressMessage,
+} from '@/services/notion/sync-progress'
+import type { SyncProgress } from '@/types'
+
+/**
+ * Live progress of the background sync
+ * The port drops when the idle service worker stops; the page reconnects only when a run starts
+ * (reconnecting right away would wake the worker again every few seconds)
+ */
+export function useSyncProgress(): { progress: SyncProgress; cancel: () => void } {
+  const [progress, setProgress] = useState<SyncProgress>(idleSyncProgress)
+  const portRef = useRef<chrome.runtime.Port | null>(null)
+
+  useEffect(() => {
+    let closed = false
+
+    const connect = () => {
+      const port = chrome.runtime.connect({ name: SYNC_PROGRESS_PORT })
+      portRef.current = port
+      port.onMessage.addListener((message: SyncProgressMessage) => {
+        if (message.type === 'progress') setProgress(message.progress)
+      })
+      port.onDisconnect.addListener(() => {
+        portRef.current = null
+        // A stopped worker isn't syncing anymore
+        setProgress(idleSyncProgress())
+      })
+    }
+
+    const handleMessage = (message: { type?: string }) => {
+      if (message.type === 'SYNC_STARTED' && !closed && !portRef.current) connect()
+    }
+
+    connect()
+    chrome.runtime.onMessage.addListener(handleMessage)
+    return () => {
+      closed = true
+      chrome.runtime.onMessage.removeListener(handleMessage)
+      portRef.current?.disconnect()
+      portRef.current = null
+    }
+  }, [])
+
+  const cancel = useCallback(() => {
+    portRef.current?.postMessage({ type: 'cancel' } satisfies SyncProgressCommand)
+  }, [])
+
+  return { progress, cancel }
+}
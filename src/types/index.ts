@@ -1,9 +1,10 @@
 // Item types (polymorphic)
 export type ItemType = 'task' | 'bookmark' | 'note'
 export type Priority = 'high' | 'medium' | 'low'
-export type SyncStatus = 'pending' | 'synced' | 'error'
+export type SyncStatus = 'pending' | 'synced' | 'error' | 'conflict'
 export type QueueStatus = 'queued' | 'syncing' | 'failed'
 export type Operation = 'create' | 'update' | 'delete'
+export type SyncErrorKind = 'auth' | 'permanent' | 'transient'
 
 // Prompt types
 export type PromptType = 'text' | 'image' | 'video'
@@ -15,6 +16,8 @@ export interface Item {
   title: string
   content: string
   url: string | null
+  // Duplicate key of url (or of the page's canonical link) - see utils/url-normalize
+  normalizedUrl: string | null
   faviconUrl: string | null
   priority: Priority | null
   deadline: Date | null
@@ -35,6 +38,8 @@ export interface Category {
   parentId: string | null
   order: number
   notionId: string | null
+  updatedAt?: number // Local edit time, for linked-database sync
+  notionOption?: NotionOptionRef | null
 }
 
 export interface Project {
@@ -42,6 +47,15 @@ export interface Project {
   name: string
   color: string
   notionId: string | null
+  updatedAt?: number // Local edit time, for linked-database sync
+  notionOption?: NotionOptionRef | null
+}
+
+// Select option a tag/category/project was last seen as in the Items database
+// The ID survives renames in Notion, the name tells local and remote renames apart
+export interface NotionOptionRef {
+  id: string
+  name: string
 }
 
 export interface Tag {
@@ -49,6 +63,7 @@ export interface Tag {
   name: string
   color: string
   notionId: string | null
+  notionOption?: NotionOptionRef | null
 }
 
 export interface SyncQueue {
@@ -59,6 +74,70 @@ export interface SyncQueue {
   timestamp: number
   retries: number
   status: QueueStatus
+  lastError?: SyncQueueError | null
+  nextAttemptAt?: number | null  // Backoff: skipped by processQueue until this time
+  overwriteBody?: boolean        // Body chosen in the conflict inbox: written even around blocks it can't convert
+}
+
+// Classified failure of a queued sync operation
+export interface SyncQueueError {
+  kind: SyncErrorKind
+  status: number | null  // HTTP status, null for network errors
+  code: string
+  message: string
+  at: number
+}
+
+// Last-synced field values (base for three-way merge)
+export interface SyncSnapshot {
+  id: string                      // Item/Prompt ID
+  fields: Record<string, unknown>
+  syncedAt: number
+}
+
+// Sync conflict inbox
+export type SyncEntityType = 'item' | 'prompt'
+
+export interface ConflictField {
+  field: string
+  base: unknown
+  local: unknown
+  remote: unknown
+}
+
+export interface SyncConflict {
+  id?: number
+  entityType: SyncEntityType
+  entityId: string
+  title: string
+  fields: ConflictField[]
+  remoteEditedAt: number
+  createdAt: number
+}
+
+// Sync journal (one entry per sync run)
+export type SyncTrigger = 'alarm' | 'manual' | 'startup'
+
+export interface SyncEntityCounts {
+  created: number
+  updated: number
+  deleted: number
+  conflicts: number
+}
+
+export interface SyncJournalError {
+  entity: SyncEntityType
+  message: string
+}
+
+export interface SyncJournalEntry {
+  id?: number
+  trigger: SyncTrigger
+  startedAt: number
+  durationMs: number
+  success: boolean
+  entities: Partial<Record<SyncEntityType, SyncEntityCounts>>
+  errors: SyncJournalError[]
 }
 
 // Prompt Library
@@ -91,20 +170,100 @@ export interface PromptSyncQueue {
   timestamp: number
   retries: number
   status: QueueStatus
+  lastError?: SyncQueueError | null
+  nextAttemptAt?: number | null
+  overwriteBody?: boolean
+}
+
+// Named workspace profile - each one has its own local database, token and Notion databases
+export interface Profile {
+  id: string
+  name: string
+  createdAt: number
 }
 
 export interface Settings {
   id: string
   theme: 'light' | 'dark'
+  // Pasted integration secret, or the OAuth access token when notionAuthMethod is 'oauth'
+  // Stored sealed (see services/notion/token-vault) - only the service worker opens it
   notionToken: string | null
+  // Set when the token is sealed with a passphrase instead of the device key
+  tokenLock: TokenLock | null
+  notionAuthMethod: NotionAuthMethod
+  // OAuth public integration: the client secret stays on the token-exchange endpoint
+  oauthClientId: string | null
+  oauthTokenEndpoint: string | null
+  notionOAuth: NotionOAuthGrant | null
   notionDatabaseId: string | null
-  lastSyncAt: number | null
+  lastSyncAt: number | null       // Start of the last pull - the delta watermark
+  lastPushAt: number | null       // End of the last queue push
   // Prompt Library settings
   promptsDatabaseId: string | null
   promptsLastSyncAt: number | null
+  promptsLastPushAt: number | null
+  // Deletion reconciliation (full page-ID scan)
+  lastReconcileAt: number | null
+  promptsLastReconcileAt: number | null
+  // Set when Notion rejects the token - queues are paused until it is fixed
+  syncPausedAt: number | null
+  syncPauseReason: string | null
+  // Sync the prompt text as page content blocks instead of the Prompt property
+  promptBodyAsBlocks: boolean
+  // Custom field → property mappings, keyed by normalized database ID
+  propertyMappings: Record<string, PropertyMapping>
+  // How items reference categories and projects in Notion:
+  // 'select' stores names, 'relation' links pages in their own databases
+  metadataSyncMode: MetadataSyncMode
+  categoriesDatabaseId: string | null
+  projectsDatabaseId: string | null
+  metadataLastSyncAt: number | null
+  // Pages of deleted categories/projects still to archive in Notion
+  pendingMetadataArchives: string[]
   // Auto-sync settings
   autoSyncEnabled: boolean
   autoSyncInterval: number // minutes
+  // Where "save full article" puts the extracted text
+  articleSaveMode: ArticleSaveMode
+}
+
+export type MetadataSyncMode = 'select' | 'relation'
+
+// 'bookmark' fills the bookmark body, 'note' adds a note with the same link
+export type ArticleSaveMode = 'bookmark' | 'note'
+
+export type NotionAuthMethod = 'token' | 'oauth'
+
+// PBKDF2 parameters of the passphrase that seals the token
+export interface TokenLock {
+  salt: string // base64
+  iterations: number
+  check: string // Known text sealed with the passphrase key, to verify an unlock
+  createdAt: number
+}
+
+// Non-extractable WebCrypto key kept in IndexedDB
+export interface StoredCryptoKey {
+  id: string
+  key: CryptoKey
+}
+
+// What the OAuth login returned besides the access token
+export interface NotionOAuthGrant {
+  refreshToken: string | null // Sealed like notionToken
+  expiresAt: number | null // null = the token doesn't expire
+  workspaceId: string
+  workspaceName: string | null
+  workspaceIcon: string | null
+  botId: string
+  connectedAt: number
+}
+
+// Which Notion property holds each local field, when it differs from the default name
+export interface PropertyMapping {
+  properties: Record<string, string> // Field key → Notion property name
+  // Items only: completion stored in a status property instead of a checkbox
+  completedStatus: { done: string; todo: string } | null
 }
 
 // Form types
@@ -113,6 +272,7 @@ export interface ItemFormData {
   title: string
   content: string
   url?: string
+  canonicalUrl?: string // The page's own canonical link, when known - used for duplicate matching
   priority?: Priority
   deadline?: Date
   categoryId?: string
@@ -194,3 +354,19 @@ export interface FeatureRequestPayload {
   source: 'NotionEX Extension'
   timestamp: string
 }
+
+export type SyncPhase = 'pull' | 'push'
+
+// Live state of the running sync, streamed from the service worker
+export interface SyncProgress {
+  running: boolean
+  entity: SyncEntityType | null
+  phase: SyncPhase | null
+  fetched: number          // Pages read from Notion in this pull
+  position: number         // Pages merged or queue entries pushed so far
+  total: number            // Pages to merge or entries to push in this phase
+  current: string | null   // Title of the record being handled
+  errors: string[]
+  startedAt: number | null
+  cancelled: boolean
+}
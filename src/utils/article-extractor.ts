@@ -0,0 +1,385 @@
+/**
+ * Reader-mode extraction of a page's main article
+ * extractArticle is injected with chrome.scripting, so it must stay self-contained:
+ * everything it uses is declared inside its body (only type imports are allowed here)
+ */
+
+import type { InlineSpan, MarkdownBlockType } from './markdown'
+
+export interface ArticleBlock {
+  type: MarkdownBlockType
+  spans: InlineSpan[]   // Caption for images, the literal text for code
+  url?: string          // image
+  language?: string     // code
+}
+
+export interface ExtractedArticle {
+  title: string
+  byline: string | null
+  publishedAt: string | null   // As the page states it, usually ISO 8601
+  siteName: string | null
+  excerpt: string | null
+  leadImage: string | null
+  blocks: ArticleBlock[]
+}
+
+/**
+ * Find the main content of the current page, Readability-style:
+ * paragraphs score their ancestors, the best-scoring container (less its link text) wins,
+ * and siblings that look like more of the same article are kept with it
+ */
+export function extractArticle(): ExtractedArticle | null {
+  const UNLIKELY = /banner|breadcrumb|comment|community|cookie|disqus|footer|header|menu|modal|nav|newsletter|pagination|popup|promo|related|remark|share|sidebar|social|sponsor|subscribe|widget|advert|\bads?\b/i
+  const MAYBE = /article|body|column|content|main|story|entry|post|text/i
+  const POSITIVE = /article|body|content|entry|main|page|post|story|text|blog/i
+  const NEGATIVE = /comment|footer|footnote|sidebar|widget|share|related|promo|hidden|\bads?\b/i
+  const REMOVE = [
+    'script', 'style', 'noscript', 'template', 'iframe', 'object', 'embed', 'form', 'button', 'input',
+    'select', 'textarea', 'svg', 'canvas', 'nav', 'aside', 'header', 'footer', 'dialog',
+    '[role="navigation"]', '[role="complementary"]', '[role="dialog"]', '[aria-hidden="true"]', '[hidden]',
+  ].join(', ')
+  const BLOCK_TAGS = new Set([
+    'ADDRESS', 'ARTICLE', 'BLOCKQUOTE', 'BR', 'DD', 'DETAILS', 'DIV', 'DL', 'DT', 'FIGCAPTION', 'FIGURE',
+    'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HR', 'IMG', 'LI', 'MAIN', 'OL', 'P', 'PICTURE', 'PRE', 'SECTION',
+    'SUMMARY', 'TABLE', 'TBODY', 'TD', 'TFOOT', 'TH', 'THEAD', 'TR', 'UL',
+  ])
+
+  type Style = Omit<InlineSpan, 'text'>
+
+  const clean = (text: string | null | undefined) => (text ?? '').replace(/\s+/g, ' ').trim()
+
+  const absolute = (url: string | null | undefined): string | null => {
+    if (!url) return null
+    try {
+      const resolved = new URL(url.trim(), document.baseURI)
+      return /^https?:$/.test(resolved.protocol) ? resolved.href : null
+    } catch {
+      return null
+    }
+  }
+
+  const meta = (...names: string[]): string | null => {
+    for (const name of names) {
+      const tag = document.querySelector<HTMLMetaElement>(
+        `meta[property="${name}"], meta[name="${name}"], meta[itemprop="${name}"]`
+      )
+      const content = clean(tag?.content)
+      if (content) return content
+    }
+    return null
+  }
+
+  // Metadata comes from the live page; the body is read from an inert copy
+  // (a separate document doesn't load images or run anything)
+  const title = meta('og:title', 'twitter:title') || clean(document.querySelector('h1')?.textContent) || clean(document.title)
+  const authorMeta = meta('author', 'article:author', 'parsely-author')
+  const authorNode = document.querySelector('[rel="author"], [itemprop="author"], .byline, .author')
+  const byline = (authorMeta && !/^https?:/.test(authorMeta) ? authorMeta : null)
+    || (clean(authorNode?.textContent).length < 100 ? clean(authorNode?.textContent) || null : null)
+  const publishedAt = meta('article:published_time', 'datePublished', 'date', 'pubdate')
+    || document.querySelector('time[datetime]')?.getAttribute('datetime')
+    || null
+  const siteName = meta('og:site_name', 'application-name')
+  const excerpt = meta('og:description', 'description', 'twitter:description')
+  const leadImage = absolute(meta('og:image', 'og:image:url', 'twitter:image'))
+
+  if (!document.body) return null
+  const inert = document.implementation.createHTMLDocument('')
+  const root = inert.importNode(document.body, true)
+  inert.body.replaceWith(root)
+
+  root.querySelectorAll(REMOVE).forEach((el) => el.remove())
+  root.querySelectorAll('*').forEach((el) => {
+    if (['BODY', 'ARTICLE', 'MAIN'].includes(el.tagName) || el.hasAttribute('itemprop')) return
+    const names = `${el.getAttribute('class') ?? ''} ${el.id}`
+    if (UNLIKELY.test(names) && !MAYBE.test(names)) el.remove()
+  })
+
+  // Scoring
+  const textLength = (el: Element) => clean(el.textContent).length
+  const linkDensity = (el: Element) => {
+    const total = textLength(el)
+    if (!total) return 0
+    let links = 0
+    el.querySelectorAll('a').forEach((a) => { links += textLength(a) })
+    return links / total
+  }
+  const scores = new Map<Element, number>()
+  const addScore = (el: Element | null, points: number) => {
+    if (!el || !root.contains(el)) return
+    if (!scores.has(el)) {
+      const names = `${el.getAttribute('class') ?? ''} ${el.id}`
+      const tagBonus = el.tagName === 'ARTICLE' ? 10 : el.tagName === 'DIV' ? 5 : 0
+      scores.set(el, tagBonus + (POSITIVE.test(names) ? 25 : 0) - (NEGATIVE.test(names) ? 25 : 0))
+    }
+    scores.set(el, scores.get(el)! + points)
+  }
+
+  root.querySelectorAll('p, pre, td, blockquote').forEach((paragraph) => {
+    const text = clean(paragraph.textContent)
+    if (text.length < 25) return
+    const points = 1 + (text.split(',').length - 1) + Math.min(Math.floor(text.length / 100), 3)
+    addScore(paragraph.parentElement, points)
+    addScore(paragraph.parentElement?.parentElement ?? null, points / 2)
+  })
+
+  let top: Element = root
+  let topScore = 0
+  scores.forEach((score, el) => {
+    const adjusted = score * (1 - linkDensity(el))
+    if (adjusted > topScore) {
+      top = el
+      topScore = adjusted
+    }
+  })
+
+  const parts: Element[] = [top]
+  if (top !== root && top.parentElement) {
+    parts.length = 0
+    const threshold = Math.max(10, topScore * 0.2)
+    for (const sibling of Array.from(top.parentElement.children)) {
+      if (sibling === top) {
+        parts.push(sibling)
+        continue
+      }
+      const density = linkDensity(sibling)
+      const score = (scores.get(sibling) ?? 0) * (1 - density)
+      const length = textLength(sibling)
+      const isLongParagraph = sibling.tagName === 'P' && length > 80 && density < 0.25
+      const isSentence = sibling.tagName === 'P' && length > 0 && density === 0 && /\.( |$)/.test(clean(sibling.textContent))
+      if (score >= threshold || isLongParagraph || isSentence) parts.push(sibling)
+    }
+  }
+
+  // Conversion to blocks
+  const blocks: ArticleBlock[] = []
+
+  const sameStyle = (a: Style, b: Style) =>
+    !!a.bold === !!b.bold && !!a.italic === !!b.italic && !!a.strikethrough === !!b.strikethrough
+    && !!a.underline === !!b.underline && !!a.code === !!b.code && a.href === b.href
+
+  const appendText = (out: InlineSpan[], raw: string, style: Style) => {
+    let text = raw.replace(/\s+/g, ' ')
+    const last = out[out.length - 1]
+    if (text.startsWith(' ') && (!last || last.text.endsWith(' '))) text = text.slice(1)
+    if (!text) return
+    if (last && sameStyle(last, style)) last.text += text
+    else out.push({ ...style, text })
+  }
+
+  const collect = (node: Node, style: Style, out: InlineSpan[]) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      appendText(out, node.textContent ?? '', style)
+      return
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return
+    const el = node as Element
+    const next: Style = { ...style }
+    switch (el.tagName) {
+      case 'B':
+      case 'STRONG':
+        next.bold = true
+        break
+      case 'I':
+      case 'EM':
+      case 'CITE':
+        next.italic = true
+        break
+      case 'S':
+      case 'DEL':
+      case 'STRIKE':
+        next.strikethrough = true
+        break
+      case 'U':
+      case 'INS':
+        next.underline = true
+        break
+      case 'CODE':
+      case 'KBD':
+      case 'SAMP':
+        next.code = true
+        break
+      case 'A': {
+        const href = absolute(el.getAttribute('href'))
+        if (href) next.href = href
+        break
+      }
+    }
+    el.childNodes.forEach((child) => collect(child, next, out))
+    // Nested blocks (a <p> inside a quote) still read as separate words
+    if (BLOCK_TAGS.has(el.tagName)) appendText(out, ' ', {})
+  }
+
+  const trimSpans = (spans: InlineSpan[]) => {
+    const kept = spans.filter((span) => span.text)
+    if (kept.length) {
+      kept[0].text = kept[0].text.trimStart()
+      kept[kept.length - 1].text = kept[kept.length - 1].text.trimEnd()
+    }
+    return kept.filter((span) => span.text)
+  }
+
+  const pushText = (type: MarkdownBlockType, spans: InlineSpan[]) => {
+    const trimmed = trimSpans(spans)
+    if (trimmed.length) blocks.push({ type, spans: trimmed })
+  }
+
+  const imageSource = (img: Element): string | null => {
+    const srcset = img.getAttribute('srcset') ?? img.getAttribute('data-srcset')
+    const candidates = [
+      img.getAttribute('data-src'),
+      img.getAttribute('data-original'),
+      img.getAttribute('data-lazy-src'),
+      img.getAttribute('src'),
+      srcset?.trim().split(/\s+/)[0],
+    ]
+    for (const candidate of candidates) {
+      const url = absolute(candidate)
+      if (url) return url
+    }
+    return null
+  }
+
+  const pushImage = (img: Element | null, caption: InlineSpan[]) => {
+    if (!img) return
+    // Tracking pixels and icons
+    const width = Number(img.getAttribute('width'))
+    const height = Number(img.getAttribute('height'))
+    if ((width && width < 50) || (height && height < 50)) return
+    const url = imageSource(img)
+    if (!url) return
+    const spans = trimSpans(caption)
+    blocks.push({ type: 'image', url, spans: spans.length ? spans : trimSpans([{ text: img.getAttribute('alt') ?? '' }]) })
+  }
+
+  const listItems = (list: Element) => {
+    const type: MarkdownBlockType = list.tagName === 'OL' ? 'numbered_list_item' : 'bulleted_list_item'
+    for (const item of Array.from(list.children)) {
+      if (item.tagName !== 'LI') continue
+      const spans: InlineSpan[] = []
+      const nested: Element[] = []
+      item.childNodes.forEach((child) => {
+        if (child.nodeType === Node.ELEMENT_NODE && ['UL', 'OL'].includes((child as Element).tagName)) {
+          nested.push(child as Element)
+        } else {
+          collect(child, {}, spans)
+        }
+      })
+      pushText(type, spans)
+      // Notion nesting isn't synced - sub-items follow their parent at the same level
+      nested.forEach(listItems)
+    }
+  }
+
+  let paragraph: InlineSpan[] = []
+  const flushParagraph = () => {
+    pushText('paragraph', paragraph)
+    paragraph = []
+  }
+
+  const walk = (container: Element) => {
+    container.childNodes.forEach((child) => {
+      if (child.nodeType !== Node.ELEMENT_NODE) {
+        collect(child, {}, paragraph)
+        return
+      }
+      const el = child as Element
+      if (!BLOCK_TAGS.has(el.tagName)) {
+        collect(el, {}, paragraph)
+        return
+      }
+
+      flushParagraph()
+      switch (el.tagName) {
+        case 'H1':
+        case 'H2':
+        case 'H3':
+        case 'H4':
+        case 'H5':
+        case 'H6': {
+          // The title is the item title already
+          if (clean(el.textContent) === title) break
+          const level = Math.min(Number(el.tagName[1]), 3)
+          const spans: InlineSpan[] = []
+          collect(el, {}, spans)
+          pushText(`heading_${level}` as MarkdownBlockType, spans)
+          break
+        }
+        case 'P':
+        case 'DT':
+        case 'DD':
+        case 'ADDRESS':
+        case 'SUMMARY':
+        case 'FIGCAPTION': {
+          const spans: InlineSpan[] = []
+          collect(el, {}, spans)
+          pushText('paragraph', spans)
+          break
+        }
+        case 'UL':
+        case 'OL':
+          listItems(el)
+          break
+        case 'BLOCKQUOTE': {
+          const spans: InlineSpan[] = []
+          collect(el, {}, spans)
+          pushText('quote', spans)
+          break
+        }
+        case 'PRE': {
+          const code = (el.textContent ?? '').replace(/\n+$/, '')
+          const languageClass = `${el.getAttribute('class') ?? ''} ${el.querySelector('code')?.getAttribute('class') ?? ''}`
+          const language = languageClass.match(/(?:language|lang)-([\w#+-]+)/)?.[1]
+          if (code.trim()) blocks.push({ type: 'code', spans: [{ text: code }], language })
+          break
+        }
+        case 'HR':
+          blocks.push({ type: 'divider', spans: [] })
+          break
+        case 'BR':
+          break
+        case 'IMG':
+          pushImage(el, [])
+          break
+        case 'PICTURE':
+          pushImage(el.querySelector('img'), [])
+          break
+        case 'FIGURE': {
+          const img = el.querySelector('img')
+          if (!img) {
+            walk(el)
+            break
+          }
+          const caption: InlineSpan[] = []
+          const figcaption = el.querySelector('figcaption')
+          if (figcaption) collect(figcaption, {}, caption)
+          pushImage(img, caption)
+          break
+        }
+        case 'TABLE': {
+          // Layout tables hold the page itself; data tables become one line per row
+          if (el.querySelector('p, div, table table')) {
+            walk(el)
+            break
+          }
+          el.querySelectorAll('tr').forEach((row) => {
+            const cells = Array.from(row.children).map((cell) => clean(cell.textContent)).filter(Boolean)
+            pushText('paragraph', [{ text: cells.join(' | ') }])
+          })
+          break
+        }
+        default:
+          walk(el)
+      }
+      flushParagraph()
+    })
+  }
+
+  // The kept parts are read as children of one container, so lists and quotes among them keep their type
+  const article = inert.createElement('div')
+  parts.forEach((part) => article.appendChild(part))
+  walk(article)
+  flushParagraph()
+
+  return { title, byline, publishedAt, siteName, excerpt, leadImage, blocks }
+}
@@ -0,0 +1,36 @@
+/**
+ * Fuzzy matching for quick search
+ */
+
+const WORD_SEPARATOR = /[\s\-_/.:]/
+
+/**
+ * Score how well a query matches a text, or null when it doesn't
+ * Whole substrings beat scattered letters; matches at word starts and in a row score higher
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = query.trim().toLowerCase()
+  const target = text.toLowerCase()
+  if (!q) return 0
+
+  const direct = target.indexOf(q)
+  if (direct !== -1) {
+    const atWordStart = direct === 0 || WORD_SEPARATOR.test(target[direct - 1])
+    return 1000 + (atWordStart ? 100 : 0) - direct - (target.length - q.length) * 0.1
+  }
+
+  // Every query letter in order, not necessarily adjacent
+  let score = 0
+  let from = 0
+  let previous = -2
+  for (const char of q) {
+    if (WORD_SEPARATOR.test(char)) continue
+    const found = target.indexOf(char, from)
+    if (found === -1) return null
+    score += found === previous + 1 ? 5 : 1
+    if (found === 0 || WORD_SEPARATOR.test(target[found - 1])) score += 3
+    previous = found
+    from = found + 1
+  }
+  return score - target.length * 0.01
+}
@@ -0,0 +1,113 @@
+import { readFileSync } from 'node:fs'
+import { describe, expect, it } from 'vitest'
+import { detectCharset, parseHtmlMetadata, readHtmlMetadata } from './html-metadata'
+import type { UrlMetadata } from './url-metadata'
+
+const fixture = (name: string): Uint8Array => readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url))
+
+// A fetched page whose body arrives in chunks of the given size
+function respond(bytes: Uint8Array, url: string, chunkSize: number, contentType = 'text/html'): Response {
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let i = 0; i < bytes.length; i += chunkSize) controller.enqueue(bytes.slice(i, i + chunkSize))
+      controller.close()
+    },
+  })
+  const response = new Response(body, { headers: { 'content-type': contentType } })
+  Object.defineProperty(response, 'url', { value: url })
+  return response
+}
+
+const CHUNK_SIZES = [1, 3, 7, 64, 1024]
+
+// Every fixture is read whole and streamed in small chunks - both must give the same result
+async function expectMetadata(name: string, url: string, expected: Partial<UrlMetadata>): Promise<void> {
+  const bytes = fixture(name)
+  const whole = parseHtmlMetadata(new TextDecoder().decode(bytes), url)
+  expect(whole).toMatchObject(expected)
+  for (const size of CHUNK_SIZES) {
+    expect(await readHtmlMetadata(respond(bytes, url, size), url)).toEqual(whole)
+  }
+}
+
+describe('html metadata', () => {
+  it('reads an article: entities, unquoted values, <base> and canonical resolution', async () => {
+    await expectMetadata('article.html', 'https://example.com/blog/2024/03/streaming.html', {
+      title: 'Don\'t Panic: A Guide to ‘Streaming’ Parsers',
+      description: 'She said "it\'s fine" — it wasn\'t',
+      image: 'https://example.com/blog/2024/images/cover.jpg',
+      siteName: 'Café Engineering',
+      canonicalUrl: 'https://example.com/posts/streaming-parsers?utm_source=feed',
+      favicon: 'https://example.com/favicon-32.png',
+      publishedAt: '2024-03-05T09:30:00Z',
+      // The author meta is a profile link, so the JSON-LD @graph names them
+      author: 'Jo Tran, Sam Lee',
+      structured: { type: 'article' },
+    })
+  })
+
+  it('reads a product from a JSON-LD list', async () => {
+    await expectMetadata('product.html', 'https://shop.example.com/p/x2', {
+      title: 'Trail Shoe X2',
+      description: 'Light trail runner',
+      image: 'https://cdn.example.com/x2.jpg',
+      canonicalUrl: null,
+      favicon: 'https://shop.example.com/favicon.ico',
+      structured: { type: 'product', price: '129.5 EUR', brand: 'Peak' },
+    })
+  })
+
+  it('reads a recipe nested in a commented-out WebPage', async () => {
+    await expectMetadata('recipe.html', 'https://recipes.example.org/pho-bo?ref=home', {
+      title: 'Phở bò',
+      image: 'https://recipes.example.org/pho.jpg',
+      canonicalUrl: 'https://recipes.example.org/pho-bo',
+      author: 'Linh',
+      structured: { type: 'recipe', totalTime: 'PT4H', recipeYield: '4 bowls' },
+    })
+  })
+
+  it('reads a video with a relative thumbnail', async () => {
+    await expectMetadata('video.html', 'https://video.example.com/watch/42', {
+      title: 'Parser demo',
+      image: 'https://video.example.com/thumbs/demo.jpg',
+      publishedAt: '2023-11-20',
+      structured: { type: 'video', duration: 'PT2M10S', embedUrl: 'https://video.example.com/embed/42' },
+    })
+  })
+
+  it('ignores markup inside scripts, comments and SVG titles', () => {
+    const html = new TextDecoder().decode(fixture('article.html')).replace(/<meta property="?og:title[^>]*>/g, '')
+    expect(parseHtmlMetadata(html, 'https://example.com/').title).toBe('Streaming parsers, explained')
+    expect(parseHtmlMetadata('<svg><title>Logo</title></svg><title>Page</title>', 'https://example.com/').title).toBe('Page')
+  })
+
+  it('decodes a page in its declared charset', async () => {
+    const bytes = fixture('windows-1252.html')
+    for (const size of CHUNK_SIZES) {
+      const metadata = await readHtmlMetadata(respond(bytes, 'https://example.fr/', size), 'https://example.fr/')
+      expect(metadata.title).toBe('Café crème – menu')
+    }
+  })
+
+  it('rejects responses that are not HTML', async () => {
+    const response = respond(new Uint8Array([1, 2, 3]), 'https://example.com/a.png', 3, 'image/png')
+    await expect(readHtmlMetadata(response, 'https://example.com/a.png')).rejects.toThrow('Not an HTML page')
+  })
+})
+
+describe('detectCharset', () => {
+  const ascii = (text: string) => new TextEncoder().encode(text)
+
+  it('prefers a byte order mark, then the header, then a meta declaration', () => {
+    expect(detectCharset('text/html; charset=iso-8859-1', new Uint8Array([0xef, 0xbb, 0xbf]))).toBe('utf-8')
+    expect(detectCharset('text/html; charset="Shift_JIS"', ascii('<meta charset=utf-8>'))).toBe('shift_jis')
+    expect(detectCharset('text/html', ascii('<meta charset="ISO-8859-1">'))).toBe('windows-1252')
+    expect(detectCharset(null, ascii('<html>'))).toBe('utf-8')
+  })
+
+  it('falls back to UTF-8 for unknown and ASCII-declared UTF-16 charsets', () => {
+    expect(detectCharset('text/html; charset=x-unknown', ascii(''))).toBe('utf-8')
+    expect(detectCharset(null, ascii('<meta charset=utf-16>'))).toBe('utf-8')
+  })
+})
@@ -0,0 +1,395 @@
+/**
+ * Page metadata from HTML: Open Graph, Twitter cards, plain meta tags, <title>,
+ * link rel=canonical / icons and JSON-LD (Article, Product, Recipe, VideoObject)
+ * Reads the document through the streaming tokenizer, so no DOM is needed (service worker safe)
+ */
+
+import { HtmlTokenizer, type HtmlToken } from './html-tokenizer'
+import type { StructuredMetadata, UrlMetadata } from './url-metadata'
+
+// Enough for the head and the JSON-LD of nearly any page
+const MAX_HTML_BYTES = 2 * 1024 * 1024
+// Where the HTML standard looks for a <meta charset>
+const CHARSET_PRESCAN_BYTES = 1024
+
+const ARTICLE_TYPES = new Set([
+  'article', 'newsarticle', 'blogposting', 'techarticle', 'scholarlyarticle', 'report',
+  'reportagenewsarticle', 'analysisnewsarticle', 'opinionnewsarticle', 'socialmediaposting', 'liveblogposting',
+])
+
+interface IconLink {
+  href: string
+  size: number      // Largest edge from "sizes", 0 when unknown
+  apple: boolean
+}
+
+type JsonObject = Record<string, unknown>
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const clean = (text: string | null | undefined): string | null => {
+  const value = text?.replace(/\s+/g, ' ').trim()
+  return value || null
+}
+
+function resolveUrl(href: string | null | undefined, base: string): string | null {
+  if (!href?.trim()) return null
+  try {
+    const url = new URL(href.trim(), base)
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Collects what the metadata needs while tokens stream past
+ */
+class MetadataCollector {
+  private meta = new Map<string, string>()
+  private icons: IconLink[] = []
+  private canonical: string | null = null
+  private baseHref: string | null = null
+  private title: string | null = null
+  private jsonLd: string[] = []
+
+  // Text of the <title> or JSON-LD <script> being read
+  private capture: { kind: 'title' | 'jsonLd'; text: string } | null = null
+  // <title> inside inline SVG names the graphic, not the page
+  private svgDepth = 0
+
+  handle = (token: HtmlToken): void => {
+    switch (token.type) {
+      case 'text':
+        if (this.capture) this.capture.text += token.text
+        break
+      case 'startTag':
+        this.startTag(token.name, token.attributes, token.selfClosing)
+        break
+      case 'endTag':
+        this.endTag(token.name)
+        break
+    }
+  }
+
+  private startTag(name: string, attributes: Record<string, string>, selfClosing: boolean): void {
+    switch (name) {
+      case 'svg':
+        if (!selfClosing) this.svgDepth++
+        break
+      case 'title':
+        if (this.svgDepth === 0 && this.title === null) this.capture = { kind: 'title', text: '' }
+        break
+      case 'script':
+        if (attributes.type?.trim().toLowerCase() === 'application/ld+json') this.capture = { kind: 'jsonLd', text: '' }
+        break
+      case 'base':
+        if (this.baseHref === null && attributes.href) this.baseHref = attributes.href
+        break
+      case 'meta': {
+        const key = (attributes.property ?? attributes.name ?? attributes.itemprop)?.trim().toLowerCase()
+        const content = clean(attributes.content)
+        // The first value of a key wins, as with og:image lists
+        if (key && content && !this.meta.has(key)) this.meta.set(key, content)
+        break
+      }
+      case 'link':
+        this.link(attributes)
+        break
+    }
+  }
+
+  private endTag(name: string): void {
+    if (name === 'svg' && this.svgDepth > 0) this.svgDepth--
+    if ((name === 'title' || name === 'script') && this.capture) {
+      if (this.capture.kind === 'title') this.title = clean(this.capture.text)
+      else this.jsonLd.push(this.capture.text)
+      this.capture = null
+    }
+  }
+
+  private link(attributes: Record<string, string>): void {
+    const href = attributes.href?.trim()
+    if (!href) return
+    const rel = (attributes.rel ?? '').toLowerCase().split(/\s+/)
+
+    if (rel.includes('canonical') && this.canonical === null) this.canonical = href
+
+    // "icon", "shortcut icon", "apple-touch-icon(-precomposed)"; mask-icon is a monochrome outline
+    const apple = rel.some((value) => value.startsWith('apple-touch-icon'))
+    if (rel.includes('icon') || apple) {
+      const sizes = (attributes.sizes ?? '').toLowerCase()
+      const size = sizes === 'any'
+        ? Infinity
+        : Math.max(0, ...sizes.split(/\s+/).map((entry) => Number(entry.split('x')[0]) || 0))
+      this.icons.push({ href, size, apple })
+    }
+  }
+
+  result(pageUrl: string): UrlMetadata {
+    const base = resolveUrl(this.baseHref, pageUrl) ?? pageUrl
+    const meta = (...keys: string[]) => {
+      for (const key of keys) {
+        const value = this.meta.get(key)
+        if (value) return value
+      }
+      return null
+    }
+    const structured = readJsonLd(this.jsonLd)
+
+    // An author given as a profile link is no name
+    const authorMeta = meta('article:author', 'author', 'parsely-author', 'dc.creator')
+    const author = (authorMeta && !/^https?:\/\//i.test(authorMeta) ? authorMeta : null) ?? structured?.author ?? null
+
+    return {
+      title: meta('og:title', 'twitter:title') ?? structured?.title ?? this.title,
+      description: meta('og:description', 'twitter:description', 'description') ?? structured?.description ?? null,
+      image: resolveUrl(
+        meta('og:image', 'og:image:url', 'og:image:secure_url', 'twitter:image', 'twitter:image:src')
+          ?? structured?.image ?? meta('image', 'thumbnailurl'),
+        base
+      ),
+      siteName: meta('og:site_name') ?? structured?.publisher ?? meta('application-name'),
+      canonicalUrl: resolveUrl(this.canonical ?? meta('og:url') ?? structured?.url, base),
+      favicon: this.bestIcon(base),
+      publishedAt: meta('article:published_time', 'datepublished', 'date', 'pubdate', 'dc.date', 'dcterms.created')
+        ?? structured?.publishedAt ?? null,
+      author,
+      structured: structured?.details ?? null,
+    }
+  }
+
+  // The largest declared icon; apple-touch icons only when nothing else is declared
+  private bestIcon(base: string): string | null {
+    const ranked = [...this.icons].sort((a, b) => Number(a.apple) - Number(b.apple) || b.size - a.size)
+    for (const icon of ranked) {
+      const url = resolveUrl(icon.href, base)
+      if (url) return url
+    }
+    return null
+  }
+}
+
+interface JsonLdResult {
+  title: string | null
+  description: string | null
+  image: string | null
+  url: string | null
+  publishedAt: string | null
+  author: string | null
+  publisher: string | null
+  details: StructuredMetadata
+}
+
+const text = (value: unknown): string | null => {
+  if (typeof value === 'string') return clean(value)
+  if (typeof value === 'number') return String(value)
+  if (Array.isArray(value)) return text(value[0])
+  return null
+}
+
+// "Jane", {name: "Jane"} or a list of either
+function names(value: unknown): string | null {
+  const list = (Array.isArray(value) ? value : [value])
+    .map((entry) => (isObject(entry) ? text(entry.name) : text(entry)))
+    .filter((entry): entry is string => !!entry)
+  return list.length ? list.join(', ') : null
+}
+
+// "https://...", {url: ...}, {contentUrl: ...} or a list of either
+function imageUrl(value: unknown): string | null {
+  if (Array.isArray(value)) return imageUrl(value[0])
+  if (isObject(value)) return text(value.url) ?? text(value.contentUrl)
+  return text(value)
+}
+
+function typesOf(node: JsonObject): string[] {
+  const type = node['@type']
+  return (Array.isArray(type) ? type : [type])
+    .filter((entry): entry is string => typeof entry === 'string')
+    .map((entry) => entry.replace(/^https?:\/\/schema\.org\//i, '').toLowerCase())
+}
+
+function kindOf(node: JsonObject): StructuredMetadata['type'] | null {
+  const types = typesOf(node)
+  if (types.some((type) => ARTICLE_TYPES.has(type))) return 'article'
+  if (types.includes('product')) return 'product'
+  if (types.includes('recipe')) return 'recipe'
+  if (types.includes('videoobject')) return 'video'
+  return null
+}
+
+// Every object in the blocks, through arrays, @graph and nesting (a WebPage's mainEntity...)
+function* walkJsonLd(value: unknown, depth = 0): Generator<JsonObject> {
+  if (depth > 8) return
+  if (Array.isArray(value)) {
+    for (const entry of value) yield* walkJsonLd(entry, depth + 1)
+  } else if (isObject(value)) {
+    yield value
+    for (const key of Object.keys(value)) {
+      if (typeof value[key] === 'object') yield* walkJsonLd(value[key], depth + 1)
+    }
+  }
+}
+
+function describeOffer(offers: unknown): string | null {
+  const offer = Array.isArray(offers) ? offers[0] : offers
+  if (!isObject(offer)) return null
+  const price = text(offer.price) ?? text(offer.lowPrice)
+  if (!price) return null
+  const currency = text(offer.priceCurrency)
+  return currency ? `${price} ${currency}` : price
+}
+
+/**
+ * The first Article, Product, Recipe or VideoObject in the page's JSON-LD blocks
+ */
+function readJsonLd(blocks: string[]): JsonLdResult | null {
+  for (const block of blocks) {
+    let data: unknown
+    try {
+      // Some sites wrap the JSON in an HTML comment or CDATA
+      data = JSON.parse(block.trim().replace(/^<!--|-->$/g, '').replace(/^\/\*<!\[CDATA\[\*\/|\/\*\]\]>\*\/$/g, ''))
+    } catch {
+      continue
+    }
+
+    for (const node of walkJsonLd(data)) {
+      const kind = kindOf(node)
+      if (!kind) continue
+
+      const details: StructuredMetadata = { type: kind }
+      switch (kind) {
+        case 'product':
+          details.price = describeOffer(node.offers) ?? undefined
+          details.brand = names(node.brand) ?? undefined
+          break
+        case 'recipe':
+          details.totalTime = text(node.totalTime) ?? undefined
+          details.recipeYield = text(node.recipeYield) ?? undefined
+          break
+        case 'video':
+          details.duration = text(node.duration) ?? undefined
+          details.embedUrl = text(node.embedUrl) ?? text(node.contentUrl) ?? undefined
+          break
+      }
+
+      return {
+        title: text(node.headline) ?? text(node.name),
+        description: text(node.description),
+        image: imageUrl(node.image) ?? imageUrl(node.thumbnailUrl),
+        url: text(node.url) ?? (isObject(node.mainEntityOfPage) ? text(node.mainEntityOfPage['@id']) : text(node.mainEntityOfPage)),
+        publishedAt: text(node.datePublished) ?? text(node.uploadDate) ?? text(node.dateCreated),
+        author: names(node.author) ?? names(node.creator),
+        publisher: isObject(node.publisher) ? text(node.publisher.name) : null,
+        details,
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * Parse a whole HTML document
+ */
+export function parseHtmlMetadata(html: string, url: string): UrlMetadata {
+  const collector = new MetadataCollector()
+  const tokenizer = new HtmlTokenizer(collector.handle)
+  tokenizer.write(html)
+  tokenizer.end()
+  return collector.result(url)
+}
+
+function charsetFromContentType(contentType: string | null): string | null {
+  return contentType?.match(/charset\s*=\s*["']?([\w.:-]+)/i)?.[1] ?? null
+}
+
+/**
+ * Encoding of a response: byte order mark, then the Content-Type header,
+ * then a <meta charset> / http-equiv declaration near the top, then UTF-8
+ */
+export function detectCharset(contentType: string | null, head: Uint8Array): string {
+  if (head[0] === 0xef && head[1] === 0xbb && head[2] === 0xbf) return 'utf-8'
+  if (head[0] === 0xfe && head[1] === 0xff) return 'utf-16be'
+  if (head[0] === 0xff && head[1] === 0xfe) return 'utf-16le'
+
+  // windows-1252 maps every byte, so ASCII markup reads the same in any ASCII-compatible encoding
+  const prefix = new TextDecoder('windows-1252').decode(head.subarray(0, CHARSET_PRESCAN_BYTES))
+  const declared = charsetFromContentType(contentType)
+    ?? prefix.match(/<meta[^>]+charset\s*=\s*["']?\s*([\w.:-]+)/i)?.[1]
+    ?? null
+  if (!declared) return 'utf-8'
+
+  try {
+    const { encoding } = new TextDecoder(declared)
+    // A page that says UTF-16 in ASCII bytes can't really be UTF-16 (HTML standard)
+    return encoding.startsWith('utf-16') ? 'utf-8' : encoding
+  } catch {
+    return 'utf-8'
+  }
+}
+
+/**
+ * Stream a fetched page through the tokenizer
+ * Stops after MAX_HTML_BYTES; relative links resolve against the final (redirected) URL
+ */
+export async function readHtmlMetadata(response: Response, requestedUrl: string): Promise<UrlMetadata> {
+  const contentType = response.headers.get('content-type')
+  if (contentType && !/html|xml/i.test(contentType)) {
+    throw new Error(`Not an HTML page (${contentType})`)
+  }
+
+  const pageUrl = response.url || requestedUrl
+  const collector = new MetadataCollector()
+  const tokenizer = new HtmlTokenizer(collector.handle)
+
+  if (!response.body) {
+    tokenizer.write(await response.text())
+    tokenizer.end()
+    return collector.result(pageUrl)
+  }
+
+  const reader = response.body.getReader()
+  // The first bytes are held until the charset is known
+  const pending: Uint8Array[] = []
+  let pendingBytes = 0
+  let decoder: TextDecoder | null = null
+  let received = 0
+
+  const startDecoding = (): TextDecoder => {
+    const head = new Uint8Array(pendingBytes)
+    let offset = 0
+    for (const chunk of pending) {
+      head.set(chunk, offset)
+      offset += chunk.length
+    }
+    const created = new TextDecoder(detectCharset(contentType, head))
+    tokenizer.write(created.decode(head, { stream: true }))
+    return created
+  }
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      received += value.length
+
+      if (decoder) {
+        tokenizer.write(decoder.decode(value, { stream: true }))
+      } else {
+        pending.push(value)
+        pendingBytes += value.length
+        if (pendingBytes >= CHARSET_PRESCAN_BYTES) decoder = startDecoding()
+      }
+
+      if (received >= MAX_HTML_BYTES) break
+    }
+  } finally {
+    reader.cancel().catch(() => {})
+  }
+
+  tokenizer.write((decoder ?? startDecoding()).decode())
+  tokenizer.end()
+  return collector.result(pageUrl)
+}
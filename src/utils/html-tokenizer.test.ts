@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest'
+import { HtmlTokenizer, decodeEntities, type HtmlToken } from './html-tokenizer'
+
+// Tokens of a document written in the given chunks, adjacent text merged
+// (where text is cut depends on the chunks, the text itself must not)
+function tokenize(chunks: string[]): HtmlToken[] {
+  const tokens: HtmlToken[] = []
+  const tokenizer = new HtmlTokenizer((token) => {
+    const last = tokens[tokens.length - 1]
+    if (token.type === 'text' && last?.type === 'text') last.text += token.text
+    else tokens.push(token.type === 'text' ? { ...token } : token)
+  })
+  for (const chunk of chunks) tokenizer.write(chunk)
+  tokenizer.end()
+  return tokens
+}
+
+// The document cut in two at every position
+function everySplit(html: string): string[][] {
+  return Array.from({ length: html.length + 1 }, (_, i) => [html.slice(0, i), html.slice(i)])
+}
+
+describe('HtmlTokenizer', () => {
+  it('reads tags, attributes and text', () => {
+    expect(tokenize(['<p class="lead" hidden>Hi</p><br/>'])).toEqual([
+      { type: 'startTag', name: 'p', attributes: { class: 'lead', hidden: '' }, selfClosing: false },
+      { type: 'text', text: 'Hi' },
+      { type: 'endTag', name: 'p' },
+      { type: 'startTag', name: 'br', attributes: {}, selfClosing: true },
+    ])
+  })
+
+  it('reads unquoted and apostrophe-containing attribute values', () => {
+    const [meta] = tokenize([`<meta name=og:title content="Don't stop" alt='say "hi"' data-x=Rock'n'roll>`])
+    expect(meta).toMatchObject({
+      attributes: { name: 'og:title', content: "Don't stop", alt: 'say "hi"', 'data-x': "Rock'n'roll" },
+    })
+  })
+
+  it('lowercases names and keeps the first of repeated attributes', () => {
+    const [tag] = tokenize(['<META Content="first" content="second">'])
+    expect(tag).toMatchObject({ name: 'meta', attributes: { content: 'first' } })
+  })
+
+  it('skips comments and doctypes', () => {
+    expect(tokenize(['<!DOCTYPE html><!-- <b>not a tag</b> -->x'])).toEqual([{ type: 'text', text: 'x' }])
+  })
+
+  it('treats script content as raw text', () => {
+    expect(tokenize(['<script>if (a <b) "<title>x</title>"</script>'])).toEqual([
+      { type: 'startTag', name: 'script', attributes: {}, selfClosing: false },
+      { type: 'text', text: 'if (a <b) "<title>x</title>"' },
+      { type: 'endTag', name: 'script' },
+    ])
+  })
+
+  it('decodes entities in titles but not in scripts', () => {
+    const tokens = tokenize(['<title>A &amp; B</title><script>x &amp;&amp; y</script>'])
+    expect(tokens[1]).toEqual({ type: 'text', text: 'A & B' })
+    expect(tokens[4]).toEqual({ type: 'text', text: 'x &amp;&amp; y' })
+  })
+
+  it('gives the same tokens wherever a chunk edge falls', () => {
+    const html = '<p>caf&eacute; &#x1F600;</p><meta content=\'it&apos;s\' name=a><script>var s = "</scr" + "ipt>"</script ><i>&amp</i>'
+    const whole = tokenize([html])
+    for (const chunks of everySplit(html)) {
+      expect(tokenize(chunks)).toEqual(whole)
+    }
+    expect(tokenize(html.split(''))).toEqual(whole)
+  })
+})
+
+describe('decodeEntities', () => {
+  it('decodes named, decimal and hex references', () => {
+    expect(decodeEntities('&lt;&eacute;&#233;&#xE9;&hellip;&#x1F600;')).toBe('<ééé…😀')
+  })
+
+  it('maps C1 numeric references to Windows-1252', () => {
+    expect(decodeEntities('&#150;&#147;x&#148;&#128;')).toBe('–“x”€')
+  })
+
+  it('replaces invalid code points', () => {
+    expect(decodeEntities('&#0;&#xD800;&#x110000;')).toBe('���')
+  })
+
+  it('leaves unknown entities alone', () => {
+    expect(decodeEntities('&notanentity; AT&T &')).toBe('&notanentity; AT&T &')
+  })
+
+  it('decodes legacy entities without a semicolon, except before attribute-like text', () => {
+    expect(decodeEntities('&copy 2024 &amp')).toBe('© 2024 &')
+    expect(decodeEntities('?a=1&copy=2', true)).toBe('?a=1&copy=2')
+    expect(decodeEntities('?a=1&amp;b=2', true)).toBe('?a=1&b=2')
+    expect(decodeEntities('&eacute without semicolon')).toBe('&eacute without semicolon')
+  })
+})
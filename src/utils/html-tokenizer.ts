@@ -0,0 +1,260 @@
+/**
+ * Streaming HTML tokenizer - the part of the HTML standard needed to read page metadata
+ * Text is written in chunks as it arrives; a tag or entity cut at a chunk edge
+ * waits for the next chunk. Comments, doctypes and processing instructions are skipped.
+ */
+
+export type HtmlToken =
+  | { type: 'startTag'; name: string; attributes: Record<string, string>; selfClosing: boolean }
+  | { type: 'endTag'; name: string }
+  | { type: 'text'; text: string }
+
+// Content runs to the matching end tag without markup; RCDATA still decodes entities
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'xmp', 'iframe', 'noembed', 'noframes', 'noscript'])
+const RCDATA_TAGS = new Set(['title', 'textarea'])
+
+// Longest entity kept back at a chunk edge ("&#x10FFFF;" and named ones fit)
+const MAX_ENTITY_LENGTH = 32
+
+// Named entities: the Latin-1 set (U+00A0-U+00FF) in code point order, then common extras
+const LATIN1_ENTITIES = [
+  'nbsp', 'iexcl', 'cent', 'pound', 'curren', 'yen', 'brvbar', 'sect', 'uml', 'copy', 'ordf', 'laquo',
+  'not', 'shy', 'reg', 'macr', 'deg', 'plusmn', 'sup2', 'sup3', 'acute', 'micro', 'para', 'middot',
+  'cedil', 'sup1', 'ordm', 'raquo', 'frac14', 'frac12', 'frac34', 'iquest', 'Agrave', 'Aacute', 'Acirc',
+  'Atilde', 'Auml', 'Aring', 'AElig', 'Ccedil', 'Egrave', 'Eacute', 'Ecirc', 'Euml', 'Igrave', 'Iacute',
+  'Icirc', 'Iuml', 'ETH', 'Ntilde', 'Ograve', 'Oacute', 'Ocirc', 'Otilde', 'Ouml', 'times', 'Oslash',
+  'Ugrave', 'Uacute', 'Ucirc', 'Uuml', 'Yacute', 'THORN', 'szlig', 'agrave', 'aacute', 'acirc', 'atilde',
+  'auml', 'aring', 'aelig', 'ccedil', 'egrave', 'eacute', 'ecirc', 'euml', 'igrave', 'iacute', 'icirc',
+  'iuml', 'eth', 'ntilde', 'ograve', 'oacute', 'ocirc', 'otilde', 'ouml', 'divide', 'oslash', 'ugrave',
+  'uacute', 'ucirc', 'uuml', 'yacute', 'thorn', 'yuml',
+]
+
+const NAMED_ENTITIES: Record<string, number> = {
+  amp: 38, lt: 60, gt: 62, quot: 34, apos: 39,
+  ...Object.fromEntries(LATIN1_ENTITIES.map((name, index) => [name, 0xa0 + index])),
+  OElig: 338, oelig: 339, Scaron: 352, scaron: 353, Yuml: 376, fnof: 402, circ: 710, tilde: 732,
+  ensp: 8194, emsp: 8195, thinsp: 8201, zwnj: 8204, zwj: 8205, lrm: 8206, rlm: 8207,
+  ndash: 8211, mdash: 8212, lsquo: 8216, rsquo: 8217, sbquo: 8218, ldquo: 8220, rdquo: 8221, bdquo: 8222,
+  dagger: 8224, Dagger: 8225, bull: 8226, hellip: 8230, permil: 8240, prime: 8242, Prime: 8243,
+  lsaquo: 8249, rsaquo: 8250, euro: 8364, trade: 8482, larr: 8592, uarr: 8593, rarr: 8594, darr: 8595,
+  harr: 8596, minus: 8722, infin: 8734, ne: 8800, le: 8804, ge: 8805, hearts: 9829,
+}
+
+// Entities old pages write without the ";" - decoded that way only in text
+const LEGACY_ENTITIES = new Set(['amp', 'lt', 'gt', 'quot', 'nbsp', 'copy', 'reg'])
+
+// Numeric references in the C1 range mean Windows-1252 characters (HTML standard)
+const WINDOWS_1252: Record<number, number> = {
+  0x80: 0x20ac, 0x82: 0x201a, 0x83: 0x0192, 0x84: 0x201e, 0x85: 0x2026, 0x86: 0x2020, 0x87: 0x2021,
+  0x88: 0x02c6, 0x89: 0x2030, 0x8a: 0x0160, 0x8b: 0x2039, 0x8c: 0x0152, 0x8e: 0x017d, 0x91: 0x2018,
+  0x92: 0x2019, 0x93: 0x201c, 0x94: 0x201d, 0x95: 0x2022, 0x96: 0x2013, 0x97: 0x2014, 0x98: 0x02dc,
+  0x99: 0x2122, 0x9a: 0x0161, 0x9b: 0x203a, 0x9c: 0x0153, 0x9e: 0x017e, 0x9f: 0x0178,
+}
+
+const ENTITY_PATTERN = /&(#[xX][0-9a-fA-F]+|#\d+|[A-Za-z][A-Za-z0-9]*)(;?)/g
+
+const isSpace = (ch: string | undefined) => ch === ' ' || ch === '\n' || ch === '\t' || ch === '\r' || ch === '\f'
+const isLetter = (ch: string | undefined) => !!ch && /[A-Za-z]/.test(ch)
+
+function fromCodePoint(code: number): string {
+  if (code === 0 || code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff)) return '�'
+  return String.fromCodePoint(WINDOWS_1252[code] ?? code)
+}
+
+/**
+ * Decode character references
+ * In attribute values a legacy entity followed by a letter, digit or "=" stays literal (as browsers do)
+ */
+export function decodeEntities(text: string, inAttribute = false): string {
+  if (!text.includes('&')) return text
+  return text.replace(ENTITY_PATTERN, (match, body: string, semicolon: string, offset: number) => {
+    if (body[0] === '#') {
+      const code = body[1] === 'x' || body[1] === 'X' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10)
+      return fromCodePoint(code)
+    }
+    const code = NAMED_ENTITIES[body]
+    if (code === undefined) return match
+    if (semicolon) return String.fromCodePoint(code)
+    if (!LEGACY_ENTITIES.has(body)) return match
+    if (inAttribute && /[A-Za-z0-9=]/.test(text[offset + match.length] ?? '')) return match
+    return String.fromCodePoint(code)
+  })
+}
+
+export class HtmlTokenizer {
+  private buffer = ''
+  // Set while inside <script>, <title>... until its end tag
+  private rawTextTag: string | null = null
+
+  constructor(private readonly onToken: (token: HtmlToken) => void) {}
+
+  /**
+   * Feed the next chunk of the document
+   */
+  write(chunk: string): void {
+    this.buffer += chunk
+    this.consume(false)
+  }
+
+  /**
+   * Flush what is left - an unterminated tag at the very end is dropped
+   */
+  end(): void {
+    this.consume(true)
+    this.buffer = ''
+  }
+
+  private consume(final: boolean): void {
+    const buffer = this.buffer
+    let position = 0
+    while (position < buffer.length) {
+      const next = this.rawTextTag
+        ? this.readRawText(buffer, position, final)
+        : this.readToken(buffer, position, final)
+      // -1: the construct continues in a later chunk
+      if (next === -1) break
+      position = next
+    }
+    this.buffer = buffer.slice(position)
+  }
+
+  private emitText(text: string, decode: boolean): void {
+    if (text) this.onToken({ type: 'text', text: decode ? decodeEntities(text) : text })
+  }
+
+  private readRawText(buffer: string, position: number, final: boolean): number {
+    const tag = this.rawTextTag!
+    const closing = new RegExp(`</${tag}(?=[\\s/>])`, 'ig')
+    closing.lastIndex = position
+    const match = closing.exec(buffer)
+    const decode = RCDATA_TAGS.has(tag)
+
+    if (!match) {
+      if (!final) return -1
+      this.emitText(buffer.slice(position), decode)
+      return buffer.length
+    }
+
+    const close = buffer.indexOf('>', match.index)
+    if (close === -1 && !final) return -1
+
+    this.emitText(buffer.slice(position, match.index), decode)
+    this.onToken({ type: 'endTag', name: tag })
+    this.rawTextTag = null
+    return close === -1 ? buffer.length : close + 1
+  }
+
+  private readToken(buffer: string, position: number, final: boolean): number {
+    if (buffer[position] !== '<') {
+      let end = buffer.indexOf('<', position)
+      if (end === -1) {
+        end = buffer.length
+        // Hold back a reference that may be cut at the chunk edge
+        const amp = buffer.lastIndexOf('&')
+        if (!final && amp >= position && buffer.length - amp < MAX_ENTITY_LENGTH) end = amp
+        if (end === position) return -1
+      }
+      this.emitText(buffer.slice(position, end), true)
+      return end
+    }
+
+    const next = buffer[position + 1]
+    if (next === undefined) {
+      if (!final) return -1
+      this.emitText('<', false)
+      return buffer.length
+    }
+
+    // Comments end at "-->", doctypes and other "<!...>" / "<?...>" at the next ">"
+    if (next === '!' || next === '?') {
+      if (!final && buffer.length - position < 4) return -1
+      const isComment = buffer.startsWith('<!--', position)
+      const close = isComment ? buffer.indexOf('-->', position + 4) : buffer.indexOf('>', position + 2)
+      if (close === -1) return final ? buffer.length : -1
+      return close + (isComment ? 3 : 1)
+    }
+
+    if (next === '/') {
+      const first = buffer[position + 2]
+      if (first === undefined) return final ? buffer.length : -1
+      if (!isLetter(first)) {
+        // "</ ..." is a bogus comment up to the next ">"
+        const close = buffer.indexOf('>', position + 2)
+        if (close === -1) return final ? buffer.length : -1
+        return close + 1
+      }
+      return this.readTag(buffer, position, true, final)
+    }
+
+    if (isLetter(next)) return this.readTag(buffer, position, false, final)
+
+    // A "<" that opens nothing is text
+    this.emitText('<', false)
+    return position + 1
+  }
+
+  private readTag(buffer: string, position: number, isEnd: boolean, final: boolean): number {
+    const incomplete = final ? buffer.length : -1
+    let i = position + (isEnd ? 2 : 1)
+
+    const nameStart = i
+    while (i < buffer.length && !isSpace(buffer[i]) && buffer[i] !== '/' && buffer[i] !== '>') i++
+    const name = buffer.slice(nameStart, i).toLowerCase()
+
+    const attributes: Record<string, string> = Object.create(null)
+    let selfClosing = false
+
+    for (;;) {
+      while (isSpace(buffer[i])) i++
+      if (i >= buffer.length) return incomplete
+
+      const ch = buffer[i]
+      if (ch === '>') break
+      if (ch === '/') {
+        i++
+        selfClosing = buffer[i] === '>'
+        continue
+      }
+
+      // The first character may be anything, "=" included
+      const attrStart = i
+      i++
+      while (i < buffer.length && !isSpace(buffer[i]) && buffer[i] !== '/' && buffer[i] !== '>' && buffer[i] !== '=') i++
+      const attrName = buffer.slice(attrStart, i).toLowerCase()
+
+      while (isSpace(buffer[i])) i++
+      if (i >= buffer.length) return incomplete
+
+      let value = ''
+      if (buffer[i] === '=') {
+        i++
+        while (isSpace(buffer[i])) i++
+        if (i >= buffer.length) return incomplete
+
+        const quote = buffer[i]
+        if (quote === '"' || quote === "'") {
+          const close = buffer.indexOf(quote, i + 1)
+          if (close === -1) return incomplete
+          value = buffer.slice(i + 1, close)
+          i = close + 1
+        } else {
+          const valueStart = i
+          while (i < buffer.length && !isSpace(buffer[i]) && buffer[i] !== '>') i++
+          if (i >= buffer.length) return incomplete
+          value = buffer.slice(valueStart, i)
+        }
+      }
+
+      // Repeated attributes keep their first value
+      if (!(attrName in attributes)) attributes[attrName] = decodeEntities(value, true)
+    }
+
+    if (isEnd) {
+      this.onToken({ type: 'endTag', name })
+    } else {
+      this.onToken({ type: 'startTag', name, attributes, selfClosing })
+      if (RAW_TEXT_TAGS.has(name) || RCDATA_TAGS.has(name)) this.rawTextTag = name
+    }
+    return i + 1
+  }
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { formatInlineMarkdown, parseInlineMarkdown, parseMarkdownBlocks, formatMarkdownBlocks, type InlineSpan } from './markdown'
+
+// Plain text written out as Markdown and read back
+const roundTrip = (text: string) => {
+  const markdown = formatInlineMarkdown([{ text }])
+  return { markdown, spans: parseInlineMarkdown(markdown) }
+}
+
+describe('formatInlineMarkdown', () => {
+  it('leaves text alone that can not form markup', () => {
+    for (const text of ['2*3*4 = 24', 'price [USD]', '__init__', 'snake_case_name', 'a ~ b', 'x < y', 'it`s']) {
+      expect(roundTrip(text)).toEqual({ markdown: text, spans: [{ text }] })
+    }
+  })
+
+  it('escapes text that would read as markup', () => {
+    for (const text of ['**not bold**', '_not italic_', '[not](a link)', '~~not struck~~', '`not code`', '<u>x</u>', 'C:\\*']) {
+      const { markdown, spans } = roundTrip(text)
+      expect(markdown).not.toBe(text)
+      expect(spans).toEqual([{ text }])
+    }
+  })
+
+  it('gives styled spans back', () => {
+    const spans: InlineSpan[] = [
+      { text: 'Use ' },
+      { text: 'snake_case', code: true },
+      { text: ' for ' },
+      { text: '__dunder__', bold: true },
+      { text: ' names', italic: true },
+      { text: ' (see ' },
+      { text: 'the [docs]', href: 'https://example.com/a b' },
+      { text: ')' },
+    ]
+    const parsed = parseInlineMarkdown(formatInlineMarkdown(spans))
+    expect(parsed.map((s) => s.text).join('')).toBe(spans.map((s) => s.text).join(''))
+    expect(parsed).toEqual(spans.map((s) => (s.href ? { ...s, href: 'https://example.com/a%20b' } : s)))
+  })
+
+  it('escapes markup formed where spans meet', () => {
+    const cases: InlineSpan[][] = [
+      [{ text: 'a*' }, { text: 'b', bold: true }],
+      [{ text: '[x' }, { text: 'y', href: 'https://example.com' }],
+      [{ text: 'snake_' }, { text: 'case', italic: true }],
+      [{ text: 'x', italic: true }, { text: '_y' }],
+    ]
+    for (const spans of cases) {
+      expect(parseInlineMarkdown(formatInlineMarkdown(spans))).toEqual(spans)
+    }
+  })
+})
+
+describe('parseInlineMarkdown', () => {
+  it('reads single underscores as italics and runs as text', () => {
+    expect(parseInlineMarkdown('_a_ and __b__')).toEqual([{ text: 'a', italic: true }, { text: ' and __b__' }])
+  })
+})
+
+describe('markdown blocks', () => {
+  it('keeps paragraphs that look like other blocks', () => {
+    const lines = ['* not a bullet', '1. not a number', '# not a heading', '---', '![x](https://example.com/a.png)']
+    const blocks = lines.map((line) => ({ type: 'paragraph' as const, text: formatInlineMarkdown([{ text: line }]) }))
+    const parsed = parseMarkdownBlocks(formatMarkdownBlocks(blocks))
+    expect(parsed.map((b) => b.type)).toEqual(lines.map(() => 'paragraph'))
+    expect(parsed.map((b) => parseInlineMarkdown(b.text)[0].text)).toEqual(lines)
+  })
+})
@@ -0,0 +1,396 @@
+/**
+ * Lightweight Markdown used for item bodies
+ * Shared by the preview renderer and the Notion block converter, so both read text the same way
+ *
+ * Lines:  # / ## / ### headings, "- " bullets, "1. " numbers, "- [ ] " to-dos,
+ *         "> " quotes, ``` fenced code, "---" dividers, "![caption](url)" images,
+ *         anything else is a paragraph
+ * Inline: **bold**, _italic_ (or <i>italic</i> inside words), ~~strike~~, `code`,
+ *         [text](url), <u>underline</u>, <span color="red">color</span>, \ escapes
+ *         Runs of underscores (__init__) are literal text
+ */
+
+export type MarkdownBlockType =
+  | 'paragraph'
+  | 'heading_1'
+  | 'heading_2'
+  | 'heading_3'
+  | 'bulleted_list_item'
+  | 'numbered_list_item'
+  | 'to_do'
+  | 'quote'
+  | 'code'
+  | 'divider'
+  | 'image'
+
+export interface MarkdownBlock {
+  type: MarkdownBlockType
+  text: string          // Inline Markdown (literal text for code)
+  checked?: boolean     // to_do
+  language?: string     // code
+  url?: string          // image (text is the caption)
+}
+
+export interface InlineSpan {
+  text: string
+  bold?: boolean
+  italic?: boolean
+  strikethrough?: boolean
+  underline?: boolean
+  code?: boolean
+  color?: string        // Notion color name, e.g. "red" or "blue_background"
+  href?: string
+}
+
+type SpanStyle = Omit<InlineSpan, 'text'>
+
+// An image is a line of its own; only web addresses count so Notion can link them
+const IMAGE_LINE = /^!\[(.*)\]\((https?:\/\/\S+)\)$/
+
+// Characters a backslash can escape ("#", "-", ">", "." only matter at the start of a line)
+const ESCAPABLE = new Set(['\\', '*', '`', '[', ']', '~', '<', '_', '#', '-', '>', '.'])
+
+/**
+ * Split body text into blocks, one per line (fenced code spans several lines)
+ */
+export function parseMarkdownBlocks(content: string): MarkdownBlock[] {
+  if (!content) return []
+
+  const blocks: MarkdownBlock[] = []
+  const lines = content.split('\n')
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+
+    // Fenced code runs until the closing fence (or the end of the text)
+    const fence = line.match(/^```\s*(\S*)\s*$/)
+    if (fence) {
+      const code: string[] = []
+      i++
+      while (i < lines.length && !/^```\s*$/.test(lines[i])) {
+        code.push(lines[i])
+        i++
+      }
+      blocks.push({ type: 'code', text: code.join('\n'), language: fence[1] || undefined })
+      continue
+    }
+
+    let match: RegExpMatchArray | null
+    if ((match = line.match(/^(#{1,3}) (.*)$/))) {
+      blocks.push({ type: `heading_${match[1].length}` as MarkdownBlockType, text: match[2] })
+    } else if ((match = line.match(/^[-*] \[( |x|X)\] (.*)$/))) {
+      blocks.push({ type: 'to_do', text: match[2], checked: match[1] !== ' ' })
+    } else if ((match = line.match(/^[-*] (.*)$/))) {
+      blocks.push({ type: 'bulleted_list_item', text: match[1] })
+    } else if ((match = line.match(/^\d+\. (.*)$/))) {
+      blocks.push({ type: 'numbered_list_item', text: match[1] })
+    } else if ((match = line.match(/^> ?(.*)$/))) {
+      blocks.push({ type: 'quote', text: match[1] })
+    } else if ((match = line.match(IMAGE_LINE))) {
+      blocks.push({ type: 'image', text: match[1], url: match[2] })
+    } else if (/^---+$/.test(line)) {
+      blocks.push({ type: 'divider', text: '' })
+    } else {
+      blocks.push({ type: 'paragraph', text: line })
+    }
+  }
+
+  return blocks
+}
+
+/**
+ * Join blocks back into body text
+ */
+export function formatMarkdownBlocks(blocks: MarkdownBlock[]): string {
+  const lines: string[] = []
+  let listNumber = 0
+
+  for (const block of blocks) {
+    listNumber = block.type === 'numbered_list_item' ? listNumber + 1 : 0
+
+    switch (block.type) {
+      case 'heading_1':
+        lines.push(`# ${block.text}`)
+        break
+      case 'heading_2':
+        lines.push(`## ${block.text}`)
+        break
+      case 'heading_3':
+        lines.push(`### ${block.text}`)
+        break
+      case 'bulleted_list_item':
+        lines.push(`- ${block.text}`)
+        break
+      case 'numbered_list_item':
+        lines.push(`${listNumber}. ${block.text}`)
+        break
+      case 'to_do':
+        lines.push(`- [${block.checked ? 'x' : ' '}] ${block.text}`)
+        break
+      case 'quote':
+        lines.push(`> ${block.text}`)
+        break
+      case 'code':
+        lines.push(`\`\`\`${block.language ?? ''}`, block.text, '```')
+        break
+      case 'divider':
+        lines.push('---')
+        break
+      case 'image':
+        lines.push(`![${block.text}](${block.url ?? ''})`)
+        break
+      default:
+        lines.push(escapeLineStart(block.text))
+    }
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Keep a paragraph that looks like list/heading/quote syntax a paragraph
+ */
+function escapeLineStart(text: string): string {
+  if (/^\d+\. /.test(text)) return text.replace('.', '\\.')
+  if (/^(#{1,3} |[-*] |>|---+$)/.test(text)) return `\\${text}`
+  if (IMAGE_LINE.test(text)) return text.replace('[', '\\[')
+  return text
+}
+
+const isWordChar = (ch: string | undefined) => !!ch && /[\p{L}\p{N}]/u.test(ch)
+
+// "_" next to another "_" is part of a run, never a marker
+const inUnderscoreRun = (text: string, i: number) => text[i - 1] === '_' || text[i + 1] === '_'
+
+/**
+ * Index of the closing marker, skipping escaped characters, or -1
+ */
+function findClosing(text: string, marker: string, from: number): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\' && ESCAPABLE.has(text[i + 1])) {
+      i++
+      continue
+    }
+    // Markers inside code spans don't count
+    if (text[i] === '`') {
+      const fence = text.slice(i).match(/^`+/)![0]
+      const end = text.indexOf(fence, i + fence.length)
+      if (end !== -1) {
+        i = end + fence.length - 1
+        continue
+      }
+    }
+    if (!text.startsWith(marker, i)) continue
+    // "_" only closes at the end of a word
+    if (marker === '_' && (isWordChar(text[i + 1]) || inUnderscoreRun(text, i))) continue
+    return i
+  }
+  return -1
+}
+
+function pushSpan(spans: InlineSpan[], text: string, style: SpanStyle): void {
+  if (!text) return
+  const last = spans[spans.length - 1]
+  if (last && sameStyle(last, style)) {
+    last.text += text
+  } else {
+    spans.push({ ...style, text })
+  }
+}
+
+function sameStyle(a: SpanStyle, b: SpanStyle): boolean {
+  return !!a.bold === !!b.bold
+    && !!a.italic === !!b.italic
+    && !!a.strikethrough === !!b.strikethrough
+    && !!a.underline === !!b.underline
+    && !!a.code === !!b.code
+    && a.color === b.color
+    && a.href === b.href
+}
+
+function parseInto(text: string, style: SpanStyle, spans: InlineSpan[]): void {
+  let plain = ''
+  const flush = () => {
+    pushSpan(spans, plain, style)
+    plain = ''
+  }
+  // Parse a marked-up range with an added style
+  const nested = (inner: string, added: SpanStyle) => {
+    flush()
+    parseInto(inner, { ...style, ...added }, spans)
+  }
+
+  let i = 0
+  while (i < text.length) {
+    const ch = text[i]
+
+    if (ch === '\\' && ESCAPABLE.has(text[i + 1])) {
+      plain += text[i + 1]
+      i += 2
+      continue
+    }
+
+    // Code: a run of backticks closed by the same run, contents literal
+    if (ch === '`') {
+      const fence = text.slice(i).match(/^`+/)![0]
+      const end = text.indexOf(fence, i + fence.length)
+      if (end !== -1) {
+        let code = text.slice(i + fence.length, end)
+        if (fence.length > 1 && code.startsWith(' ') && code.endsWith(' ')) code = code.slice(1, -1)
+        flush()
+        pushSpan(spans, code, { ...style, code: true })
+        i = end + fence.length
+        continue
+      }
+    }
+
+    if (ch === '[') {
+      const close = findClosing(text, '](', i + 1)
+      const urlEnd = close !== -1 ? text.indexOf(')', close + 2) : -1
+      if (urlEnd !== -1) {
+        nested(text.slice(i + 1, close), { href: text.slice(close + 2, urlEnd) })
+        i = urlEnd + 1
+        continue
+      }
+    }
+
+    if (text.startsWith('**', i) || text.startsWith('~~', i)) {
+      const marker = text.slice(i, i + 2)
+      const end = findClosing(text, marker, i + 2)
+      if (end > i + 2) {
+        nested(text.slice(i + 2, end), marker === '**' ? { bold: true } : { strikethrough: true })
+        i = end + 2
+        continue
+      }
+    }
+
+    // "_" opens only at the start of a word, so snake_case stays literal
+    if (ch === '_' && !isWordChar(text[i - 1]) && !inUnderscoreRun(text, i) && text[i + 1] && text[i + 1] !== ' ') {
+      const end = findClosing(text, '_', i + 1)
+      if (end > i + 1) {
+        nested(text.slice(i + 1, end), { italic: true })
+        i = end + 1
+        continue
+      }
+    }
+
+    if (text.startsWith('<u>', i) || text.startsWith('<i>', i)) {
+      const tag = text[i + 1]
+      const end = findClosing(text, `</${tag}>`, i + 3)
+      if (end !== -1) {
+        nested(text.slice(i + 3, end), tag === 'u' ? { underline: true } : { italic: true })
+        i = end + 4
+        continue
+      }
+    }
+
+    const color = text.slice(i).match(/^<span color="([a-z_]+)">/)
+    if (color) {
+      const end = findClosing(text, '</span>', i + color[0].length)
+      if (end !== -1) {
+        nested(text.slice(i + color[0].length, end), { color: color[1] })
+        i = end + '</span>'.length
+        continue
+      }
+    }
+
+    plain += ch
+    i++
+  }
+
+  flush()
+}
+
+/**
+ * Parse inline Markdown into styled spans
+ */
+export function parseInlineMarkdown(text: string): InlineSpan[] {
+  const spans: InlineSpan[] = []
+  parseInto(text, {}, spans)
+  return spans
+}
+
+/**
+ * Escape characters that would otherwise be read as markup
+ * Minimal escaping leaves text alone that can't form markup inside the span (2*3, [USD], snake_case);
+ * strict escaping also covers markup that could form with the spans around it
+ */
+function escapeText(text: string, minimal: boolean): string {
+  let out = ''
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    const next = text[i + 1]
+    let needsEscape =
+      (ch === '\\' && (next === undefined || ESCAPABLE.has(next)))
+      || (ch === '~' && (next === undefined || next === '~'))
+      || (ch === '<' && /^<\/?(u|i|span)\b/.test(text.slice(i)))
+    if (minimal) {
+      needsEscape ||=
+        (ch === '*' && next === '*')
+        || (ch === '`' && text.indexOf('`') !== text.lastIndexOf('`'))
+        || (ch === ']' && next === '(')
+        || (ch === '_' && !inUnderscoreRun(text, i) && !(isWordChar(text[i - 1]) && isWordChar(next)))
+    } else {
+      needsEscape ||=
+        ch === '*' || ch === '`' || ch === '[' || ch === ']'
+        || (ch === '_' && !(isWordChar(text[i - 1]) && isWordChar(next)))
+    }
+    out += needsEscape ? `\\${ch}` : ch
+  }
+  return out
+}
+
+function formatCode(code: string): string {
+  if (!code.includes('`')) return `\`${code}\``
+  return `\`\` ${code} \`\``
+}
+
+// Links are written with ")" and spaces encoded so the URL ends at the right parenthesis
+const encodeHref = (href: string) => href.replace(/\)/g, '%29').replace(/ /g, '%20')
+
+/**
+ * Serialize styled spans back to inline Markdown
+ * parseInlineMarkdown(formatInlineMarkdown(spans)) gives the same spans back
+ */
+export function formatInlineMarkdown(spans: InlineSpan[]): string {
+  const expected: InlineSpan[] = []
+  for (const { text, ...style } of spans) {
+    pushSpan(expected, text, style.href ? { ...style, href: encodeHref(style.href) } : style)
+  }
+
+  // Escape only what the span itself could misread, unless the spans around it change the reading
+  const minimal = formatSpans(spans, true)
+  return sameSpans(parseInlineMarkdown(minimal), expected) ? minimal : formatSpans(spans, false)
+}
+
+function sameSpans(a: InlineSpan[], b: InlineSpan[]): boolean {
+  return a.length === b.length && a.every((span, k) => span.text === b[k].text && sameStyle(span, b[k]))
+}
+
+function formatSpans(spans: InlineSpan[], minimal: boolean): string {
+  const pieces = spans.map((span) => formatSpan(span, '_', minimal))
+
+  // "_" can't open or close next to a word character or another "_" - fall back to <i> there
+  for (let k = 0; k < spans.length; k++) {
+    if (!pieces[k].startsWith('_')) continue
+    const before = pieces[k - 1]?.slice(-1)
+    const after = pieces[k + 1]?.[0]
+    const inner = spans[k].text
+    if (isWordChar(before) || isWordChar(after) || before === '_' || after === '_' || /^[\s_]|[\s_]$/.test(inner)) {
+      pieces[k] = formatSpan(spans[k], '<i>', minimal)
+    }
+  }
+
+  return pieces.join('')
+}
+
+function formatSpan(span: InlineSpan, italic: '_' | '<i>', minimal: boolean): string {
+  let out = span.code ? formatCode(span.text) : escapeText(span.text, minimal)
+  if (span.bold) out = `**${out}**`
+  if (span.italic) out = italic === '_' ? `_${out}_` : `<i>${out}</i>`
+  if (span.strikethrough) out = `~~${out}~~`
+  if (span.underline) out = `<u>${out}</u>`
+  if (span.color) out = `<span color="${span.color}">${out}</span>`
+  if (span.href) out = `[${out}](${encodeHref(span.href)})`
+  return out
+}
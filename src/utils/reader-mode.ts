@@ -0,0 +1,134 @@
+/**
+ * Save full articles: extract a tab's readable content and keep it with the bookmark
+ * The body syncs as Notion page blocks, so the article outlives the page it came from
+ */
+
+import { createItem } from '@/db/operations/item-operations'
+import { mergeIntoItem } from '@/db/operations/duplicate-operations'
+import { getSettings } from '@/db/operations/settings-operations'
+import { formatInlineMarkdown, formatMarkdownBlocks, type MarkdownBlock } from './markdown'
+import { extractArticle, type ArticleBlock, type ExtractedArticle } from './article-extractor'
+import type { Item, ItemFormData } from '@/types'
+
+// Blocks kept per article - Notion takes 100 per request, so longer pages sync slowly
+const MAX_ARTICLE_BLOCKS = 1000
+
+// Filing of the saved records; the title defaults to the article's own
+type ArticleOptions = Pick<ItemFormData, 'categoryId' | 'projectId' | 'tags'> & { title?: string }
+
+/**
+ * Run the extractor in a tab
+ * Needs host access to the tab, which a popup or context-menu click grants through activeTab
+ */
+export async function readArticle(tabId: number): Promise<ExtractedArticle> {
+  const [injection] = await chrome.scripting.executeScript({ target: { tabId }, func: extractArticle })
+  const article = injection?.result
+  if (!article || article.blocks.length === 0) throw new Error('No readable article found on this page')
+  return article
+}
+
+function toMarkdownBlock(block: ArticleBlock): MarkdownBlock {
+  switch (block.type) {
+    case 'code':
+      return { type: 'code', text: block.spans.map((span) => span.text).join(''), language: block.language }
+    case 'divider':
+      return { type: 'divider', text: '' }
+    default:
+      // One line per block - stray line breaks would split it
+      return {
+        type: block.type,
+        text: formatInlineMarkdown(block.spans.map((span) => ({ ...span, text: span.text.replace(/\n/g, ' ') }))),
+        url: block.url,
+      }
+  }
+}
+
+function formatPublished(value: string): string {
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? value : date.toISOString().slice(0, 10)
+}
+
+/**
+ * Article body as item Markdown: byline line, lead image, then the content
+ */
+export function articleToContent(article: ExtractedArticle, sourceUrl?: string): string {
+  const blocks: MarkdownBlock[] = []
+
+  if (sourceUrl) {
+    let label = article.siteName
+    if (!label) {
+      try {
+        label = new URL(sourceUrl).hostname
+      } catch {
+        label = sourceUrl
+      }
+    }
+    blocks.push({ type: 'paragraph', text: formatInlineMarkdown([{ text: label, href: sourceUrl }]) })
+  }
+
+  const details = [article.byline, article.publishedAt && formatPublished(article.publishedAt)].filter(Boolean)
+  if (details.length) blocks.push({ type: 'paragraph', text: formatInlineMarkdown([{ text: details.join(' · '), italic: true }]) })
+
+  const body = article.blocks.slice(0, MAX_ARTICLE_BLOCKS)
+  if (article.leadImage && !body.some((block) => block.url === article.leadImage)) {
+    blocks.push({ type: 'image', text: '', url: article.leadImage })
+  }
+  blocks.push(...body.map(toMarkdownBlock))
+  if (article.blocks.length > MAX_ARTICLE_BLOCKS) blocks.push({ type: 'paragraph', text: '…' })
+
+  return formatMarkdownBlocks(blocks)
+}
+
+async function readTabArticle(tab: chrome.tabs.Tab): Promise<{ url: string; article: ExtractedArticle }> {
+  const url = tab.url
+  if (tab.id === undefined || !url || !/^https?:/.test(url)) {
+    throw new Error('Only web pages can be saved as articles')
+  }
+  return { url, article: await readArticle(tab.id) }
+}
+
+/**
+ * Save a tab as a bookmark together with its article
+ * The article goes into the bookmark body, or into a note with the same link
+ * when the articleSaveMode setting asks for that
+ */
+export async function saveArticle(tab: chrome.tabs.Tab, options: ArticleOptions): Promise<Item> {
+  const { url, article } = await readTabArticle(tab)
+  const { title: customTitle, ...filing } = options
+  const title = customTitle || article.title || tab.title || url
+  const { articleSaveMode } = await getSettings()
+
+  if ((articleSaveMode ?? 'bookmark') === 'note') {
+    const bookmark = await createItem({ type: 'bookmark', title, content: article.excerpt ?? '', url, ...filing })
+    await createItem({ type: 'note', title, content: articleToContent(article, url), url, ...filing })
+    return bookmark
+  }
+
+  return createItem({ type: 'bookmark', title, content: articleToContent(article), url, ...filing })
+}
+
+/**
+ * Add a tab's article to the bookmark already saved for the page
+ * The article is appended to the bookmark body, or saved as a note filed like
+ * the bookmark (which gets the excerpt if it has no text) when the articleSaveMode setting asks for that
+ */
+export async function saveArticleInto(tab: chrome.tabs.Tab, bookmark: Item): Promise<void> {
+  const { url, article } = await readTabArticle(tab)
+  const title = bookmark.title || article.title || tab.title || url
+  const filing = {
+    categoryId: bookmark.categoryId ?? undefined,
+    projectId: bookmark.projectId ?? undefined,
+    tags: bookmark.tags,
+  }
+  const { articleSaveMode } = await getSettings()
+
+  if ((articleSaveMode ?? 'bookmark') === 'note') {
+    if (!bookmark.content && article.excerpt) {
+      await mergeIntoItem(bookmark.id, { title, content: article.excerpt, url, tags: [] })
+    }
+    await createItem({ type: 'note', title, content: articleToContent(article, url), url, ...filing })
+    return
+  }
+
+  await mergeIntoItem(bookmark.id, { title, content: articleToContent(article), url, tags: [] })
+}
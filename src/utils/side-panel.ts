@@ -0,0 +1,57 @@
+/**
+ * Open the side panel from other extension contexts on a given view
+ * The request is handed over through chrome.storage.session, so it reaches
+ * a panel that is just starting as well as one that is already open
+ */
+
+import type { FooterTab, ItemType, ModuleTab } from '@/types'
+
+const PANEL_REQUEST_KEY = 'pendingPanelRequest'
+
+// What the panel shows once it opens
+export interface PanelRequest {
+  module?: ModuleTab
+  itemTab?: ItemType
+  footerTab?: FooterTab
+  action?: 'quickTask' | 'promptPicker'
+  editItemId?: string // Open this item's form
+}
+
+/**
+ * Hand a request to the side panel without opening it
+ */
+export async function requestPanel(request: PanelRequest): Promise<void> {
+  // A timestamp makes a repeated request a change the open panel hears
+  await chrome.storage.session.set({ [PANEL_REQUEST_KEY]: { ...request, at: Date.now() } })
+}
+
+/**
+ * Open the side panel in the current window
+ * Must be called from a user gesture
+ */
+export async function openSidePanel(request?: PanelRequest): Promise<void> {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+  if (!tab?.windowId) return
+  await chrome.sidePanel.open({ windowId: tab.windowId })
+  if (request) await requestPanel(request)
+}
+
+/**
+ * Side panel side: receive requests, including one made before the panel loaded
+ * Returns a function that stops listening
+ */
+export function onPanelRequest(listener: (request: PanelRequest) => void): () => void {
+  const take = (request: unknown) => {
+    if (!request) return
+    chrome.storage.session.remove(PANEL_REQUEST_KEY)
+    listener(request as PanelRequest)
+  }
+
+  chrome.storage.session.get(PANEL_REQUEST_KEY).then((result) => take(result[PANEL_REQUEST_KEY]))
+
+  const handler = (changes: Record<string, chrome.storage.StorageChange>, area: string) => {
+    if (area === 'session' && changes[PANEL_REQUEST_KEY]) take(changes[PANEL_REQUEST_KEY].newValue)
+  }
+  chrome.storage.onChanged.addListener(handler)
+  return () => chrome.storage.onChanged.removeListener(handler)
+}
@@ -8,6 +8,34 @@ export interface UrlMetadata {
   description: string | null
   image: string | null
   siteName: string | null
+  canonicalUrl: string | null
+  favicon: string | null
+  publishedAt: string | null   // As the page states it, usually ISO 8601
+  author: string | null
+  structured: StructuredMetadata | null
+}
+
+// What JSON-LD adds for the page kinds it describes
+export interface StructuredMetadata {
+  type: 'article' | 'product' | 'recipe' | 'video'
+  price?: string         // Product: "19.99 USD"
+  brand?: string
+  totalTime?: string     // Recipe, ISO 8601 duration
+  recipeYield?: string
+  duration?: string      // Video, ISO 8601 duration
+  embedUrl?: string
+}
+
+const EMPTY_METADATA: UrlMetadata = {
+  title: null,
+  description: null,
+  image: null,
+  siteName: null,
+  canonicalUrl: null,
+  favicon: null,
+  publishedAt: null,
+  author: null,
+  structured: null,
 }
 
 /**
@@ -37,7 +65,7 @@ export async function fetchUrlMetadata(url: string): Promise<UrlMetadata> {
 /**
  * Extract basic info from URL when fetch fails
  */
-function extractFromUrl(url: string): UrlMetadata {
+export function extractFromUrl(url: string): UrlMetadata {
   try {
     const parsedUrl = new URL(url)
     // Use hostname as title fallback
@@ -45,60 +73,8 @@ function extractFromUrl(url: string): UrlMetadata {
     // Capitalize first letter
     const title = hostname.charAt(0).toUpperCase() + hostname.slice(1)
 
-    return {
-      title,
-      description: null,
-      image: null,
-      siteName: hostname,
-    }
+    return { ...EMPTY_METADATA, title, siteName: hostname }
   } catch {
-    return {
-      title: null,
-      description: null,
-      image: null,
-      siteName: null,
-    }
-  }
-}
-
-/**
- * Parse HTML string to extract metadata
- * Used by background script
- */
-export function parseHtmlMetadata(html: string, url: string): UrlMetadata {
-  // Use DOMParser to parse HTML
-  const parser = new DOMParser()
-  const doc = parser.parseFromString(html, 'text/html')
-
-  // Extract title
-  const ogTitle = doc.querySelector('meta[property="og:title"]')?.getAttribute('content')
-  const twitterTitle = doc.querySelector('meta[name="twitter:title"]')?.getAttribute('content')
-  const titleTag = doc.querySelector('title')?.textContent
-  const title = ogTitle || twitterTitle || titleTag || null
-
-  // Extract description
-  const ogDescription = doc.querySelector('meta[property="og:description"]')?.getAttribute('content')
-  const twitterDescription = doc.querySelector('meta[name="twitter:description"]')?.getAttribute('content')
-  const metaDescription = doc.querySelector('meta[name="description"]')?.getAttribute('content')
-  const description = ogDescription || twitterDescription || metaDescription || null
-
-  // Extract image
-  const ogImage = doc.querySelector('meta[property="og:image"]')?.getAttribute('content')
-  const twitterImage = doc.querySelector('meta[name="twitter:image"]')?.getAttribute('content')
-  let image = ogImage || twitterImage || null
-
-  // Make relative image URLs absolute
-  if (image && !image.startsWith('http')) {
-    try {
-      image = new URL(image, url).href
-    } catch {
-      image = null
-    }
+    return EMPTY_METADATA
   }
-
-  // Extract site name
-  const ogSiteName = doc.querySelector('meta[property="og:site_name"]')?.getAttribute('content')
-  const siteName = ogSiteName || null
-
-  return { title, description, image, siteName }
 }
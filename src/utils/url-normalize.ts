@@ -0,0 +1,54 @@
+/**
+ * URL normalization for duplicate detection
+ * Two addresses of the same page normalize to the same key: tracking parameters,
+ * "www.", the scheme, trailing slashes, index files and plain fragments don't count
+ */
+
+// Parameters that only say where a click came from
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'gclsrc', 'dclid', 'gbraid', 'wbraid', 'msclkid', 'yclid', 'twclid', 'ttclid',
+  'igshid', 'mc_cid', 'mc_eid', '_hsenc', '_hsmi', 'mkt_tok', 'oly_anon_id', 'oly_enc_id', 'vero_id',
+  'ref_src', 'ref_url', 'spm',
+])
+const TRACKING_PREFIXES = ['utm_', 'pk_', 'hsa_']
+
+const INDEX_FILE = /\/index\.(html?|php|aspx?)$/i
+
+const isTracking = (name: string): boolean => {
+  const key = name.toLowerCase()
+  return TRACKING_PARAMS.has(key) || TRACKING_PREFIXES.some((prefix) => key.startsWith(prefix))
+}
+
+/**
+ * Duplicate key of a web address, or null for anything that isn't http(s)
+ * Fragments are dropped unless they route a single-page app ("#/..." or "#!...")
+ */
+export function normalizeUrl(url: string | null | undefined): string | null {
+  if (!url?.trim()) return null
+
+  let parsed: URL
+  try {
+    parsed = new URL(url.trim())
+  } catch {
+    return null
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null
+
+  // URL already lowercases the host and drops default ports
+  const host = parsed.hostname.replace(/^www\./, '')
+  const port = parsed.port ? `:${parsed.port}` : ''
+
+  let path = parsed.pathname.replace(INDEX_FILE, '/')
+  if (path.length > 1) path = path.replace(/\/+$/, '')
+  if (path === '/') path = ''
+
+  // Sorted, so parameter order doesn't matter either
+  const params = [...parsed.searchParams.entries()]
+    .filter(([name]) => !isTracking(name))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+  const query = params.length ? `?${new URLSearchParams(params).toString()}` : ''
+
+  const hash = /^#[/!]/.test(parsed.hash) ? parsed.hash : ''
+
+  return `https://${host}${port}${path}${query}${hash}`
+}